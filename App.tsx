@@ -1,11 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { AppState, Story, VoiceName, Scene, AspectRatio } from './types';
-import { generateStoryStructure, generateSceneImage, generateVoiceover, generateRecommendedTopics, generateCoverImage } from './services/geminiService';
-import { addTitleToCover } from './services/imageProcessor';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, Story, StorySummary, VoiceName, AspectRatio, GenerationJob, FactCheck, QuizQuestion, LibrarySettings, StorageUsage, VoiceCast, CoverTemplate } from './types';
+import { generateStoryStructure, generateFactCheck, generateQuiz, generateRecommendedTopics, generateCoverImage } from './services/geminiService';
+import { listStories, loadStory, saveStory, deleteStory, migrateLegacyStories, getStorageUsage, requestPersistentStorage, applyEvictionPolicy, loadLibrarySettings, saveLibrarySettings, formatBytes, releaseStoryClips } from './services/storyLibrary';
+import { exportStoryPackage, importStoryPackage, STORY_PACKAGE_EXTENSION } from './services/storyPackage';
+import { NewJobParams, createGenerationJob, saveJob, deleteJob, loadJobs, runGenerationJob, isJobComplete, countFinishedAssets, storyFromJob, mergeJobIntoStory } from './services/generationJobs';
+import { DEFAULT_STORY_STYLE } from './services/storyStyle';
+import { autoCast, speakingCharacters } from './services/voiceCasting';
+import { getProvider } from './services/providers';
+import { addTitleToCover, cropImage, CropRect } from './services/imageProcessor';
+import { loadCoverTemplate, saveCoverTemplate } from './services/coverTemplates';
 import { StoryPlayer } from './components/StoryPlayer';
 import { Button } from './components/Button';
 import { VoiceSelector } from './components/VoiceSelector';
-import { BookOpen, History as HistoryIcon, Sparkles, ArrowRight, Trash2, Map, Monitor, Smartphone, RefreshCw, Image as ImageIcon, Download } from 'lucide-react';
+import { StoryStyleSelector } from './components/StoryStyleSelector';
+import { VoiceCastingPanel } from './components/VoiceCastingPanel';
+import { GenerationProgress } from './components/GenerationProgress';
+import { LibraryStoragePanel } from './components/LibraryStoragePanel';
+import { CoverDesigner } from './components/CoverDesigner';
+import { CoverImageCropper } from './components/CoverImageCropper';
+import { SceneImagePicker } from './components/SceneImagePicker';
+import { BookOpen, History as HistoryIcon, Sparkles, ArrowRight, Trash2, Map, Monitor, Smartphone, RefreshCw, Image as ImageIcon, Download, RotateCcw, Eye, AlertTriangle, Upload, PackageOpen, ShieldCheck, Images } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 export default function App() {
@@ -14,7 +28,11 @@ export default function App() {
     savedStories: [],
     isLoading: false,
     loadingStep: '',
+    generationProgress: [],
+    pendingJobs: [],
     selectedVoice: VoiceName.Puck,
+    selectedStyle: DEFAULT_STORY_STYLE,
+    factCheckEnabled: true,
     selectedAspectRatio: '16:9',
     isImmersive: false,
   });
@@ -25,8 +43,27 @@ export default function App() {
 
   // Cover Gen State
   const [mode, setMode] = useState<'story' | 'cover'>('story');
+  // Untitled backgrounds; the title goes on with the template when one is downloaded.
+  // The user's own pictures are kept apart so a new batch of generated ones doesn't drop them.
   const [coverImages, setCoverImages] = useState<string[]>([]);
+  const [ownCoverImages, setOwnCoverImages] = useState<string[]>([]);
+  const [cropSource, setCropSource] = useState<{ src: string; title?: string } | null>(null);
+  const [showScenePicker, setShowScenePicker] = useState(false);
+  const coverUploadRef = useRef<HTMLInputElement | null>(null);
+  const [selectedCoverIndex, setSelectedCoverIndex] = useState(0);
+  const [coverTitle, setCoverTitle] = useState('');
+  const [coverTemplate, setCoverTemplate] = useState<CoverTemplate>(loadCoverTemplate);
   const [isCoverLoading, setIsCoverLoading] = useState(false);
+  const [downloadingCover, setDownloadingCover] = useState<number | null>(null);
+
+  // Library State
+  const [librarySettings, setLibrarySettings] = useState<LibrarySettings>(loadLibrarySettings);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isPackageBusy, setIsPackageBusy] = useState(false);
+
+  // Casting step between the script and asset generation
+  const [castingDraft, setCastingDraft] = useState<{ params: NewJobParams; speakers: string[]; cast: VoiceCast } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleRefreshTopics = async () => {
     if (isTopicsLoading) return;
@@ -47,52 +84,175 @@ export default function App() {
     }
   };
 
-  // Load stories from local storage on mount and init topics
+  // Clip URLs of a story are freed once it is closed or replaced by another one
+  const shownStoryRef = useRef<Story | null>(null);
+  useEffect(() => {
+      releaseStoryClips(shownStoryRef.current, state.currentStory);
+      shownStoryRef.current = state.currentStory;
+  }, [state.currentStory]);
+
+  // Load stories from the library on mount and init topics
   useEffect(() => {
     // Init with static defaults first to show something immediately
     setRecommendedTopics(['三顾茅庐', '郑和下西洋', '长城的故事', '花木兰']);
     // Then try to fetch fresh ones
     handleRefreshTopics();
 
-    const saved = localStorage.getItem('history_magic_stories');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Migrate old stories to have a default aspect ratio if missing
-        const migrated = parsed.map((s: any) => ({
-            ...s,
-            aspectRatio: s.aspectRatio || '16:9'
-        }));
-        setState(s => ({ ...s, savedStories: migrated }));
-      } catch (e) {
+    // Move any stories left in localStorage by older versions, then list the library
+    migrateLegacyStories()
+      .catch(e => console.error("Failed to migrate legacy stories", e))
+      .then(() => refreshLibrary());
+    requestPersistentStorage().catch(() => {});
+
+    loadJobs()
+      .then(jobs => setState(s => ({ ...s, pendingJobs: jobs })))
+      .catch(e => console.warn("Failed to load generation jobs", e));
+  }, []);
+
+  const refreshLibrary = async () => {
+    try {
+        const [stories, usage] = await Promise.all([listStories(), getStorageUsage()]);
+        setState(s => ({ ...s, savedStories: stories }));
+        setStorageUsage(usage);
+    } catch (e) {
         console.error("Failed to load stories", e);
-      }
     }
-  }, []);
+  };
 
-  const saveStoryToStorage = (story: Story) => {
-    const newSaved = [story, ...state.savedStories].slice(0, 2); 
-    setState(s => ({ ...s, savedStories: newSaved }));
+  const saveStoryToStorage = async (story: Story) => {
     try {
-        const storiesToSave = newSaved.map(s => ({
-            ...s,
-            scenes: s.scenes.map(scene => ({
-                ...scene,
-                audioData: undefined,
-                videoUrl: undefined // Don't save blob URLs as they expire
-            }))
-        }));
-        localStorage.setItem('history_magic_stories', JSON.stringify(storiesToSave));
+        await saveStory(story, librarySettings);
     } catch (e) {
-        alert("Storage full! Old stories might be overwritten.");
+        console.error("Failed to save story", e);
+        alert("存储空间已满！请删除一些旧故事，或在存储设置中开启自动清理。");
     }
+    await refreshLibrary();
   };
 
-  const handleDeleteStory = (id: string, e: React.MouseEvent) => {
+  // Edits and new assets from the player replace the open story and are saved right away
+  const handleStoryChange = async (story: Story) => {
+      setState(s => ({ ...s, currentStory: s.currentStory?.id === story.id ? story : s.currentStory }));
+      await saveStoryToStorage(story);
+  };
+
+  const handleDeleteStory = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
-      const newSaved = state.savedStories.filter(s => s.id !== id);
-      setState(s => ({ ...s, savedStories: newSaved }));
-      localStorage.setItem('history_magic_stories', JSON.stringify(newSaved));
+      try {
+          await deleteStory(id);
+      } catch (err) {
+          console.error("Failed to delete story", err);
+      }
+      await refreshLibrary();
+  };
+
+  const handleExportPackage = async (summary: StorySummary, e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (isPackageBusy) return;
+      setIsPackageBusy(true);
+      let story: Story | null = null;
+      try {
+          story = await loadStory(summary.id);
+          if (!story) throw new Error("Story not found");
+          const blob = await exportStoryPackage(story);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${story.title}${STORY_PACKAGE_EXTENSION}`;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+      } catch (err) {
+          console.error("Story export failed", err);
+          alert("导出故事包失败，请重试");
+      } finally {
+          releaseStoryClips(story);
+          setIsPackageBusy(false);
+      }
+  };
+
+  const handleImportPackage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // allow picking the same file again
+      if (!file) return;
+      setIsPackageBusy(true);
+      try {
+          const imported = await importStoryPackage(file);
+          // Importing a story that's already in the library keeps both copies
+          const story = state.savedStories.some(s => s.id === imported.id)
+              ? { ...imported, id: Date.now().toString() }
+              : imported;
+          await saveStoryToStorage(story);
+      } catch (err: any) {
+          console.error("Story import failed", err);
+          alert(err?.message || "导入故事包失败");
+      } finally {
+          setIsPackageBusy(false);
+      }
+  };
+
+  const handleLibrarySettingsChange = async (settings: LibrarySettings) => {
+      setLibrarySettings(settings);
+      saveLibrarySettings(settings);
+      const evicted = await applyEvictionPolicy(settings);
+      if (evicted.length > 0) await refreshLibrary();
+  };
+
+  const refreshPendingJob = (job: GenerationJob) => {
+      setState(s => ({
+          ...s,
+          pendingJobs: [job, ...s.pendingJobs.filter(j => j.id !== job.id)]
+      }));
+  };
+
+  // A resumed job's story may already be in the library with clips, quiz results and
+  // styling added since; only the job's finished assets are copied over it.
+  const storyForJob = async (job: GenerationJob): Promise<Story> => {
+      try {
+          const stored = await loadStory(job.id);
+          if (stored) return mergeJobIntoStory(stored, job);
+      } catch (e) {
+          console.warn("Failed to load the saved copy of the story", e);
+      }
+      return storyFromJob(job);
+  };
+
+  // Runs (or resumes) a generation job, then opens whatever was produced.
+  // Jobs with failed assets stay in the list so they can be retried later.
+  const runJob = async (job: GenerationJob) => {
+      setState(s => ({
+          ...s,
+          isLoading: true,
+          loadingStep: `正在生成 ${job.scenes.length} 个场景的画面和旁白...`,
+          generationProgress: job.sceneStatus
+      }));
+
+      // The last state the runner reported, so an interrupted job is listed as it was left
+      let latest = job;
+      try {
+          const finished = await runGenerationJob(job, updated => {
+              latest = updated;
+              setState(s => ({ ...s, generationProgress: updated.sceneStatus }));
+          });
+
+          if (isJobComplete(finished)) {
+              await deleteJob(finished.id);
+              setState(s => ({ ...s, pendingJobs: s.pendingJobs.filter(j => j.id !== finished.id) }));
+          } else {
+              refreshPendingJob(finished);
+              const { failed } = countFinishedAssets(finished);
+              alert(`故事已生成，但有 ${failed} 个素材失败了。可以稍后在“未完成的故事”里重试失败的部分。`);
+          }
+
+          const newStory = await storyForJob(finished);
+          await saveStoryToStorage(newStory);
+          setState(s => ({ ...s, currentStory: newStory, isLoading: false, generationProgress: [] }));
+      } catch (error) {
+          console.error(error);
+          alert("生成过程被打断了，已完成的部分都保存好了，可以稍后继续！");
+          refreshPendingJob({ ...latest, status: 'incomplete' });
+          setState(s => ({ ...s, isLoading: false, generationProgress: [] }));
+      }
   };
 
   const handleGenerate = async () => {
@@ -100,83 +260,109 @@ export default function App() {
 
     setState(s => ({ ...s, isLoading: true, loadingStep: '正在构思历史故事...' }));
 
+    let params: NewJobParams;
     try {
       // 1. Generate Text Structure
-      const structure = await generateStoryStructure(topicInput, state.selectedAspectRatio);
-      
-      // 1.5 Append Outro Scene
-      const outroScene = {
-          id: structure.scenes.length + 1,
-          narration: "如果故事讲的不错，能不能给个一键三连！如果你还想听其他的历史故事，请在评论区留言告诉我们！",
-          visual_prompt: "cute ending scene, theatrical curtain call, children waving goodbye, warm cozy lighting, detailed background, magical atmosphere"
-      };
-      structure.scenes.push(outroScene);
+      const structure = await generateStoryStructure(topicInput, state.selectedAspectRatio, state.selectedStyle);
 
-      setState(s => ({ ...s, loadingStep: `准备生成 ${structure.scenes.length} 个场景的素材...` }));
-      
-      // 2. Generate Assets
-      const scenesWithAssets: Scene[] = [];
-      
-      for (let i = 0; i < structure.scenes.length; i++) {
-        const scene = structure.scenes[i];
-        
-        setState(s => ({ ...s, loadingStep: `正在绘制历史场景 (${i + 1}/${structure.scenes.length})...` }));
-        // Generate Image with correct Aspect Ratio
-        let imageData;
-        try {
-            imageData = await generateSceneImage(scene.visual_prompt, state.selectedAspectRatio);
-        } catch (e) {
-            console.error("Scene image failed", e);
-        }
-        
-        setState(s => ({ ...s, loadingStep: `正在录制旁白 (${i + 1}/${structure.scenes.length})...` }));
-        // Generate Audio
-        let audioData;
-        try {
-            audioData = await generateVoiceover(scene.narration, state.selectedVoice);
-        } catch (e) {
-            console.error("Scene audio failed", e);
-        }
-
-        scenesWithAssets.push({
-          ...scene,
-          imageData,
-          audioData
-        });
+      // 1.2 Optional fact check; the story is still usable without it
+      let factCheck: FactCheck | undefined;
+      if (state.factCheckEnabled) {
+          setState(s => ({ ...s, loadingStep: '正在核查史实...' }));
+          try {
+              factCheck = await generateFactCheck(topicInput, structure);
+          } catch (e) {
+              console.warn("Fact check failed, continuing without it", e);
+          }
       }
 
-      // 3. Auto Generate Cover Image
-      setState(s => ({ ...s, loadingStep: '正在绘制精美封面...' }));
-      let finalCoverImage: string | undefined = undefined;
+      // 1.3 Comprehension quiz, also optional for the story to work
+      let quiz: QuizQuestion[] | undefined;
+      setState(s => ({ ...s, loadingStep: '正在准备小测验...' }));
       try {
-        // Generate only 1 image for speed
-        const [rawCover] = await generateCoverImage(structure.title, state.selectedAspectRatio, 1);
-        if (rawCover) {
-            // Composite title
-            finalCoverImage = await addTitleToCover(rawCover, structure.title, state.selectedAspectRatio);
-        }
+          quiz = await generateQuiz(topicInput, structure, state.selectedStyle);
       } catch (e) {
-          console.warn("Auto cover generation failed", e);
+          console.warn("Quiz generation failed, continuing without it", e);
       }
-
-      const newStory: Story = {
-        id: Date.now().toString(),
-        title: structure.title,
-        introduction: structure.introduction,
-        scenes: scenesWithAssets,
-        createdAt: Date.now(),
-        aspectRatio: state.selectedAspectRatio,
-        coverImage: finalCoverImage
+      
+      params = {
+          topic: topicInput,
+          voice: state.selectedVoice,
+          style: state.selectedStyle,
+          aspectRatio: state.selectedAspectRatio,
+          title: structure.title,
+          introduction: structure.introduction,
+          bible: structure.bible,
+          factCheck,
+          quiz,
+          scenes: structure.scenes
       };
+    } catch (error) {
+      console.error(error);
+      alert("生成故事时遇到了一点小问题，请重试！");
+      setState(s => ({ ...s, isLoading: false }));
+      return;
+    }
 
-      saveStoryToStorage(newStory);
-      setState(s => ({ ...s, currentStory: newStory, isLoading: false }));
+    // 1.8 Stories with dialogue stop here so each character can be given a voice
+    const speakers = speakingCharacters(params.scenes);
+    if (speakers.length > 0) {
+        setState(s => ({ ...s, loadingStep: '请为角色挑选配音...' }));
+        setCastingDraft({ params, speakers, cast: autoCast(speakers, params.voice) });
+        return;
+    }
+    await startJob(params);
+  };
 
+  const startJob = async (params: NewJobParams) => {
+    let job: GenerationJob;
+    try {
+      // 2. Persist the job before generating assets so it can be resumed
+      job = createGenerationJob(params);
+      await saveJob(job);
+      refreshPendingJob(job);
     } catch (error) {
       console.error(error);
       alert("生成故事时遇到了一点小问题，请重试！");
       setState(s => ({ ...s, isLoading: false }));
+      return;
     }
+
+    // 3. Generate images, narration and cover
+    await runJob(job);
+  };
+
+  const handleConfirmCasting = (cast: VoiceCast) => {
+      if (!castingDraft) return;
+      const { params } = castingDraft;
+      setCastingDraft(null);
+      startJob({ ...params, cast });
+  };
+
+  const handleCancelCasting = () => {
+      setCastingDraft(null);
+      setState(s => ({ ...s, isLoading: false }));
+  };
+
+  const handleResumeJob = (job: GenerationJob) => {
+      if (state.isLoading) return;
+      setState(s => ({ ...s, selectedAspectRatio: job.aspectRatio }));
+      runJob(job);
+  };
+
+  const handleOpenJob = async (job: GenerationJob) => {
+      const story = await storyForJob(job);
+      setState(s => ({ ...s, currentStory: story, selectedAspectRatio: job.aspectRatio }));
+  };
+
+  const handleDeleteJob = async (id: string, e: React.MouseEvent) => {
+      e.stopPropagation();
+      try {
+          await deleteJob(id);
+      } catch (err) {
+          console.warn("Failed to delete job", err);
+      }
+      setState(s => ({ ...s, pendingJobs: s.pendingJobs.filter(j => j.id !== id) }));
   };
 
   const handleGenerateCover = async () => {
@@ -185,17 +371,11 @@ export default function App() {
       setCoverImages([]);
       
       try {
-          // 1. Generate 4 base images
+          // Titles are added on download, so the template can still be changed
           const rawImages = await generateCoverImage(topicInput, state.selectedAspectRatio, 4);
-          
-          // 2. Composite title text onto all images
-          const processedPromises = rawImages.map(img => 
-              addTitleToCover(img, topicInput, state.selectedAspectRatio)
-          );
-          
-          const finalImages = await Promise.all(processedPromises);
-          
-          setCoverImages(finalImages);
+          setCoverImages(rawImages);
+          setSelectedCoverIndex(ownCoverImages.length);
+          setCoverTitle(topicInput.trim());
       } catch (e) {
           console.error("Cover generation failed", e);
           alert("封面生成失败，请重试");
@@ -204,25 +384,85 @@ export default function App() {
       }
   };
 
-  const downloadCover = (imageData: string, index: number) => {
-      const link = document.createElement('a');
-      link.href = `data:image/jpeg;base64,${imageData}`;
-      link.download = `cover-${topicInput}-${index + 1}.jpg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleCoverTemplateChange = (template: CoverTemplate) => {
+      setCoverTemplate(template);
+      saveCoverTemplate(template);
+  };
+
+  const coverBackgrounds = [...ownCoverImages, ...coverImages];
+
+  const handleCoverUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // allow picking the same file again
+      if (!file) return;
+      setCropSource({ src: URL.createObjectURL(file) });
   };
 
-  const playSavedStory = (story: Story) => {
-    setState(s => ({ ...s, currentStory: story, selectedAspectRatio: story.aspectRatio }));
+  const handlePickSceneImage = (imageData: string, story: Story) => {
+      setShowScenePicker(false);
+      setCropSource({ src: `data:image/png;base64,${imageData}`, title: story.title });
+  };
+
+  const closeCropper = () => {
+      if (cropSource?.src.startsWith('blob:')) URL.revokeObjectURL(cropSource.src);
+      setCropSource(null);
+  };
+
+  const handleCrop = async (crop: CropRect) => {
+      if (!cropSource) return;
+      try {
+          const cropped = await cropImage(cropSource.src, crop);
+          // Own pictures come first in the grid
+          setOwnCoverImages(images => [...images, cropped]);
+          setSelectedCoverIndex(ownCoverImages.length);
+          if (!coverTitle.trim()) setCoverTitle(cropSource.title || topicInput.trim());
+      } catch (e) {
+          console.error("Cover crop failed", e);
+          alert("图片裁剪失败，请换一张图片试试");
+      }
+      closeCropper();
+  };
+
+  const downloadCover = async (index: number) => {
+      if (downloadingCover !== null) return;
+      setDownloadingCover(index);
+      try {
+          const imageData = await addTitleToCover(coverBackgrounds[index], coverTitle, state.selectedAspectRatio, '1080p', undefined, coverTemplate);
+          const link = document.createElement('a');
+          link.href = `data:image/jpeg;base64,${imageData}`;
+          link.download = `cover-${coverTitle.split('\n')[0].trim() || topicInput || 'custom'}-${index + 1}.jpg`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+      } catch (e) {
+          console.error("Cover download failed", e);
+          alert("封面下载失败，请重试");
+      } finally {
+          setDownloadingCover(null);
+      }
+  };
+
+  const playSavedStory = async (summary: StorySummary) => {
+    try {
+        const story = await loadStory(summary.id);
+        if (!story) throw new Error("Story not found");
+        setState(s => ({ ...s, currentStory: story, selectedAspectRatio: story.aspectRatio }));
+    } catch (e) {
+        console.error("Failed to open story", e);
+        alert("故事打开失败，可能已被删除");
+        refreshLibrary();
+    }
   };
 
   // ---------------- RENDER ----------------
 
   if (state.currentStory) {
+    const openJob = state.pendingJobs.find(j => j.id === state.currentStory!.id);
     return (
       <StoryPlayer 
         story={state.currentStory} 
+        sceneStatus={openJob?.sceneStatus}
+        onStoryChange={handleStoryChange}
         onBack={() => setState(s => ({ ...s, currentStory: null, isImmersive: false }))}
         isImmersive={state.isImmersive}
         toggleImmersive={() => setState(s => ({ ...s, isImmersive: !s.isImmersive }))}
@@ -232,7 +472,64 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-sky-100 via-indigo-50 to-amber-100 p-4 sm:p-8 md:p-12 font-sans">
-      
+
+      {/* Cover workshop: own pictures */}
+      <AnimatePresence>
+        {showScenePicker && (
+            <SceneImagePicker
+                stories={state.savedStories}
+                onPick={handlePickSceneImage}
+                onClose={() => setShowScenePicker(false)}
+            />
+        )}
+        {cropSource && (
+            <CoverImageCropper
+                src={cropSource.src}
+                aspectRatio={state.selectedAspectRatio}
+                onCrop={handleCrop}
+                onClose={closeCropper}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Voice Casting Modal */}
+      <AnimatePresence>
+        {castingDraft && (
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+            >
+                <motion.div
+                    initial={{ scale: 0.9, y: 20 }}
+                    animate={{ scale: 1, y: 0 }}
+                    className="bg-slate-50 rounded-3xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+                >
+                    <div className="p-6 bg-white border-b border-slate-100">
+                        <h3 className="text-2xl font-bold text-slate-800">《{castingDraft.params.title}》的配音演员</h3>
+                        <p className="text-slate-500 text-sm mt-1">故事里有角色台词，给每个角色选一个声音吧</p>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-6">
+                        <VoiceCastingPanel
+                            characters={castingDraft.speakers}
+                            bible={castingDraft.params.bible}
+                            narratorVoice={castingDraft.params.voice}
+                            cast={castingDraft.cast}
+                            onChange={(cast) => setCastingDraft(d => d && { ...d, cast })}
+                        />
+                    </div>
+                    <div className="p-6 bg-white border-t border-slate-100 flex justify-between">
+                        <Button variant="ghost" onClick={handleCancelCasting}>取消</Button>
+                        <Button onClick={() => handleConfirmCasting(castingDraft.cast)}>
+                            开始生成 <Sparkles size={18} />
+                        </Button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+      </AnimatePresence>
+
       <div className="max-w-5xl mx-auto">
         <header className="flex items-center justify-between mb-8 md:mb-12">
           <div className="flex items-center gap-3">
@@ -242,6 +539,11 @@ export default function App() {
             <h1 className="text-3xl md:text-4xl font-black text-slate-800 tracking-tight">
               HistoryMagic <span className="text-amber-500">时光机</span>
             </h1>
+            {getProvider().name === 'mock' && (
+              <span className="text-xs font-bold px-2 py-1 rounded-full bg-slate-200 text-slate-500" title="使用离线模拟数据，不会调用 Gemini">
+                离线演示
+              </span>
+            )}
           </div>
           <div className="hidden md:block text-slate-500 font-medium">
             探索历史的奇妙旅程
@@ -300,7 +602,7 @@ export default function App() {
                         transition={{ duration: 0.3 }}
                     >
                         <h2 className="text-2xl font-bold text-slate-700 mb-4">制作视频封面</h2>
-                        <p className="text-slate-500 mb-6">为你的历史故事生成 4 张精美的封面图，自动为您配上标题。</p>
+                        <p className="text-slate-500 mb-6">为你的历史故事生成 4 张精美的封面图，或用故事里的画面、自己的插画，配上标题，边调版式边预览，满意再下载。</p>
                     </motion.div>
                 )}
                 
@@ -357,6 +659,29 @@ export default function App() {
                                 onSelect={(v) => setState(s => ({ ...s, selectedVoice: v }))} 
                             />
                         )}
+
+                        {mode === 'story' && (
+                            <StoryStyleSelector
+                                style={state.selectedStyle}
+                                onChange={(style) => setState(s => ({ ...s, selectedStyle: style }))}
+                            />
+                        )}
+
+                        {mode === 'story' && (
+                            <label className="flex items-center gap-3 cursor-pointer text-sm text-slate-600">
+                                <input
+                                    type="checkbox"
+                                    checked={state.factCheckEnabled}
+                                    onChange={(e) => setState(s => ({ ...s, factCheckEnabled: e.target.checked }))}
+                                    className="w-4 h-4 accent-indigo-500"
+                                />
+                                <ShieldCheck size={16} className="text-indigo-400" />
+                                <span>
+                                    <span className="font-bold">生成后核查史实</span>
+                                    <span className="text-slate-400 ml-2 text-xs">标出哪些是史实、哪些是传说，附上参考书目</span>
+                                </span>
+                            </label>
+                        )}
                         
                         {/* Aspect Ratio Selector (Shared) */}
                         <div className="flex flex-col gap-3">
@@ -391,15 +716,20 @@ export default function App() {
 
                     {/* Action Buttons */}
                     {mode === 'story' ? (
-                         <Button 
-                            onClick={handleGenerate} 
-                            loading={state.isLoading} 
-                            size="lg" 
-                            className="w-full shadow-amber-200/50 hover:shadow-amber-300/50"
-                        >
-                            {state.isLoading ? state.loadingStep : '开始生成动画故事'} 
-                            {!state.isLoading && <Sparkles size={20} />}
-                        </Button>
+                        <div className="space-y-4">
+                            <Button 
+                                onClick={handleGenerate} 
+                                loading={state.isLoading} 
+                                size="lg" 
+                                className="w-full shadow-amber-200/50 hover:shadow-amber-300/50"
+                            >
+                                {state.isLoading ? state.loadingStep : '开始生成动画故事'} 
+                                {!state.isLoading && <Sparkles size={20} />}
+                            </Button>
+                            {state.isLoading && (
+                                <GenerationProgress progress={state.generationProgress} />
+                            )}
+                        </div>
                     ) : (
                         <div className="space-y-4">
                             <Button 
@@ -411,39 +741,80 @@ export default function App() {
                                 {isCoverLoading ? '正在绘制封面...' : '一键生成 4 张精美封面'} 
                                 {!isCoverLoading && <ImageIcon size={20} />}
                             </Button>
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={() => coverUploadRef.current?.click()}
+                                    className="flex-1 py-3 rounded-2xl border-2 border-dashed border-slate-300 text-slate-500 font-bold text-sm hover:border-indigo-300 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2"
+                                >
+                                    <Upload size={18} /> 上传自己的图片
+                                </button>
+                                <button
+                                    onClick={() => setShowScenePicker(true)}
+                                    className="flex-1 py-3 rounded-2xl border-2 border-dashed border-slate-300 text-slate-500 font-bold text-sm hover:border-indigo-300 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2"
+                                >
+                                    <Images size={18} /> 从故事里选画面
+                                </button>
+                                <input
+                                    ref={coverUploadRef}
+                                    type="file"
+                                    accept="image/*"
+                                    onChange={handleCoverUpload}
+                                    className="hidden"
+                                />
+                            </div>
                             
-                            {/* Generated Cover Result Grid */}
+                            {/* Generated backgrounds; the chosen one is titled live below */}
                             <AnimatePresence>
-                                {coverImages.length > 0 && (
+                                {coverBackgrounds.length > 0 && (
                                     <motion.div 
                                         initial={{ opacity: 0, height: 0 }}
                                         animate={{ opacity: 1, height: 'auto' }}
-                                        className="grid grid-cols-2 gap-4 mt-4"
+                                        className="space-y-4 mt-4"
                                     >
-                                        {coverImages.map((img, idx) => (
-                                            <motion.div 
-                                                key={idx}
-                                                initial={{ opacity: 0, scale: 0.9 }}
-                                                animate={{ opacity: 1, scale: 1 }}
-                                                transition={{ delay: idx * 0.1 }}
-                                                className="rounded-xl overflow-hidden border-2 border-indigo-100 shadow-md bg-slate-900 relative group aspect-[9/16]"
-                                                style={{ aspectRatio: state.selectedAspectRatio === '16:9' ? '16/9' : '9/16' }}
-                                            >
-                                                <img 
-                                                    src={`data:image/jpeg;base64,${img}`} 
-                                                    className="w-full h-full object-cover"
-                                                    alt={`Generated Cover ${idx + 1}`}
-                                                />
-                                                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-sm">
+                                        <div className="grid grid-cols-4 gap-3">
+                                            {coverBackgrounds.map((img, idx) => (
+                                                <motion.div 
+                                                    key={idx}
+                                                    initial={{ opacity: 0, scale: 0.9 }}
+                                                    animate={{ opacity: 1, scale: 1 }}
+                                                    transition={{ delay: idx * 0.1 }}
+                                                    onClick={() => setSelectedCoverIndex(idx)}
+                                                    className={`rounded-xl overflow-hidden border-4 shadow-md bg-slate-900 relative group cursor-pointer transition-colors ${selectedCoverIndex === idx ? 'border-indigo-500' : 'border-transparent hover:border-indigo-200'}`}
+                                                    style={{ aspectRatio: state.selectedAspectRatio === '16:9' ? '16/9' : '9/16' }}
+                                                >
+                                                    <img 
+                                                        src={`data:image/jpeg;base64,${img}`} 
+                                                        className="w-full h-full object-cover"
+                                                        alt={`Generated Cover ${idx + 1}`}
+                                                    />
                                                     <button 
-                                                        onClick={() => downloadCover(img, idx)}
-                                                        className="bg-white text-indigo-600 px-4 py-2 rounded-full font-bold flex items-center gap-2 hover:scale-105 transition-transform shadow-xl text-sm"
+                                                        onClick={(e) => { e.stopPropagation(); downloadCover(idx); }}
+                                                        disabled={downloadingCover !== null}
+                                                        className="absolute bottom-1.5 right-1.5 bg-white/90 text-indigo-600 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow"
+                                                        title="套用当前样式下载"
                                                     >
-                                                        <Download size={16} /> 下载
+                                                        {downloadingCover === idx ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />}
                                                     </button>
-                                                </div>
-                                            </motion.div>
-                                        ))}
+                                                </motion.div>
+                                            ))}
+                                        </div>
+
+                                        <CoverDesigner
+                                            background={coverBackgrounds[selectedCoverIndex]}
+                                            title={coverTitle}
+                                            onTitleChange={setCoverTitle}
+                                            template={coverTemplate}
+                                            onTemplateChange={handleCoverTemplateChange}
+                                            aspectRatio={state.selectedAspectRatio}
+                                        />
+
+                                        <Button
+                                            onClick={() => downloadCover(selectedCoverIndex)}
+                                            loading={downloadingCover === selectedCoverIndex}
+                                            className="w-full"
+                                        >
+                                            <Download size={18} /> 下载这张封面 (1080p)
+                                        </Button>
                                     </motion.div>
                                 )}
                             </AnimatePresence>
@@ -458,11 +829,78 @@ export default function App() {
           {/* Sidebar: Saved Stories */}
           <div className="md:col-span-5">
             <div className="bg-white/60 p-6 rounded-[2rem] h-full min-h-[400px] border border-white shadow-lg">
-              <h3 className="text-xl font-bold text-slate-700 mb-6 flex items-center gap-2">
-                <BookOpen className="text-indigo-500" />
-                我的故事书
-              </h3>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-slate-700 flex items-center gap-2">
+                  <BookOpen className="text-indigo-500" />
+                  我的故事书
+                </h3>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isPackageBusy}
+                  className="text-xs font-bold px-3 py-1.5 rounded-full bg-white text-slate-500 hover:text-indigo-600 shadow-sm flex items-center gap-1 disabled:opacity-50"
+                  title={`导入 ${STORY_PACKAGE_EXTENSION} 故事包`}
+                >
+                  <Upload size={14} /> 导入
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={`${STORY_PACKAGE_EXTENSION},.zip`}
+                  onChange={handleImportPackage}
+                  className="hidden"
+                />
+              </div>
+
+              <LibraryStoragePanel
+                usage={storageUsage}
+                settings={librarySettings}
+                storyCount={state.savedStories.length}
+                onChange={handleLibrarySettingsChange}
+              />
               
+              {/* Unfinished generation jobs */}
+              {state.pendingJobs.length > 0 && (
+                <div className="mb-6 space-y-3">
+                  <div className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                    <AlertTriangle size={14} className="text-amber-500" /> 未完成的故事
+                  </div>
+                  {state.pendingJobs.map(job => {
+                    const { done, failed, total } = countFinishedAssets(job);
+                    return (
+                      <div key={job.id} className="group bg-amber-50 p-3 rounded-2xl border border-amber-100 relative">
+                        <h4 className="font-bold text-slate-700 text-sm line-clamp-1 pr-8">{job.title}</h4>
+                        <p className="text-xs text-slate-500 mt-1">
+                          已完成 {done}/{total}{failed > 0 && <span className="text-red-500">，失败 {failed}</span>}
+                        </p>
+                        <div className="flex gap-2 mt-2">
+                          <button
+                            onClick={() => handleResumeJob(job)}
+                            disabled={state.isLoading}
+                            className="text-xs font-bold px-3 py-1 rounded-full bg-amber-400 text-white hover:bg-amber-500 disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <RotateCcw size={12} /> {failed > 0 ? '重试失败部分' : '继续生成'}
+                          </button>
+                          <button
+                            onClick={() => handleOpenJob(job)}
+                            disabled={state.isLoading}
+                            className="text-xs font-bold px-3 py-1 rounded-full bg-white text-slate-600 hover:text-indigo-600 disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <Eye size={12} /> 先看看
+                          </button>
+                        </div>
+                        <button 
+                          onClick={(e) => handleDeleteJob(job.id, e)}
+                          className="absolute top-2 right-2 p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all opacity-0 group-hover:opacity-100"
+                          title="放弃"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <div className="space-y-4 overflow-y-auto max-h-[500px] pr-2">
                 {state.savedStories.length === 0 ? (
                   <div className="text-center py-12 text-slate-400 flex flex-col items-center gap-4">
@@ -485,11 +923,21 @@ export default function App() {
                               {story.aspectRatio === '9:16' ? '📱 竖屏' : '🖥️ 横屏'}
                           </span>
                           <p className="text-xs text-slate-400 truncate">
-                              {new Date(story.createdAt).toLocaleDateString()}
+                              {new Date(story.createdAt).toLocaleDateString()} · {formatBytes(story.sizeBytes)}
                           </p>
                         </div>
                       </div>
                       
+                      {/* Export Button - Top Right, next to delete */}
+                      <button 
+                        onClick={(e) => handleExportPackage(story, e)}
+                        disabled={isPackageBusy}
+                        className="absolute top-2 right-10 p-2 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-full transition-all opacity-0 group-hover:opacity-100 z-10 disabled:opacity-30"
+                        title={`导出为 ${STORY_PACKAGE_EXTENSION} 故事包`}
+                      >
+                        <PackageOpen size={16} />
+                      </button>
+
                       {/* Delete Button - Top Right */}
                       <button 
                         onClick={(e) => handleDeleteStory(story.id, e)}
@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, BrandKit, StingPlacement, WatermarkCorner } from '../types';
+import {
+  BUILTIN_BRAND_KIT, END_CARD_DURATION_RANGE, STING_PLACEMENTS, WATERMARK_CORNERS, WATERMARK_SIZE_RANGE,
+  BrandAssets, drawEndCard, drawSting, drawWatermark, loadBrandAssets, readLogoFile
+} from '../services/branding';
+import { STING_SEC } from '../services/storyTimeline';
+import { drawAsset } from '../services/frameDrawing';
+import { ImagePlus, Stamp, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+interface BrandKitEditorProps {
+  kit: BrandKit;
+  aspectRatio: AspectRatio;
+  /** Base64 scene picture the watermark preview is drawn over. */
+  backdrop?: string;
+  onSave: (kit: BrandKit) => void;
+  onClose: () => void;
+}
+
+type PreviewPart = 'watermark' | 'sting' | 'endCard';
+
+const PREVIEW_PARTS: Record<PreviewPart, { label: string }> = {
+  watermark: { label: '水印' },
+  sting: { label: '片头' },
+  endCard: { label: '片尾' },
+};
+
+const PREVIEW_WIDTH = 640;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+const fieldClass = 'px-3 py-2 rounded-xl text-sm border-2 border-slate-200 focus:border-indigo-400 outline-none';
+
+/** Edit a brand kit, previewing each part with the export's own drawing. */
+export const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ kit: initialKit, aspectRatio, backdrop, onSave, onClose }) => {
+  const [kit, setKit] = useState<BrandKit>(initialKit);
+  const [part, setPart] = useState<PreviewPart>(initialKit.endCard.enabled ? 'endCard' : 'watermark');
+  const [brand, setBrand] = useState<BrandAssets | null>(null);
+  const [backdropImage, setBackdropImage] = useState<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const logoInputRef = useRef<HTMLInputElement | null>(null);
+  const isVertical = aspectRatio === '9:16';
+
+  const update = (changes: Partial<BrandKit>) => setKit(k => ({ ...k, ...changes }));
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBrandAssets(kit).then(assets => { if (!cancelled) setBrand(assets); });
+    return () => { cancelled = true; };
+  }, [kit]);
+
+  useEffect(() => {
+    if (!backdrop) return;
+    const img = new Image();
+    img.onload = () => setBackdropImage(img);
+    img.src = `data:image/png;base64,${backdrop}`;
+  }, [backdrop]);
+
+  // The sting and end card loop while they're shown
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !brand) return;
+    const w = PREVIEW_WIDTH;
+    const h = isVertical ? Math.round(w * 16 / 9) : Math.round(w * 9 / 16);
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d')!;
+    const start = performance.now();
+    let frame = 0;
+
+    const tick = (now: number) => {
+      const elapsed = (now - start) / 1000;
+      ctx.fillStyle = '#1e293b';
+      ctx.fillRect(0, 0, w, h);
+      if (part === 'sting') {
+        drawSting(ctx, brand, w, h, elapsed % STING_SEC);
+      } else if (part === 'endCard') {
+        drawEndCard(ctx, brand, w, h, elapsed % brand.kit.endCard.duration);
+      } else {
+        if (backdropImage) drawAsset(ctx, backdropImage, w, h, 1);
+        drawWatermark(ctx, brand, w, h);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [brand, part, backdropImage, isVertical]);
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ logo: await readLogoFile(file) });
+      setPart('watermark');
+    } catch (err: any) {
+      console.warn("Logo upload failed", err);
+      alert(err?.message || "Logo 上传失败");
+    }
+  };
+
+  const handleSave = () => {
+    // Editing the built-in kit saves a copy; the built-in one stays as it is
+    const id = kit.id === BUILTIN_BRAND_KIT.id ? `brand-${Date.now()}` : kit.id;
+    const name = kit.name.trim() || kit.channelName.trim() || '我的品牌';
+    onSave({ ...kit, id, name });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><Stamp size={22} /> 品牌套件</h3>
+            <p className="text-slate-500 text-sm mt-1">频道 Logo 水印、片头和片尾，保存后每个故事导出时都能直接套用</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-wrap gap-6">
+          <div className="flex flex-col items-center gap-3">
+            <canvas
+              ref={canvasRef}
+              className={`rounded-xl bg-slate-800 shadow-inner ${isVertical ? 'h-[50vh]' : 'w-80'}`}
+            />
+            <div className="flex gap-2">
+              {(Object.keys(PREVIEW_PARTS) as PreviewPart[]).map(id => (
+                <button key={id} onClick={() => setPart(id)} className={chipClass(part === id)}>
+                  {PREVIEW_PARTS[id].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-[280px] space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 font-bold text-slate-500 text-xs">
+                套件名称
+                <input value={kit.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+              </label>
+              <label className="flex flex-col gap-1 font-bold text-slate-500 text-xs">
+                频道名
+                <input
+                  value={kit.channelName}
+                  onChange={(e) => update({ channelName: e.target.value })}
+                  placeholder="例如：历史魔法课"
+                  className={fieldClass}
+                />
+              </label>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <span className="font-bold text-slate-500 text-xs w-12">Logo</span>
+              {kit.logo && (
+                <img src={`data:image/png;base64,${kit.logo}`} alt="Logo" className="h-10 max-w-[80px] object-contain rounded bg-slate-100" />
+              )}
+              <button onClick={() => logoInputRef.current?.click()} className={`${chipClass(false)} flex items-center gap-1`}>
+                <ImagePlus size={12} /> {kit.logo ? '更换' : '上传 Logo'}
+              </button>
+              {kit.logo && (
+                <button onClick={() => update({ logo: undefined })} className="p-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50" title="移除 Logo">
+                  <Trash2 size={14} />
+                </button>
+              )}
+              <input ref={logoInputRef} type="file" accept="image/png,image/jpeg,image/webp" onChange={handleLogoFile} className="hidden" />
+              <span className="w-px h-5 bg-slate-200 mx-1" />
+              <label className="flex items-center gap-2 font-bold text-slate-500 text-xs">
+                主色
+                <input
+                  type="color"
+                  value={kit.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="w-8 h-8 rounded cursor-pointer border-0 bg-transparent"
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold text-slate-500 text-xs w-12">水印</span>
+                {(Object.keys(WATERMARK_CORNERS) as WatermarkCorner[]).map(corner => (
+                  <button
+                    key={corner}
+                    onClick={() => { update({ watermark: { ...kit.watermark, corner } }); setPart('watermark'); }}
+                    className={chipClass(kit.watermark.corner === corner)}
+                  >
+                    {WATERMARK_CORNERS[corner].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-3 text-xs pl-14">
+                <span className="font-bold text-slate-500 w-12">透明度</span>
+                <input
+                  type="range"
+                  min={0.2}
+                  max={1}
+                  step={0.05}
+                  value={kit.watermark.opacity}
+                  onChange={(e) => update({ watermark: { ...kit.watermark, opacity: Number(e.target.value) } })}
+                  className="flex-1 accent-indigo-500"
+                />
+                <span className="font-bold text-slate-600 w-10">{Math.round(kit.watermark.opacity * 100)}%</span>
+              </div>
+              <div className="flex items-center gap-3 text-xs pl-14">
+                <span className="font-bold text-slate-500 w-12">大小</span>
+                <input
+                  type="range"
+                  min={WATERMARK_SIZE_RANGE.min}
+                  max={WATERMARK_SIZE_RANGE.max}
+                  step={0.01}
+                  value={kit.watermark.size}
+                  onChange={(e) => update({ watermark: { ...kit.watermark, size: Number(e.target.value) } })}
+                  className="flex-1 accent-indigo-500"
+                />
+                <span className="font-bold text-slate-600 w-10">{Math.round(kit.watermark.size * 100)}%</span>
+              </div>
+              {!kit.logo && <p className="text-xs text-slate-400 pl-14">上传 Logo 后才会加水印</p>}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-bold text-slate-500 text-xs w-12">片头</span>
+              {(Object.keys(STING_PLACEMENTS) as StingPlacement[]).map(sting => (
+                <button
+                  key={sting}
+                  onClick={() => { update({ sting }); if (sting !== 'off') setPart('sting'); }}
+                  className={chipClass(kit.sting === sting)}
+                >
+                  {STING_PLACEMENTS[sting].label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 font-bold text-slate-500 text-xs cursor-pointer">
+                <span className="w-12">片尾</span>
+                <input
+                  type="checkbox"
+                  checked={kit.endCard.enabled}
+                  onChange={(e) => { update({ endCard: { ...kit.endCard, enabled: e.target.checked } }); setPart(e.target.checked ? 'endCard' : 'watermark'); }}
+                  className="accent-indigo-500"
+                />
+                在故事结束后加关注提示
+              </label>
+              {kit.endCard.enabled && (
+                <div className="pl-14 space-y-2">
+                  <textarea
+                    value={kit.endCard.followPrompt}
+                    onChange={(e) => update({ endCard: { ...kit.endCard, followPrompt: e.target.value } })}
+                    onFocus={() => setPart('endCard')}
+                    rows={2}
+                    className={`${fieldClass} w-full resize-none`}
+                  />
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="font-bold text-slate-500 w-12">时长</span>
+                    <input
+                      type="range"
+                      min={END_CARD_DURATION_RANGE.min}
+                      max={END_CARD_DURATION_RANGE.max}
+                      step={0.5}
+                      value={kit.endCard.duration}
+                      onChange={(e) => update({ endCard: { ...kit.endCard, duration: Number(e.target.value) } })}
+                      className="flex-1 accent-indigo-500"
+                    />
+                    <span className="font-bold text-slate-600 w-10">{kit.endCard.duration} 秒</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <Button variant="ghost" onClick={onClose}>取消</Button>
+          <Button onClick={handleSave}>{initialKit.id === BUILTIN_BRAND_KIT.id ? '另存为新套件' : '保存'}</Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { AspectRatio, BrandKit } from '../types';
+import { BUILTIN_BRAND_KIT, BrandKitSettings, selectedBrandKit } from '../services/branding';
+import { BrandKitEditor } from './BrandKitEditor';
+import { Pencil, Plus, Stamp, X } from 'lucide-react';
+
+interface BrandKitPickerProps {
+  settings: BrandKitSettings;
+  onChange: (settings: BrandKitSettings) => void;
+  aspectRatio: AspectRatio;
+  /** Base64 scene picture for the watermark preview. */
+  backdrop?: string;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+export const BrandKitPicker: React.FC<BrandKitPickerProps> = ({ settings, onChange, aspectRatio, backdrop }) => {
+  const [editing, setEditing] = useState<BrandKit | null>(null);
+  const { saved, lastId } = settings;
+  const selected = selectedBrandKit(settings);
+
+  const handleSave = (kit: BrandKit) => {
+    const exists = saved.some(k => k.id === kit.id);
+    onChange({ saved: exists ? saved.map(k => k.id === kit.id ? kit : k) : [...saved, kit], lastId: kit.id });
+    setEditing(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({ saved: saved.filter(k => k.id !== id), lastId: lastId === id ? null : lastId });
+  };
+
+  const handleNew = () => setEditing({ ...BUILTIN_BRAND_KIT, id: `brand-${Date.now()}`, name: '' });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-bold text-slate-500 flex items-center gap-1 mr-1">
+        <Stamp size={16} /> 品牌
+      </span>
+      <button onClick={() => onChange({ ...settings, lastId: null })} className={chipClass(!selected)}>
+        不加品牌
+      </button>
+      {[BUILTIN_BRAND_KIT, ...saved].map(kit => {
+        const isSaved = kit.id !== BUILTIN_BRAND_KIT.id;
+        return (
+          <span key={kit.id} className="relative">
+            <button
+              onClick={() => onChange({ ...settings, lastId: kit.id })}
+              title={kit.channelName || undefined}
+              className={`${chipClass(selected?.id === kit.id)} ${isSaved ? 'pr-6' : ''}`}
+            >
+              {kit.name}
+            </button>
+            {isSaved && (
+              <button
+                onClick={() => handleDelete(kit.id)}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50"
+                title="删除套件"
+              >
+                <X size={10} />
+              </button>
+            )}
+          </span>
+        );
+      })}
+      {selected && (
+        <button
+          onClick={() => setEditing(selected)}
+          className="px-3 py-1.5 rounded-full text-xs font-bold border-2 border-slate-200 text-slate-500 hover:border-indigo-200 hover:text-indigo-600 flex items-center gap-1"
+        >
+          <Pencil size={12} /> 编辑
+        </button>
+      )}
+      <button
+        onClick={handleNew}
+        className="px-3 py-1.5 rounded-full text-xs font-bold border-2 border-slate-200 text-slate-500 hover:border-indigo-200 hover:text-indigo-600 flex items-center gap-1"
+      >
+        <Plus size={12} /> 新建
+      </button>
+
+      <AnimatePresence>
+        {editing && (
+          <BrandKitEditor
+            kit={editing}
+            aspectRatio={aspectRatio}
+            backdrop={backdrop}
+            onSave={handleSave}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, CameraFraming, CameraMotion, CameraMove, Scene } from '../types';
+import { CAMERA_MOVES, cameraPath, clampFraming, framingAt, framingTransform } from '../services/cameraMotion';
+import { narrationSeconds, sceneDuration } from '../services/storyTimeline';
+import { Crosshair, Move, Pause, Play, X } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+interface CameraMotionEditorProps {
+  scene: Scene;
+  index: number;
+  aspectRatio: AspectRatio;
+  /** undefined goes back to the automatic move. */
+  onSave: (camera: CameraMotion | undefined) => void;
+  onClose: () => void;
+}
+
+type FramingEnd = 'start' | 'end';
+
+interface Drag {
+  end: FramingEnd;
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  origin: CameraFraming;
+}
+
+const FRAMING_STYLE: Record<FramingEnd, { label: string; className: string }> = {
+  start: { label: '起', className: 'border-emerald-400 bg-emerald-400/10' },
+  end: { label: '止', className: 'border-rose-400 bg-rose-400/10' },
+};
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+/** Pick a camera move, or drag the start and end framings on the picture. */
+export const CameraMotionEditor: React.FC<CameraMotionEditorProps> = ({ scene, index, aspectRatio, onSave, onClose }) => {
+  const [camera, setCamera] = useState<CameraMotion>(scene.camera || { move: 'auto' });
+  const [previewProgress, setPreviewProgress] = useState<number | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+
+  const isVideo = !!scene.videoUrl;
+  const path = cameraPath({ ...scene, camera }, index, isVideo);
+  const duration = sceneDuration(narrationSeconds(scene));
+  const isVertical = aspectRatio === '9:16';
+  const isPreviewing = previewProgress !== null;
+
+  // Play the move at the speed the scene will run at
+  useEffect(() => {
+    if (!isPreviewing) return;
+    const start = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      const progress = (now - start) / (duration * 1000);
+      if (progress >= 1) {
+        setPreviewProgress(null);
+        return;
+      }
+      setPreviewProgress(progress);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPreviewing]);
+
+  /** Pointer position as fractions of the picture. */
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (e: React.PointerEvent, end: FramingEnd, mode: Drag['mode']) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    const { x, y } = pointerAt(e);
+    setDrag({ end, mode, pointerX: x, pointerY: y, origin: path[end] });
+    // Dragging turns whatever move was picked into the equivalent custom one
+    if (camera.move !== 'custom') setCamera({ move: 'custom', start: path.start, end: path.end });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = pointerAt(e);
+    const dx = x - drag.pointerX;
+    const dy = y - drag.pointerY;
+    const { origin } = drag;
+    // Framings keep the frame's shape, so a resize follows the larger of the two movements
+    const framing = drag.mode === 'move'
+      ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+      : { ...origin, size: origin.size + (Math.abs(dx) > Math.abs(dy) ? dx : dy) };
+    setCamera(c => ({ ...c, move: 'custom', [drag.end]: clampFraming(framing) }));
+  };
+
+  const handleStageClick = (e: React.PointerEvent) => {
+    if (camera.move === 'focus') setCamera({ ...camera, focus: pointerAt(e) });
+  };
+
+  const framingBox = (end: FramingEnd) => {
+    const { x, y, size } = path[end];
+    return (
+      <div
+        key={end}
+        onPointerDown={(e) => startDrag(e, end, 'move')}
+        // While a focal point is being picked, clicks go through to the picture
+        className={`absolute border-2 border-dashed rounded-sm cursor-move ${FRAMING_STYLE[end].className} ${camera.move === 'focus' ? 'pointer-events-none' : ''}`}
+        style={{ left: `${x * 100}%`, top: `${y * 100}%`, width: `${size * 100}%`, height: `${size * 100}%` }}
+      >
+        <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-xs font-bold">{FRAMING_STYLE[end].label}</span>
+        <span
+          onPointerDown={(e) => startDrag(e, end, 'resize')}
+          className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-white border-2 border-slate-700 cursor-nwse-resize"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><Move size={22} /> 镜头运动 · 场景 {index + 1}</h3>
+            <p className="text-slate-500 text-sm mt-1">选一种运镜，或直接拖动画面上的“起”“止”取景框</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CAMERA_MOVES) as CameraMove[]).map(move => (
+              <button
+                key={move}
+                onClick={() => setCamera(move === 'custom' ? { move, start: path.start, end: path.end } : { ...camera, move })}
+                className={chipClass(camera.move === move)}
+              >
+                {CAMERA_MOVES[move].label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-center">
+            <div
+              ref={stageRef}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDrag(null)}
+              onPointerDown={handleStageClick}
+              className={`relative bg-slate-900 rounded-xl overflow-hidden select-none touch-none ${isVertical ? 'h-[50vh] aspect-[9/16]' : 'w-full aspect-video'} ${camera.move === 'focus' ? 'cursor-crosshair' : ''}`}
+            >
+              {scene.imageData && (
+                <img
+                  src={`data:image/png;base64,${scene.imageData}`}
+                  alt={`Scene ${index + 1}`}
+                  draggable={false}
+                  className="w-full h-full object-cover"
+                  style={isPreviewing ? { transform: framingTransform(framingAt(path, previewProgress!)), transformOrigin: '0 0' } : undefined}
+                />
+              )}
+              {!isPreviewing && (
+                <>
+                  {framingBox('start')}
+                  {framingBox('end')}
+                  {camera.move === 'focus' && (
+                    <Crosshair
+                      size={28}
+                      className="absolute text-white drop-shadow -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                      style={{ left: `${(camera.focus?.x ?? 0.5) * 100}%`, top: `${(camera.focus?.y ?? 0.5) * 100}%` }}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            {camera.move === 'focus'
+              ? '点画面选择镜头推近的位置'
+              : isVideo && camera.move === 'auto'
+                ? '这一幕是 Veo 动态视频，自动模式下保持完整画面'
+                : `镜头在 ${duration.toFixed(1)} 秒内从“起”移到“止”，播放器和导出的视频一致`}
+          </p>
+        </div>
+
+        <div className="p-6 pt-0 flex justify-between gap-3">
+          <Button variant="ghost" onClick={() => setPreviewProgress(isPreviewing ? null : 0)}>
+            {isPreviewing ? <Pause size={18} /> : <Play size={18} />} {isPreviewing ? '停止预览' : '预览运镜'}
+          </Button>
+          <div className="flex gap-3">
+            <Button variant="ghost" onClick={onClose}>取消</Button>
+            <Button onClick={() => onSave(camera.move === 'auto' ? undefined : camera)}>保存</Button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
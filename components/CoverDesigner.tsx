@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, CoverAlign, CoverColorScheme, CoverFont, CoverLayout, CoverTemplate } from '../types';
+import {
+  COVER_ALIGNS, COVER_COLOR_SCHEMES, COVER_FONTS, COVER_LAYOUTS, COVER_SIZE_RANGE, COVER_VERTICALS,
+  DEFAULT_COVER_TEMPLATE, drawCover, loadCoverFont, titleLines
+} from '../services/coverTemplates';
+import { videoSize } from '../services/storyTimeline';
+import { RotateCcw } from 'lucide-react';
+
+interface CoverDesignerProps {
+  /** Base64 picture the title goes on. */
+  background: string;
+  title: string;
+  onTitleChange: (title: string) => void;
+  template: CoverTemplate;
+  onTemplateChange: (template: CoverTemplate) => void;
+  aspectRatio: AspectRatio;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+const fieldClass = 'w-full px-3 py-2 rounded-xl text-sm border-2 border-slate-200 focus:border-indigo-400 outline-none';
+
+/** Live preview of the cover with the template's controls; drawn by the same code as the download. */
+export const CoverDesigner: React.FC<CoverDesignerProps> = ({ background, title, onTitleChange, template, onTemplateChange, aspectRatio }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const isVertical = aspectRatio === '9:16';
+  const lines = titleLines(title);
+
+  const update = (changes: Partial<CoverTemplate>) => onTemplateChange({ ...template, ...changes });
+
+  const setLineSize = (index: number, size: number) => {
+    const lineSizes = lines.map((_, i) => template.lineSizes[i] ?? 1);
+    lineSizes[index] = size;
+    update({ lineSizes });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => { if (!cancelled) setImage(img); };
+    img.src = `data:image/jpeg;base64,${background}`;
+    return () => { cancelled = true; };
+  }, [background]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    let cancelled = false;
+    // 720p is plenty on screen; the layout scales, so it matches the 1080p download
+    const { width, height } = videoSize(aspectRatio, '720p');
+    loadCoverFont(template, title + template.subtitle + template.badge).then(() => {
+      if (cancelled) return;
+      canvas.width = width;
+      canvas.height = height;
+      drawCover(canvas.getContext('2d')!, image, title, template, width, height);
+    });
+    return () => { cancelled = true; };
+  }, [image, title, template, aspectRatio]);
+
+  return (
+    <div className="flex flex-wrap gap-5 bg-white rounded-2xl border-2 border-indigo-100 p-4">
+      <canvas
+        ref={canvasRef}
+        className={`rounded-xl bg-slate-900 shadow-md ${isVertical ? 'h-[420px]' : 'w-full'}`}
+      />
+
+      <div className="flex-1 min-w-[260px] space-y-3 text-xs">
+        <label className="block space-y-1 font-bold text-slate-500">
+          <span>标题（回车换行，每行可单独调字号）</span>
+          <textarea value={title} onChange={(e) => onTitleChange(e.target.value)} rows={2} className={`${fieldClass} resize-none`} />
+        </label>
+        {lines.length > 0 && template.layout !== 'stamp' && lines.map((line, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <span className="font-bold text-slate-500 w-20 truncate" title={line}>{line}</span>
+            <input
+              type="range"
+              min={COVER_SIZE_RANGE.min}
+              max={COVER_SIZE_RANGE.max}
+              step={0.05}
+              value={template.lineSizes[i] ?? 1}
+              onChange={(e) => setLineSize(i, Number(e.target.value))}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="font-bold text-slate-600 w-10">{Math.round((template.lineSizes[i] ?? 1) * 100)}%</span>
+          </div>
+        ))}
+        {template.layout === 'stamp' && (
+          <div className="flex items-center gap-3">
+            <span className="font-bold text-slate-500 w-20">印章大小</span>
+            <input
+              type="range"
+              min={COVER_SIZE_RANGE.min}
+              max={COVER_SIZE_RANGE.max}
+              step={0.05}
+              value={template.lineSizes[0] ?? 1}
+              onChange={(e) => setLineSize(0, Number(e.target.value))}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="font-bold text-slate-600 w-10">{Math.round((template.lineSizes[0] ?? 1) * 100)}%</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1 font-bold text-slate-500">
+            <span>副标题 / 集数</span>
+            <input value={template.subtitle} onChange={(e) => update({ subtitle: e.target.value })} placeholder="例如：第 3 集" className={fieldClass} />
+          </label>
+          <label className="space-y-1 font-bold text-slate-500">
+            <span>系列角标</span>
+            <input value={template.badge} onChange={(e) => update({ badge: e.target.value })} placeholder="例如：成语故事" className={fieldClass} />
+          </label>
+        </div>
+        {template.subtitle.trim() && (
+          <div className="flex items-center gap-3">
+            <span className="font-bold text-slate-500 w-20">副标题字号</span>
+            <input
+              type="range"
+              min={COVER_SIZE_RANGE.min}
+              max={COVER_SIZE_RANGE.max}
+              step={0.05}
+              value={template.subtitleSize}
+              onChange={(e) => update({ subtitleSize: Number(e.target.value) })}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="font-bold text-slate-600 w-10">{Math.round(template.subtitleSize * 100)}%</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold text-slate-500 w-10">版式</span>
+          {(Object.keys(COVER_LAYOUTS) as CoverLayout[]).map(id => (
+            <button key={id} onClick={() => update({ layout: id })} title={COVER_LAYOUTS[id].description} className={chipClass(template.layout === id)}>
+              {COVER_LAYOUTS[id].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold text-slate-500 w-10">字体</span>
+          {(Object.keys(COVER_FONTS) as CoverFont[]).map(id => (
+            <button
+              key={id}
+              onClick={() => update({ font: id })}
+              style={{ fontFamily: COVER_FONTS[id].css }}
+              className={chipClass(template.font === id)}
+            >
+              {COVER_FONTS[id].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold text-slate-500 w-10">配色</span>
+          {(Object.keys(COVER_COLOR_SCHEMES) as CoverColorScheme[]).map(id => {
+            const colors = COVER_COLOR_SCHEMES[id];
+            return (
+              <button key={id} onClick={() => update({ colors: id })} className={`${chipClass(template.colors === id)} flex items-center gap-1.5`}>
+                <span
+                  className="w-3 h-3 rounded-full border border-slate-300"
+                  style={{ background: `linear-gradient(${colors.fill.length > 1 ? colors.fill.join(', ') : `${colors.fill[0]}, ${colors.fill[0]}`})` }}
+                />
+                {colors.label}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold text-slate-500 w-10">位置</span>
+          {(Object.keys(COVER_VERTICALS) as CoverTemplate['vertical'][]).map(id => (
+            <button key={id} onClick={() => update({ vertical: id })} className={chipClass(template.vertical === id)}>
+              {COVER_VERTICALS[id].label}
+            </button>
+          ))}
+          <span className="w-px h-5 bg-slate-200 mx-1" />
+          {(Object.keys(COVER_ALIGNS) as CoverAlign[]).map(id => (
+            <button key={id} onClick={() => update({ align: id })} className={chipClass(template.align === id)}>
+              {COVER_ALIGNS[id].label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onTemplateChange(DEFAULT_COVER_TEMPLATE)}
+          className="text-slate-400 hover:text-indigo-600 font-bold flex items-center gap-1"
+        >
+          <RotateCcw size={12} /> 恢复默认样式
+        </button>
+      </div>
+    </div>
+  );
+};
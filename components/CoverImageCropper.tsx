@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { CropRect } from '../services/imageProcessor';
+import { Crop, X } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+interface CoverImageCropperProps {
+  /** Any URL the browser can load: a data URL or an object URL for an upload. */
+  src: string;
+  aspectRatio: AspectRatio;
+  onCrop: (crop: CropRect) => void;
+  onClose: () => void;
+}
+
+interface Drag {
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  origin: CropRect;
+}
+
+// Smallest crop, as a fraction of the image width or height
+const MIN_CROP = 0.1;
+
+/** Drag and resize a frame of the cover's shape over the picture. */
+export const CoverImageCropper: React.FC<CoverImageCropperProps> = ({ src, aspectRatio, onCrop, onClose }) => {
+  const [imageRatio, setImageRatio] = useState<number | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const targetRatio = aspectRatio === '9:16' ? 9 / 16 : 16 / 9;
+
+  // Crop height for a width, both as fractions of the image, keeping the cover's shape
+  const heightFor = (width: number) => width * imageRatio! / targetRatio;
+
+  /** The largest crop of `width` that fits, clamped and kept inside the image. */
+  const fitCrop = (x: number, y: number, width: number): CropRect => {
+    const maxWidth = Math.min(1, targetRatio / imageRatio!);
+    const w = Math.max(Math.min(MIN_CROP, maxWidth), Math.min(maxWidth, width));
+    const h = heightFor(w);
+    return { x: Math.max(0, Math.min(1 - w, x)), y: Math.max(0, Math.min(1 - h, y)), width: w, height: h };
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => { if (!cancelled) setImageRatio(img.width / img.height); };
+    img.onerror = () => {
+      if (cancelled) return;
+      alert("这张图片打不开，请换一张 PNG 或 JPG");
+      onClose();
+    };
+    img.src = src;
+    return () => { cancelled = true; };
+  }, [src]);
+
+  // Start with the biggest centred crop
+  useEffect(() => {
+    if (imageRatio === null) return;
+    const width = Math.min(1, targetRatio / imageRatio);
+    setCrop(fitCrop((1 - width) / 2, (1 - heightFor(width)) / 2, width));
+  }, [imageRatio, targetRatio]);
+
+  /** Pointer position as fractions of the picture. */
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: Drag['mode']) => {
+    if (!crop) return;
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    const { x, y } = pointerAt(e);
+    setDrag({ mode, pointerX: x, pointerY: y, origin: crop });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = pointerAt(e);
+    const { origin } = drag;
+    if (drag.mode === 'move') {
+      setCrop(fitCrop(origin.x + x - drag.pointerX, origin.y + y - drag.pointerY, origin.width));
+    } else {
+      // Grow from the top-left corner, but never past the picture's right or bottom edge
+      const width = Math.min(origin.width + x - drag.pointerX, 1 - origin.x, (1 - origin.y) * targetRatio / imageRatio!);
+      setCrop(fitCrop(origin.x, origin.y, width));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><Crop size={22} /> 裁剪封面</h3>
+            <p className="text-slate-500 text-sm mt-1">拖动取景框选择画面，拖右下角调整大小，比例固定为 {aspectRatio}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex justify-center">
+          <div
+            ref={stageRef}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDrag(null)}
+            className="relative inline-block overflow-hidden rounded-xl select-none touch-none bg-slate-900"
+          >
+            <img src={src} alt="Cover source" draggable={false} className="block max-h-[60vh] max-w-full" />
+            {crop && (
+              <div
+                onPointerDown={(e) => startDrag(e, 'move')}
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0,0,0,0.55)',
+                }}
+              >
+                {/* Rule-of-thirds guides */}
+                <div className="absolute inset-y-0 left-1/3 right-1/3 border-x border-white/40 pointer-events-none" />
+                <div className="absolute inset-x-0 top-1/3 bottom-1/3 border-y border-white/40 pointer-events-none" />
+                <span
+                  onPointerDown={(e) => startDrag(e, 'resize')}
+                  className="absolute -right-2 -bottom-2 w-4 h-4 rounded-sm bg-white border-2 border-slate-700 cursor-nwse-resize"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <Button variant="ghost" onClick={onClose}>取消</Button>
+          <Button onClick={() => crop && onCrop(crop)} disabled={!crop}>用这块画面</Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { ExportFrameRate, ExportProfile, ExportResolution } from '../types';
+import {
+  BUILTIN_EXPORT_PROFILES, EXPORT_FRAME_RATES, EXPORT_RESOLUTIONS, ExportProfileSettings, bitrateRange, estimateFileSize, qualityLabel, withBitrateInRange
+} from '../services/exportProfiles';
+import { formatBytes } from '../services/storyLibrary';
+import { MonitorPlay, Save, X } from 'lucide-react';
+
+interface ExportProfilePickerProps {
+  /** The chosen profile is `settings.last`. */
+  settings: ExportProfileSettings;
+  onChange: (settings: ExportProfileSettings) => void;
+  /** Length of the video to be exported, for the size estimate. */
+  durationSec: number;
+}
+
+const CUSTOM_ID = 'custom';
+
+const sameSettings = (a: ExportProfile, b: ExportProfile) =>
+  a.resolution === b.resolution && a.fps === b.fps && a.videoBitrate === b.videoBitrate;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+const formatDuration = (sec: number) => {
+  const whole = Math.round(sec);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const ExportProfilePicker: React.FC<ExportProfilePickerProps> = ({ settings, onChange, durationSec }) => {
+  const [newName, setNewName] = useState('');
+  const { saved, last: profile } = settings;
+  const range = bitrateRange(profile.resolution, profile.fps);
+
+  const select = (next: ExportProfile) => onChange({ ...settings, last: next });
+
+  // Any manual change turns the selection into an unsaved custom profile
+  const update = (changes: Partial<ExportProfile>) =>
+    select(withBitrateInRange({ ...profile, ...changes, id: CUSTOM_ID, name: '自定义' }));
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const created: ExportProfile = { ...profile, id: `profile-${Date.now()}`, name };
+    onChange({ saved: [...saved, created], last: created });
+    setNewName('');
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({
+      saved: saved.filter(p => p.id !== id),
+      last: profile.id === id ? { ...profile, id: CUSTOM_ID, name: '自定义' } : profile,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-bold text-slate-500 flex items-center gap-1 mr-1">
+          <MonitorPlay size={16} /> 画质
+        </span>
+        {[...BUILTIN_EXPORT_PROFILES, ...saved].map(p => {
+          const isSaved = saved.includes(p);
+          return (
+            <span key={p.id} className="relative">
+              <button
+                onClick={() => select(p)}
+                title={`${EXPORT_RESOLUTIONS[p.resolution].label} · ${p.fps}fps · ${(p.videoBitrate / 1e6).toFixed(1)} Mbps`}
+                className={`${chipClass(profile.id === p.id && sameSettings(profile, p))} ${isSaved ? 'pr-6' : ''}`}
+              >
+                {p.name}
+              </button>
+              {isSaved && (
+                <button
+                  onClick={() => handleDelete(p.id)}
+                  className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50"
+                  title="删除预设"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pl-1">
+        {(Object.keys(EXPORT_RESOLUTIONS) as ExportResolution[]).map(id => (
+          <button key={id} onClick={() => update({ resolution: id })} className={chipClass(profile.resolution === id)}>
+            {EXPORT_RESOLUTIONS[id].label}
+          </button>
+        ))}
+        <span className="w-px h-5 bg-slate-200 mx-1" />
+        {EXPORT_FRAME_RATES.map(fps => (
+          <button key={fps} onClick={() => update({ fps: fps as ExportFrameRate })} className={chipClass(profile.fps === fps)}>
+            {fps} fps
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 pl-1 text-xs">
+        <span className="font-bold text-slate-500 w-16">码率</span>
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={500000}
+          value={profile.videoBitrate}
+          onChange={(e) => update({ videoBitrate: Number(e.target.value) })}
+          className="flex-1 min-w-[140px] accent-indigo-500"
+        />
+        <span className="font-bold text-slate-600 w-28">
+          {(profile.videoBitrate / 1e6).toFixed(1)} Mbps · {qualityLabel(profile)}
+        </span>
+        <span className="text-slate-400">
+          预计 {formatBytes(estimateFileSize(profile, durationSec))}（时长约 {formatDuration(durationSec)}）
+        </span>
+      </div>
+
+      {profile.id === CUSTOM_ID && (
+        <div className="flex items-center gap-2 pl-1">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="给这组设置起个名字"
+            className="px-3 py-1.5 rounded-full text-xs border-2 border-slate-200 focus:border-indigo-400 outline-none"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 rounded-full text-xs font-bold border-2 border-slate-200 text-slate-500 hover:border-indigo-200 hover:text-indigo-600 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Save size={12} /> 保存预设
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
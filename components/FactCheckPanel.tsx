@@ -0,0 +1,137 @@
+import React from 'react';
+import { ClaimKind, Story } from '../types';
+import { BookMarked, GraduationCap, Library, Loader2, ShieldCheck, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface FactCheckPanelProps {
+  story: Story;
+  currentIndex: number;
+  onSelectScene: (index: number) => void;
+  /** Runs the check for stories that don't have one yet; omitted when the story can't be changed. */
+  onRunCheck?: () => void;
+  isChecking: boolean;
+  onClose: () => void;
+}
+
+export const CLAIM_KIND_META: Record<ClaimKind, { label: string; className: string }> = {
+  fact: { label: '史实', className: 'bg-emerald-100 text-emerald-700' },
+  legend: { label: '传说', className: 'bg-purple-100 text-purple-700' },
+  embellishment: { label: '演绎', className: 'bg-amber-100 text-amber-700' },
+};
+
+export const FactCheckPanel: React.FC<FactCheckPanelProps> = ({ story, currentIndex, onSelectScene, onRunCheck, isChecking, onClose }) => {
+  const factCheck = story.factCheck;
+
+  return (
+    <motion.div
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+      className="fixed top-0 right-0 bottom-0 w-full max-w-md z-[90] bg-white text-slate-800 shadow-2xl flex flex-col"
+    >
+      <div className="p-5 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <ShieldCheck className="text-emerald-500" /> 史实小贴士
+        </h3>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+          <X size={20} className="text-slate-500" />
+        </button>
+      </div>
+
+      {!factCheck ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8 text-center text-slate-500">
+          <BookMarked size={40} className="text-slate-300" />
+          <p>这个故事还没有核查过史实。</p>
+          {onRunCheck && (
+            <button
+              onClick={onRunCheck}
+              disabled={isChecking}
+              className="px-5 py-2 rounded-full bg-emerald-500 text-white font-bold flex items-center gap-2 hover:bg-emerald-600 disabled:opacity-60"
+            >
+              {isChecking ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />}
+              {isChecking ? '正在核查...' : '现在核查'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <p className="text-sm leading-relaxed bg-slate-50 rounded-xl p-3 border border-slate-100">{factCheck.summary}</p>
+
+          <div className="flex gap-2 text-xs">
+            {(Object.keys(CLAIM_KIND_META) as ClaimKind[]).map(kind => (
+              <span key={kind} className={`px-2 py-0.5 rounded-full font-bold ${CLAIM_KIND_META[kind].className}`}>
+                {CLAIM_KIND_META[kind].label} {factCheck.claims.filter(c => c.kind === kind).length}
+              </span>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {story.scenes.map((scene, index) => {
+              const claims = factCheck.claims.filter(c => c.sceneId === scene.id);
+              if (claims.length === 0) return null;
+              return (
+                <div
+                  key={scene.id}
+                  onClick={() => onSelectScene(index)}
+                  className={`rounded-xl p-3 border-2 cursor-pointer transition-colors ${index === currentIndex ? 'border-emerald-400 bg-emerald-50/50' : 'border-slate-100 hover:border-slate-200'}`}
+                >
+                  <div className="text-xs font-bold text-slate-400 mb-2">场景 {index + 1}</div>
+                  {claims.map((claim, i) => (
+                    <div key={i} className="mb-2 last:mb-0">
+                      <div className="flex items-start gap-2 text-sm font-medium">
+                        <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-bold ${CLAIM_KIND_META[claim.kind].className}`}>
+                          {CLAIM_KIND_META[claim.kind].label}
+                        </span>
+                        {claim.claim}
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1 pl-1">{claim.explanation}</div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          {factCheck.teacherNotes.length > 0 && (
+            <div>
+              <h4 className="font-bold text-sm flex items-center gap-2 mb-2 text-slate-600">
+                <GraduationCap size={16} /> 给家长和老师
+              </h4>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-slate-600">
+                {factCheck.teacherNotes.map((note, i) => <li key={i}>{note}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {factCheck.references.length > 0 && (
+            <div>
+              <h4 className="font-bold text-sm flex items-center gap-2 mb-2 text-slate-600">
+                <Library size={16} /> 参考书目
+              </h4>
+              <ul className="space-y-1 text-sm text-slate-600">
+                {factCheck.references.map((ref, i) => (
+                  <li key={i}>
+                    《{ref.title}》{ref.author && <span className="text-slate-400"> · {ref.author}</span>}
+                    {ref.note && <span className="text-slate-400"> · {ref.note}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {onRunCheck && (
+            <button
+              onClick={onRunCheck}
+              disabled={isChecking}
+              className="text-xs text-slate-400 hover:text-emerald-600 flex items-center gap-1"
+            >
+              {isChecking ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />}
+              改过故事？重新核查
+            </button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
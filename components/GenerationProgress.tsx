@@ -0,0 +1,55 @@
+import React from 'react';
+import { AssetStatus, SceneGenerationProgress } from '../types';
+import { Image as ImageIcon, Mic } from 'lucide-react';
+
+interface GenerationProgressProps {
+  progress: SceneGenerationProgress[];
+}
+
+const STATUS_STYLES: Record<AssetStatus, string> = {
+  pending: 'bg-slate-100 text-slate-300',
+  running: 'bg-amber-100 text-amber-500 animate-pulse',
+  done: 'bg-emerald-100 text-emerald-600',
+  failed: 'bg-red-100 text-red-500',
+};
+
+const STATUS_LABELS: Record<AssetStatus, string> = {
+  pending: '排队中',
+  running: '生成中',
+  done: '完成',
+  failed: '失败',
+};
+
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ progress }) => {
+  if (progress.length === 0) return null;
+
+  const total = progress.length * 2;
+  const finished = progress.reduce(
+    (n, p) => n + (p.image === 'done' || p.image === 'failed' ? 1 : 0) + (p.audio === 'done' || p.audio === 'failed' ? 1 : 0),
+    0
+  );
+
+  return (
+    <div className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+      <div className="flex justify-between text-xs font-bold text-slate-400 mb-3">
+        <span>场景素材进度</span>
+        <span>{finished} / {total}</span>
+      </div>
+      <div className="grid grid-cols-5 sm:grid-cols-7 gap-2">
+        {progress.map((p, idx) => (
+          <div key={idx} className="flex flex-col items-center gap-1 bg-white rounded-lg p-1.5 shadow-sm">
+            <span className="text-[10px] font-bold text-slate-400">{idx + 1}</span>
+            <div className="flex gap-1">
+              <span className={`w-5 h-5 rounded flex items-center justify-center ${STATUS_STYLES[p.image]}`} title={`画面：${STATUS_LABELS[p.image]}`}>
+                <ImageIcon size={12} />
+              </span>
+              <span className={`w-5 h-5 rounded flex items-center justify-center ${STATUS_STYLES[p.audio]}`} title={`旁白：${STATUS_LABELS[p.audio]}`}>
+                <Mic size={12} />
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { EvictionPolicy, LibrarySettings, StorageUsage } from '../types';
+import { formatBytes } from '../services/storyLibrary';
+import { HardDrive, Settings2 } from 'lucide-react';
+
+interface LibraryStoragePanelProps {
+  usage: StorageUsage | null;
+  settings: LibrarySettings;
+  storyCount: number;
+  onChange: (settings: LibrarySettings) => void;
+}
+
+const MAX_STORIES_LIMIT = 200;
+
+const POLICY_LABELS: Record<EvictionPolicy, string> = {
+  manual: '手动管理（空间满时提醒我）',
+  oldest: '自动删除最旧的故事',
+};
+
+export const LibraryStoragePanel: React.FC<LibraryStoragePanelProps> = ({ usage, settings, storyCount, onChange }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  // Typed text for the story limit; only committed on blur or Enter, as each change can delete stories
+  const [maxStoriesDraft, setMaxStoriesDraft] = useState(String(settings.maxStories));
+
+  /** Applies `next`, asking first when the 'oldest' policy would delete stories straight away. */
+  const commitSettings = (next: LibrarySettings) => {
+    const removed = next.eviction === 'oldest' ? storyCount - next.maxStories : 0;
+    if (removed > 0 && !confirm(`这样会立刻删除最旧的 ${removed} 个故事，而且无法恢复。确定吗？`)) {
+      setMaxStoriesDraft(String(settings.maxStories));
+      return;
+    }
+    onChange(next);
+  };
+
+  const commitMaxStories = () => {
+    const parsed = Math.round(Number(maxStoriesDraft));
+    // Blank or invalid input keeps the current limit rather than falling back to something tiny
+    const maxStories = maxStoriesDraft.trim() && parsed > 0 ? Math.min(MAX_STORIES_LIMIT, parsed) : settings.maxStories;
+    setMaxStoriesDraft(String(maxStories));
+    if (maxStories !== settings.maxStories) commitSettings({ ...settings, maxStories });
+  };
+
+  const percent = usage && usage.quotaBytes > 0 ? Math.min((usage.usedBytes / usage.quotaBytes) * 100, 100) : 0;
+
+  return (
+    <div className="mb-6 bg-white/70 rounded-2xl p-3 border border-slate-100">
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span className="flex items-center gap-1 font-bold">
+          <HardDrive size={14} /> {storyCount} 个故事
+        </span>
+        <span className="flex items-center gap-2">
+          {usage ? `${formatBytes(usage.usedBytes)} / ${formatBytes(usage.quotaBytes)}` : '存储用量未知'}
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`p-1 rounded-full hover:bg-slate-100 ${showSettings ? 'text-indigo-500' : 'text-slate-400'}`}
+            title="存储设置"
+          >
+            <Settings2 size={14} />
+          </button>
+        </span>
+      </div>
+
+      {usage && (
+        <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mt-2">
+          <div
+            className={`h-full transition-all ${percent > 80 ? 'bg-red-400' : 'bg-indigo-400'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      {showSettings && (
+        <div className="mt-3 pt-3 border-t border-slate-100 space-y-2 text-xs">
+          <div className="font-bold text-slate-500">空间不足时</div>
+          {(Object.keys(POLICY_LABELS) as EvictionPolicy[]).map(policy => (
+            <label key={policy} className="flex items-center gap-2 cursor-pointer text-slate-600">
+              <input
+                type="radio"
+                name="eviction-policy"
+                checked={settings.eviction === policy}
+                onChange={() => commitSettings({ ...settings, eviction: policy })}
+              />
+              {POLICY_LABELS[policy]}
+            </label>
+          ))}
+          {settings.eviction === 'oldest' && (
+            <label className="flex items-center gap-2 text-slate-600 pl-5">
+              最多保留
+              <input
+                type="number"
+                min={1}
+                max={MAX_STORIES_LIMIT}
+                value={maxStoriesDraft}
+                onChange={(e) => setMaxStoriesDraft(e.target.value)}
+                onBlur={commitMaxStories}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-16 px-2 py-1 rounded border border-slate-200"
+              />
+              个故事
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
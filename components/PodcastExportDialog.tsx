@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { LoudnessPresetId, Story, VoiceName } from '../types';
+import { exportPodcast, PodcastFormat, PODCAST_FORMATS } from '../services/podcastExport';
+import { LOUDNESS_PRESETS } from '../services/loudness';
+import { generateVoiceover } from '../services/geminiService';
+import { Headphones, Loader2, Music, Volume2, X } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+interface PodcastExportDialogProps {
+  story: Story;
+  /** Cover chosen for the video export, used as the artwork; falls back to the story's. */
+  cover?: string;
+  loudness: LoudnessPresetId;
+  onLoudnessChange: (preset: LoudnessPresetId) => void;
+  /** Saves the file; the dialog picks the name's extension. */
+  onDownload: (blob: Blob, extension: string) => void;
+  onClose: () => void;
+}
+
+export const PodcastExportDialog: React.FC<PodcastExportDialogProps> = ({ story, cover, loudness, onLoudnessChange, onDownload, onClose }) => {
+  const [format, setFormat] = useState<PodcastFormat>('opus');
+  const [withIntro, setWithIntro] = useState(!!story.introduction);
+  const [withMusic, setWithMusic] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  // The introduction isn't voiced during generation; keep it so a second export doesn't pay again
+  const introAudioRef = useRef<ArrayBuffer | null>(null);
+
+  const voicedScenes = story.scenes.filter(s => s.audioData).length;
+  const missingScenes = story.scenes.length - voicedScenes;
+
+  const handleExport = async () => {
+    if (status) return;
+    try {
+      let introAudio: ArrayBuffer | undefined;
+      if (withIntro && story.introduction) {
+        if (!introAudioRef.current) {
+          setStatus('正在录制开场白...');
+          try {
+            introAudioRef.current = await generateVoiceover(story.introduction, story.voice || VoiceName.Puck);
+          } catch (e) {
+            console.warn("Intro narration failed, exporting without it", e);
+          }
+        }
+        introAudio = introAudioRef.current || undefined;
+      }
+
+      const blob = await exportPodcast(
+        { ...story, coverImage: cover || story.coverImage },
+        { format, introAudio, withMusic, loudness },
+        setStatus
+      );
+      onDownload(blob, PODCAST_FORMATS[format].extension);
+      onClose();
+    } catch (e) {
+      console.error("Podcast export failed", e);
+      alert(format === 'opus' ? "音频导出失败，当前浏览器可能不支持 Opus 编码，请改用 WAV" : "音频导出失败，请重试");
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-lg w-full overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+              <Headphones size={24} className="text-indigo-500" /> 导出有声书
+            </h3>
+            <p className="text-slate-500 text-sm mt-1">每一幕一个章节，封面作为专辑图</p>
+          </div>
+          <button onClick={onClose} disabled={!!status} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(PODCAST_FORMATS) as PodcastFormat[]).map(id => (
+              <button
+                key={id}
+                onClick={() => setFormat(id)}
+                className={`p-3 rounded-2xl border-2 text-left transition-colors ${format === id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+              >
+                <div className={`font-bold text-sm ${format === id ? 'text-indigo-600' : 'text-slate-700'}`}>{PODCAST_FORMATS[id].label}</div>
+                <div className="text-xs text-slate-400 mt-1">{PODCAST_FORMATS[id].description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className={`flex items-center gap-2 text-sm font-bold text-slate-600 ${story.introduction ? 'cursor-pointer' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={withIntro}
+                disabled={!story.introduction}
+                onChange={(e) => setWithIntro(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              朗读开场白
+              <span className="text-xs font-normal text-slate-400">（会额外生成一段配音）</span>
+            </label>
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={withMusic}
+                onChange={(e) => setWithMusic(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              <Music size={14} /> 背景音乐与音效
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-bold text-slate-500 flex items-center gap-1 mr-1">
+              <Volume2 size={16} /> 响度标准
+            </span>
+            {(Object.keys(LOUDNESS_PRESETS) as LoudnessPresetId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => onLoudnessChange(id)}
+                title={LOUDNESS_PRESETS[id].description}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${loudness === id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+              >
+                {LOUDNESS_PRESETS[id].label}
+              </button>
+            ))}
+          </div>
+
+          {missingScenes > 0 && (
+            <p className="text-xs text-amber-600 bg-amber-50 rounded-xl px-3 py-2">
+              {voicedScenes === 0 ? '还没有任何一幕生成了配音，无法导出音频。' : `有 ${missingScenes} 幕还没有配音，导出时会跳过。`}
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <Button variant="ghost" onClick={onClose} disabled={!!status}>取消</Button>
+          <Button onClick={handleExport} disabled={!!status || voicedScenes === 0}>
+            {status ? <><Loader2 size={18} className="animate-spin" /> {status}</> : '导出音频'}
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { PublishPlatformId } from '../types';
+import { PublishKit, PUBLISH_PLATFORMS } from '../services/publishProfiles';
+import { decodeBase64 } from '../services/audioUtils';
+import { CheckCircle, Copy, Download, ExternalLink, X } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+interface PublishKitDialogProps {
+  platform: PublishPlatformId;
+  kit: PublishKit;
+  /** Saves a file; used for the thumbnail. */
+  onDownload: (blob: Blob, filename: string) => void;
+  /** Base name for downloaded files. */
+  fileBaseName: string;
+  onClose: () => void;
+}
+
+export const PublishKitDialog: React.FC<PublishKitDialogProps> = ({ platform, kit, onDownload, fileBaseName, onClose }) => {
+  const meta = PUBLISH_PLATFORMS[platform];
+  const [copied, setCopied] = useState<'caption' | 'hashtags' | null>(null);
+  const hashtagText = kit.hashtags.map(tag => `#${tag}`).join(' ');
+
+  const copy = async (what: 'caption' | 'hashtags', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(what);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      console.warn("Clipboard write failed", e);
+    }
+  };
+
+  const handleDownloadThumbnail = () => {
+    if (!kit.thumbnail) return;
+    onDownload(new Blob([decodeBase64(kit.thumbnail) as BlobPart], { type: 'image/jpeg' }), `${fileBaseName}-${meta.label}封面.jpg`);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center text-green-600">
+              <CheckCircle size={26} />
+            </div>
+            <div>
+              <h3 className="text-2xl font-bold text-slate-800">视频已生成!</h3>
+              <p className="text-slate-500 text-sm mt-1">发布到{meta.label}的素材都准备好了</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col sm:flex-row gap-6">
+          {kit.thumbnail && (
+            <div className="sm:w-48 flex-shrink-0 space-y-2">
+              <img src={`data:image/jpeg;base64,${kit.thumbnail}`} className="w-full rounded-xl shadow-md" alt="封面" />
+              <button
+                onClick={handleDownloadThumbnail}
+                className="w-full px-3 py-1.5 rounded-full text-xs font-bold border-2 border-slate-200 text-slate-500 hover:border-indigo-200 hover:text-indigo-600 flex items-center justify-center gap-1"
+              >
+                <Download size={12} /> 下载平台尺寸封面
+              </button>
+            </div>
+          )}
+
+          <div className="flex-1 space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-bold text-slate-500">发布文案</span>
+                <button onClick={() => copy('caption', kit.caption)} className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1">
+                  {copied === 'caption' ? <CheckCircle size={12} /> : <Copy size={12} />} {copied === 'caption' ? '已复制' : '复制'}
+                </button>
+              </div>
+              <p className="text-sm text-slate-700 bg-slate-50 rounded-xl p-3 leading-relaxed">{kit.caption}</p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-bold text-slate-500">话题标签</span>
+                <button onClick={() => copy('hashtags', hashtagText)} className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1">
+                  {copied === 'hashtags' ? <CheckCircle size={12} /> : <Copy size={12} />} {copied === 'hashtags' ? '已复制' : '复制'}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {kit.hashtags.map(tag => (
+                  <span key={tag} className="px-2.5 py-1 rounded-full bg-indigo-50 text-indigo-600 text-xs font-bold">#{tag}</span>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-slate-400">
+              视频已保存到你的设备。打开{meta.label}创作者中心，上传刚刚下载的视频，再粘贴文案和标签即可。
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <Button variant="ghost" onClick={onClose}>我知道了</Button>
+          <Button onClick={() => window.open(meta.uploadUrl, '_blank', 'noopener')}>
+            <ExternalLink size={18} /> 去{meta.label}上传
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
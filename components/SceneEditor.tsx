@@ -0,0 +1,501 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DialogueLine, MusicTrackId, NARRATOR_SPEAKER, Scene, SceneTransition, SoundEffectId, Story, TransitionEasing, TransitionEffect, VoiceName } from '../types';
+import { generateSceneImage, generateSceneVoiceover } from '../services/geminiService';
+import { autoCast, hasDialogue, joinLines, speakingCharacters } from '../services/voiceCasting';
+import { VoiceCastingPanel } from './VoiceCastingPanel';
+import { MUSIC_META, SOUND_EFFECT_META } from '../services/audioMixer';
+import { deleteScene, duplicateScene, insertScene, moveScene, updateScene } from '../services/sceneEditing';
+import { buildScenePrompt, referenceImagesFor } from '../services/characterBible';
+import { DEFAULT_TRANSITION, MAX_TRANSITION_SEC, MIN_TRANSITION_SEC, TRANSITION_EASINGS, TRANSITION_META } from '../services/transitions';
+import { Clapperboard, Copy, GripVertical, ImageOff, Loader2, Mic, Music, Plus, RefreshCw, Trash2, Users, X } from 'lucide-react';
+import { Button } from './Button';
+
+interface SceneEditorProps {
+  story: Story;
+  /** Receives every edit; the caller is responsible for saving it. */
+  onChange: (story: Story) => void;
+  onClose: () => void;
+  /** Scene to scroll to when the editor opens. */
+  initialIndex?: number;
+}
+
+type RegenerateTarget = 'image' | 'audio';
+
+interface SceneCardProps {
+  scene: Scene;
+  index: number;
+  isVertical: boolean;
+  canDelete: boolean;
+  busy: Partial<Record<RegenerateTarget, boolean>>;
+  isDragTarget: boolean;
+  /** Who can be picked as the speaker of a dialogue line. */
+  speakers: string[];
+  /** The story-wide music bed, shown as what "跟随故事" means. */
+  storyMusic: MusicTrackId;
+  /** The story's default transition; null for the last scene, which has none. */
+  storyTransition: SceneTransition | null;
+  onText: (patch: Partial<Pick<Scene, 'narration' | 'visual_prompt' | 'lines'>>) => void;
+  onSound: (patch: Partial<Pick<Scene, 'music' | 'soundEffects'>>) => void;
+  onTransition: (transition: SceneTransition | undefined) => void;
+  onRegenerate: (target: RegenerateTarget) => void;
+  onDuplicate: () => void;
+  onInsertAfter: () => void;
+  onDelete: () => void;
+  onDragStart: () => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+interface TransitionTimingProps {
+  value: SceneTransition;
+  onChange: (transition: SceneTransition) => void;
+}
+
+/** Duration and easing for a transition; the effect is picked by the caller. */
+const TransitionTiming: React.FC<TransitionTimingProps> = ({ value, onChange }) => {
+  const setDuration = (input: string) => {
+    const duration = Math.min(MAX_TRANSITION_SEC, Math.max(MIN_TRANSITION_SEC, Number(input) || DEFAULT_TRANSITION.duration));
+    if (duration !== value.duration) onChange({ ...value, duration });
+  };
+  return (
+    <>
+      <input
+        key={value.duration}
+        type="number"
+        min={MIN_TRANSITION_SEC}
+        max={MAX_TRANSITION_SEC}
+        step={0.1}
+        defaultValue={value.duration}
+        onBlur={(e) => setDuration(e.target.value)}
+        className="w-14 px-1 py-1 rounded-lg border border-slate-200 text-slate-600 bg-white"
+        title="转场时长"
+      />
+      秒
+      <select
+        value={value.easing}
+        onChange={(e) => onChange({ ...value, easing: e.target.value as TransitionEasing })}
+        className="px-2 py-1 rounded-lg border border-slate-200 text-slate-600 bg-white"
+      >
+        {(Object.keys(TRANSITION_EASINGS) as TransitionEasing[]).map(easing => (
+          <option key={easing} value={easing}>{TRANSITION_EASINGS[easing].label}</option>
+        ))}
+      </select>
+    </>
+  );
+};
+
+const SceneCard: React.FC<SceneCardProps> = ({
+  scene, index, isVertical, canDelete, busy, isDragTarget, speakers, storyMusic, storyTransition,
+  onText, onSound, onTransition, onRegenerate, onDuplicate, onInsertAfter, onDelete,
+  onDragStart, onDragOver, onDrop, onDragEnd
+}) => {
+  // Text is committed on blur so typing doesn't rewrite the saved story on every key
+  const [narration, setNarration] = useState(scene.narration);
+  const [prompt, setPrompt] = useState(scene.visual_prompt);
+  const [lines, setLines] = useState<DialogueLine[]>(scene.lines || []);
+  const [narrationChanged, setNarrationChanged] = useState(false);
+  const isDialogue = hasDialogue(scene);
+
+  useEffect(() => setNarration(scene.narration), [scene.narration]);
+  useEffect(() => setPrompt(scene.visual_prompt), [scene.visual_prompt]);
+  useEffect(() => setLines(scene.lines || []), [scene.lines]);
+
+  const commitNarration = () => {
+    if (narration === scene.narration) return;
+    // Narrator-only lines would now be out of date
+    onText({ narration, lines: undefined });
+    setNarrationChanged(true);
+  };
+
+  const commitLines = (next: DialogueLine[] = lines) => {
+    const kept = next.filter(line => line.text.trim());
+    if (JSON.stringify(kept) === JSON.stringify(scene.lines)) return;
+    onText({ lines: kept, narration: joinLines(kept) });
+    setNarrationChanged(true);
+  };
+
+  const updateLine = (i: number, patch: Partial<DialogueLine>) =>
+    lines.map((line, n) => n === i ? { ...line, ...patch } : line);
+
+  const cues = scene.soundEffects || [];
+  const setCueTime = (i: number, value: string) => {
+    const at = Math.max(0, Number(value) || 0);
+    if (at !== cues[i].at) onSound({ soundEffects: cues.map((cue, n) => n === i ? { ...cue, at } : cue) });
+  };
+
+  const commitPrompt = () => {
+    if (prompt !== scene.visual_prompt) onText({ visual_prompt: prompt });
+  };
+
+  return (
+    <div
+      id={`scene-editor-${index}`}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      className={`bg-white rounded-2xl border-2 p-4 flex gap-4 transition-colors ${isDragTarget ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-100'}`}
+    >
+      <div
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        className="flex flex-col items-center gap-2 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing"
+        title="拖动调整顺序"
+      >
+        <span className="text-xs font-bold text-slate-400">{index + 1}</span>
+        <GripVertical size={18} />
+      </div>
+
+      <div className={`relative flex-shrink-0 rounded-xl overflow-hidden bg-slate-800 ${isVertical ? 'w-24 aspect-[9/16]' : 'w-40 aspect-video'}`}>
+        {scene.imageData ? (
+          <img src={`data:image/png;base64,${scene.imageData}`} alt={`Scene ${index + 1}`} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-slate-500">
+            <ImageOff size={24} />
+          </div>
+        )}
+        {busy.image && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-white">
+            <Loader2 size={20} className="animate-spin" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 flex flex-col gap-2 min-w-0">
+        {isDialogue ? (
+          <>
+            <label className="text-xs font-bold text-slate-400">旁白与台词</label>
+            {lines.map((line, i) => (
+              <div key={i} className="flex gap-2">
+                <select
+                  value={line.speaker}
+                  onChange={(e) => {
+                    const next = updateLine(i, { speaker: e.target.value });
+                    setLines(next);
+                    commitLines(next);
+                  }}
+                  className="w-24 flex-shrink-0 px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 bg-white"
+                >
+                  {speakers.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <input
+                  value={line.text}
+                  onChange={(e) => setLines(updateLine(i, { text: e.target.value }))}
+                  onBlur={() => commitLines()}
+                  className={`flex-1 min-w-0 px-3 py-1.5 rounded-lg border border-slate-200 text-sm focus:border-indigo-400 focus:outline-none ${line.speaker === NARRATOR_SPEAKER ? 'text-slate-700' : 'text-indigo-700 font-medium'}`}
+                />
+              </div>
+            ))}
+          </>
+        ) : (
+          <>
+            <label className="text-xs font-bold text-slate-400">旁白</label>
+            <textarea
+              value={narration}
+              onChange={(e) => setNarration(e.target.value)}
+              onBlur={commitNarration}
+              rows={3}
+              className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 focus:border-indigo-400 focus:outline-none resize-y"
+              placeholder="这一幕要讲的故事..."
+            />
+          </>
+        )}
+        <label className="text-xs font-bold text-slate-400">画面描述 (英文提示词)</label>
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onBlur={commitPrompt}
+          rows={2}
+          className="w-full px-3 py-2 rounded-xl border border-slate-200 text-xs font-mono text-slate-600 focus:border-indigo-400 focus:outline-none resize-y"
+          placeholder="cute cartoon style, ..."
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Music size={14} className="text-slate-400" />
+          <select
+            value={scene.music ?? ''}
+            onChange={(e) => onSound({ music: (e.target.value || undefined) as MusicTrackId | undefined })}
+            className="px-2 py-1 rounded-lg border border-slate-200 text-slate-600 bg-white"
+          >
+            <option value="">跟随故事（{MUSIC_META[storyMusic].label}）</option>
+            {(Object.keys(MUSIC_META) as MusicTrackId[]).map(track => (
+              <option key={track} value={track}>{MUSIC_META[track].label}</option>
+            ))}
+          </select>
+          {cues.map((cue, i) => (
+            <span key={`${i}-${cue.effect}-${cue.at}`} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-sky-50 text-sky-700 font-bold">
+              {SOUND_EFFECT_META[cue.effect].label}
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                defaultValue={cue.at}
+                onBlur={(e) => setCueTime(i, e.target.value)}
+                className="w-12 px-1 rounded bg-white border border-sky-100 font-normal"
+                title="旁白开始后第几秒播放"
+              />
+              秒
+              <button onClick={() => onSound({ soundEffects: cues.filter((_, n) => n !== i) })} className="p-0.5 rounded-full hover:bg-sky-100">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <select
+            value=""
+            onChange={(e) => e.target.value && onSound({ soundEffects: [...cues, { effect: e.target.value as SoundEffectId, at: 0 }] })}
+            className="px-2 py-1 rounded-lg border border-dashed border-slate-200 text-slate-500 bg-white"
+          >
+            <option value="">+ 音效</option>
+            {(Object.keys(SOUND_EFFECT_META) as SoundEffectId[]).map(effect => (
+              <option key={effect} value={effect}>{SOUND_EFFECT_META[effect].label}</option>
+            ))}
+          </select>
+        </div>
+        {storyTransition && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <Clapperboard size={14} className="text-slate-400" />
+            <select
+              value={scene.transitionStyle?.effect ?? ''}
+              onChange={(e) => onTransition(e.target.value
+                ? { ...(scene.transitionStyle || storyTransition), effect: e.target.value as TransitionEffect }
+                : undefined)}
+              className="px-2 py-1 rounded-lg border border-slate-200 text-slate-600 bg-white"
+              title={scene.transitionVideoUrl ? '已有 Veo 转场视频，导出时优先使用视频' : '切到下一幕的转场'}
+            >
+              <option value="">跟随故事（{TRANSITION_META[storyTransition.effect].label}）</option>
+              {(Object.keys(TRANSITION_META) as TransitionEffect[]).map(effect => (
+                <option key={effect} value={effect}>{TRANSITION_META[effect].label}</option>
+              ))}
+            </select>
+            {scene.transitionStyle && <TransitionTiming value={scene.transitionStyle} onChange={onTransition} />}
+            {scene.transitionVideoUrl && <span className="text-slate-400">已有 Veo 转场</span>}
+          </div>
+        )}
+        {narrationChanged && scene.audioData && !busy.audio && (
+          <div className="text-xs text-amber-600">旁白已修改，记得重新生成配音</div>
+        )}
+
+        <div className="flex flex-wrap gap-2 pt-1">
+          <button
+            onClick={() => onRegenerate('image')}
+            disabled={busy.image || !prompt.trim()}
+            className="text-xs font-bold px-3 py-1.5 rounded-full bg-indigo-50 text-indigo-600 hover:bg-indigo-100 flex items-center gap-1 disabled:opacity-40"
+          >
+            {busy.image ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            重新生成画面
+          </button>
+          <button
+            onClick={() => { onRegenerate('audio'); setNarrationChanged(false); }}
+            disabled={busy.audio || !narration.trim()}
+            className="text-xs font-bold px-3 py-1.5 rounded-full bg-amber-50 text-amber-600 hover:bg-amber-100 flex items-center gap-1 disabled:opacity-40"
+          >
+            {busy.audio ? <Loader2 size={12} className="animate-spin" /> : <Mic size={12} />}
+            重新生成配音
+          </button>
+          <span className="flex-1" />
+          <button onClick={onInsertAfter} className="p-1.5 rounded-full text-slate-400 hover:text-indigo-500 hover:bg-indigo-50" title="在后面插入新场景">
+            <Plus size={16} />
+          </button>
+          <button onClick={onDuplicate} className="p-1.5 rounded-full text-slate-400 hover:text-indigo-500 hover:bg-indigo-50" title="复制场景">
+            <Copy size={16} />
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={!canDelete}
+            className="p-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 disabled:opacity-30"
+            title="删除场景"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const SceneEditor: React.FC<SceneEditorProps> = ({ story, onChange, onClose, initialIndex = 0 }) => {
+  const [busy, setBusy] = useState<Record<number, Partial<Record<RegenerateTarget, boolean>>>>({});
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [showCasting, setShowCasting] = useState(false);
+  const [showTransitions, setShowTransitions] = useState(false);
+
+  const narratorVoice = story.voice || VoiceName.Puck;
+  const storyTransition = story.transitionStyle || DEFAULT_TRANSITION;
+  const castCharacters = speakingCharacters(story.scenes);
+  const speakerOptions = [NARRATOR_SPEAKER, ...(story.bible?.characters.map(c => c.name) || [])];
+
+  // Regeneration finishes after other edits may have landed, so always apply to the latest story
+  const storyRef = useRef(story);
+  storyRef.current = story;
+
+  const apply = (next: Story) => {
+    storyRef.current = next;
+    onChange(next);
+  };
+
+  useEffect(() => {
+    document.getElementById(`scene-editor-${initialIndex}`)?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  const setSceneBusy = (sceneId: number, target: RegenerateTarget, value: boolean) => {
+    setBusy(b => ({ ...b, [sceneId]: { ...b[sceneId], [target]: value } }));
+  };
+
+  const handleRegenerate = async (scene: Scene, target: RegenerateTarget) => {
+    setSceneBusy(scene.id, target, true);
+    try {
+      // Read the text from the latest story in case the textarea was just committed
+      const { scenes, bible } = storyRef.current;
+      const index = scenes.findIndex(s => s.id === scene.id);
+      const latest = scenes[index] || scene;
+      const patch: Partial<Scene> = target === 'image'
+        ? {
+            imageData: await generateSceneImage(
+              buildScenePrompt(latest, bible),
+              story.aspectRatio,
+              undefined,
+              index === -1 ? undefined : referenceImagesFor(scenes, index, bible)
+            )
+          }
+        : { audioData: await generateSceneVoiceover(latest, story.voice || VoiceName.Puck, storyRef.current.cast) };
+      apply(updateScene(storyRef.current, scene.id, patch));
+    } catch (e) {
+      console.error(`Scene ${target} regeneration failed`, e);
+      alert(target === 'image' ? "画面生成失败，请重试" : "配音生成失败，请重试");
+    } finally {
+      setSceneBusy(scene.id, target, false);
+    }
+  };
+
+  const handleDrop = (to: number) => {
+    if (dragIndex !== null) apply(moveScene(storyRef.current, dragIndex, to));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDelete = (index: number) => {
+    if (!confirm(`确定删除场景 ${index + 1} 吗？`)) return;
+    apply(deleteScene(storyRef.current, index));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-50 rounded-3xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-6 border-b border-slate-100 bg-white flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800">编辑场景</h3>
+            <p className="text-slate-500 text-sm mt-1">修改会自动保存；拖动左侧手柄可以调整顺序</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 text-sm font-bold text-slate-500" title="整个故事的背景音乐">
+              <Music size={16} />
+              <select
+                value={story.music ?? 'none'}
+                onChange={(e) => apply({ ...storyRef.current, music: e.target.value as MusicTrackId })}
+                className="px-2 py-1.5 rounded-full border border-slate-200 text-sm bg-white"
+              >
+                {(Object.keys(MUSIC_META) as MusicTrackId[]).map(track => (
+                  <option key={track} value={track}>{MUSIC_META[track].label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setShowTransitions(!showTransitions)}
+              className={`px-3 py-2 rounded-full text-sm font-bold flex items-center gap-1 ${showTransitions ? 'bg-indigo-100 text-indigo-600' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              <Clapperboard size={16} /> 转场
+            </button>
+            {castCharacters.length > 0 && (
+              <button
+                onClick={() => setShowCasting(!showCasting)}
+                className={`px-3 py-2 rounded-full text-sm font-bold flex items-center gap-1 ${showCasting ? 'bg-indigo-100 text-indigo-600' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                <Users size={16} /> 配音演员
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+              <X size={24} className="text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {showTransitions && (
+            <div className="bg-indigo-50/60 rounded-2xl p-4 border border-indigo-100 space-y-3">
+              <div className="text-sm font-bold text-slate-600">全片默认转场</div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(TRANSITION_META) as TransitionEffect[]).map(effect => (
+                  <button
+                    key={effect}
+                    onClick={() => apply({ ...storyRef.current, transitionStyle: { ...storyTransition, effect } })}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${storyTransition.effect === effect ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200 bg-white'}`}
+                  >
+                    {TRANSITION_META[effect].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-slate-500">
+                <TransitionTiming value={storyTransition} onChange={(transitionStyle) => apply({ ...storyRef.current, transitionStyle })} />
+              </div>
+              <p className="text-xs text-slate-400">没有 Veo 转场视频的场景之间使用；单个场景可在下方单独设置。播放器里点“下一幕”即可预览</p>
+            </div>
+          )}
+
+          {showCasting && (
+            <div className="bg-indigo-50/60 rounded-2xl p-4 border border-indigo-100">
+              <VoiceCastingPanel
+                characters={castCharacters}
+                bible={story.bible}
+                narratorVoice={narratorVoice}
+                cast={autoCast(castCharacters, narratorVoice, story.cast)}
+                onChange={(cast) => apply({ ...storyRef.current, cast })}
+              />
+              <p className="text-xs text-slate-400 mt-3">换了声音后，点对应场景的“重新生成配音”即可生效</p>
+            </div>
+          )}
+
+          <button
+            onClick={() => apply(insertScene(storyRef.current, -1))}
+            className="w-full py-2 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 hover:border-indigo-300 hover:text-indigo-500 text-sm font-bold flex items-center justify-center gap-1"
+          >
+            <Plus size={16} /> 在开头插入场景
+          </button>
+
+          {story.scenes.map((scene, index) => (
+            <SceneCard
+              key={scene.id}
+              scene={scene}
+              index={index}
+              isVertical={story.aspectRatio === '9:16'}
+              canDelete={story.scenes.length > 1}
+              busy={busy[scene.id] || {}}
+              isDragTarget={dropIndex === index && dragIndex !== index}
+              speakers={speakerOptions}
+              storyMusic={story.music ?? 'none'}
+              storyTransition={index < story.scenes.length - 1 ? storyTransition : null}
+              onText={(patch) => apply(updateScene(storyRef.current, scene.id, patch))}
+              onSound={(patch) => apply(updateScene(storyRef.current, scene.id, patch))}
+              onTransition={(transitionStyle) => apply(updateScene(storyRef.current, scene.id, { transitionStyle }))}
+              onRegenerate={(target) => handleRegenerate(scene, target)}
+              onDuplicate={() => apply(duplicateScene(storyRef.current, index))}
+              onInsertAfter={() => apply(insertScene(storyRef.current, index))}
+              onDelete={() => handleDelete(index)}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            />
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end bg-white">
+          <Button onClick={onClose}>完成</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Story, StorySummary } from '../types';
+import { loadStory, releaseStoryClips } from '../services/storyLibrary';
+import { BookOpen, Images, Loader2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface SceneImagePickerProps {
+  stories: StorySummary[];
+  onPick: (imageData: string, story: Story) => void;
+  onClose: () => void;
+}
+
+/** Browse the library's stories and pick one of their scene pictures. */
+export const SceneImagePicker: React.FC<SceneImagePickerProps> = ({ stories, onPick, onClose }) => {
+  const [storyId, setStoryId] = useState<string | null>(stories[0]?.id ?? null);
+  const [story, setStory] = useState<Story | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!storyId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setStory(null);
+    loadStory(storyId)
+      .then(loaded => {
+        // Only the pictures are shown here, so the story's clips can go straight away
+        releaseStoryClips(loaded);
+        if (!cancelled) setStory(loaded);
+      })
+      .catch(e => console.warn("Failed to load story for its scenes", e))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [storyId]);
+
+  const scenes = story?.scenes.filter(scene => scene.imageData) || [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-4xl w-full h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><Images size={22} /> 从故事里选画面</h3>
+            <p className="text-slate-500 text-sm mt-1">挑一幕喜欢的场景图，裁剪后做成封面</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        {stories.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-slate-400">故事书里还没有故事</div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <div className="w-56 border-r border-slate-100 overflow-y-auto p-3 space-y-1">
+              {stories.map(summary => (
+                <button
+                  key={summary.id}
+                  onClick={() => setStoryId(summary.id)}
+                  className={`w-full text-left px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 transition-colors ${storyId === summary.id ? 'bg-indigo-50 text-indigo-600' : 'text-slate-600 hover:bg-slate-50'}`}
+                >
+                  <BookOpen size={14} className="flex-shrink-0" />
+                  <span className="truncate">{summary.title}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              {isLoading ? (
+                <div className="h-full flex items-center justify-center text-slate-400">
+                  <Loader2 size={24} className="animate-spin" />
+                </div>
+              ) : scenes.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-slate-400 text-sm">这个故事没有场景图</div>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {scenes.map(scene => (
+                    <button
+                      key={scene.id}
+                      onClick={() => onPick(scene.imageData!, story!)}
+                      className="rounded-xl overflow-hidden border-4 border-transparent hover:border-indigo-400 transition-colors bg-slate-900 relative"
+                      style={{ aspectRatio: story!.aspectRatio === '9:16' ? '9/16' : '16/9' }}
+                    >
+                      <img src={`data:image/png;base64,${scene.imageData}`} alt={`Scene ${scene.id}`} className="w-full h-full object-cover" />
+                      <span className="absolute top-1.5 left-1.5 px-1.5 rounded bg-black/60 text-white text-xs font-bold">{story!.scenes.indexOf(scene) + 1}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
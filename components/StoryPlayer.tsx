@@ -1,23 +1,60 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Story, Scene } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Story, Scene, SceneGenerationProgress, QuizAttempt, LoudnessPresetId, PublishPlatformId } from '../types';
 import { getAudioContext, decodeAudioData } from '../services/audioUtils';
 import { generateStoryVideo } from '../services/videoRecorder';
-import { generateVeoScene, generateVeoSequence, generateCoverImage, checkVeoSetup } from '../services/geminiService';
+import { createMixBus, sceneMusic, MixBus } from '../services/audioMixer';
+import { DEFAULT_LOUDNESS_PRESET, LOUDNESS_PRESETS } from '../services/loudness';
+import { buildSubtitleFile, SubtitleFormat, SUBTITLE_FORMATS } from '../services/subtitleExport';
+import { ExportProfileSettings, loadExportProfileSettings, saveExportProfileSettings } from '../services/exportProfiles';
+import { BrandKitSettings, loadBrandKitSettings, saveBrandKitSettings, selectedBrandKit } from '../services/branding';
+import { buildTimeline, narrationSeconds, sceneDuration, VEO_TRANSITION_FALLBACK_SEC } from '../services/storyTimeline';
+import { cameraPath, framingAt, framingTransform } from '../services/cameraMotion';
+import { updateScene } from '../services/sceneEditing';
+import { buildPublishKit, checkPlatformConstraints, platformSafeArea, PublishKit, PUBLISH_PLATFORMS } from '../services/publishProfiles';
+import { estimatePhraseTimings, indexAtTime, spokenCharCount } from '../services/narrationTiming';
+import { generateVeoScene, generateVeoSequence, generateCoverImage, checkVeoSetup, generateFactCheck, generateQuiz } from '../services/geminiService';
 import { addTitleToCover } from '../services/imageProcessor';
-import { ChevronLeft, ChevronRight, Play, Pause, RefreshCw, Volume2, Expand, Shrink, Download, Video, Share2, CheckCircle, Sparkles, Loader2, Film, X, Image as ImageIcon, Wand2, Eye, PlayCircle, Layers, Clock } from 'lucide-react';
+import { SceneEditor } from './SceneEditor';
+import { FactCheckPanel, CLAIM_KIND_META } from './FactCheckPanel';
+import { StoryQuiz, QuizSession, startQuizSession } from './StoryQuiz';
+import { PodcastExportDialog } from './PodcastExportDialog';
+import { ExportProfilePicker } from './ExportProfilePicker';
+import { SubtitleStylePicker } from './SubtitleStylePicker';
+import { BrandKitPicker } from './BrandKitPicker';
+import { PublishKitDialog } from './PublishKitDialog';
+import { TransitionPreview } from './TransitionPreview';
+import { CameraMotionEditor } from './CameraMotionEditor';
+import { ChevronLeft, ChevronRight, Play, Pause, RefreshCw, Volume2, Expand, Shrink, Download, Video, Share2, CheckCircle, Sparkles, Loader2, Film, X, Image as ImageIcon, Wand2, Eye, PlayCircle, Layers, Clock, ImageOff, VolumeX, PencilLine, ShieldCheck, HelpCircle, Captions, Headphones, AlertTriangle, Move } from 'lucide-react';
 import { Button } from './Button';
 import { motion, AnimatePresence } from 'framer-motion';
 
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 interface StoryPlayerProps {
   story: Story;
+  /** Per-scene asset status when the story comes from an unfinished generation job. */
+  sceneStatus?: SceneGenerationProgress[];
+  /** Called after the story gains new assets (e.g. Veo clips) or is edited, so it can be saved. */
+  onStoryChange?: (story: Story) => void;
   onBack: () => void;
   isImmersive: boolean;
   toggleImmersive: () => void;
 }
 
-export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmersive, toggleImmersive }) => {
+export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, sceneStatus, onStoryChange, onBack, isImmersive, toggleImmersive }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  // Seconds into the current scene's narration while it plays, for the karaoke highlight
+  const [playhead, setPlayhead] = useState<number | null>(null);
   
   // Export States
   const [isExporting, setIsExporting] = useState(false);
@@ -36,22 +73,48 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
   // Menus
   const [showShareMenu, setShowShareMenu] = useState(false);
   const [showMagicMenu, setShowMagicMenu] = useState(false);
-  const [publishedPlatform, setPublishedPlatform] = useState<string | null>(null);
+  const [published, setPublished] = useState<{ platform: PublishPlatformId; kit: PublishKit } | null>(null);
 
   // Cover Selection States
   const [showCoverModal, setShowCoverModal] = useState(false);
   const [coverCandidates, setCoverCandidates] = useState<string[]>([]);
   const [selectedCover, setSelectedCover] = useState<string | null>(null);
   const [isGeneratingCovers, setIsGeneratingCovers] = useState(false);
-  const [pendingExportPlatform, setPendingExportPlatform] = useState<string | undefined>(undefined);
+  const [pendingExportPlatform, setPendingExportPlatform] = useState<PublishPlatformId | undefined>(undefined);
+  const [loudnessPreset, setLoudnessPreset] = useState<LoudnessPresetId>(DEFAULT_LOUDNESS_PRESET);
+  const [burnSubtitles, setBurnSubtitles] = useState(true);
+  const [subtitleBusy, setSubtitleBusy] = useState<SubtitleFormat | null>(null);
+  const [showPodcastDialog, setShowPodcastDialog] = useState(false);
+  const [profileSettings, setProfileSettings] = useState<ExportProfileSettings>(loadExportProfileSettings);
+  const exportProfile = profileSettings.last;
+  const [brandSettings, setBrandSettings] = useState<BrandKitSettings>(loadBrandKitSettings);
+  const brandKit = selectedBrandKit(brandSettings);
 
   // Transition & Full Video Preview
   const [showTransitionPreview, setShowTransitionPreview] = useState(false);
+  // Canvas transition playing over the stage, from scene index `from` to the next one
+  const [canvasTransition, setCanvasTransition] = useState<{ from: number } | null>(null);
   const [fullVideoUrl, setFullVideoUrl] = useState<string | null>(null);
 
+  // Scene Editor
+  const [showSceneEditor, setShowSceneEditor] = useState(false);
+  const [showCameraEditor, setShowCameraEditor] = useState(false);
+
+  // Quiz
+  const [quizSession, setQuizSession] = useState<QuizSession | null>(null);
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [isQuizLoading, setIsQuizLoading] = useState(false);
+
+  // Fact Check
+  const [showFactCheck, setShowFactCheck] = useState(false);
+  const [isFactChecking, setIsFactChecking] = useState(false);
+
   // Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const mixRef = useRef<MixBus | null>(null);
+  const playbackStartRef = useRef(0);
+  const activePhraseRef = useRef<HTMLSpanElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const transitionVideoRef = useRef<HTMLVideoElement | null>(null);
 
@@ -60,13 +123,39 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       return <div className="text-white">故事加载错误</div>;
   }
 
-  const currentScene = story.scenes[currentIndex];
-  const nextScene = story.scenes[currentIndex + 1];
+  // Scenes can be deleted in the editor while we're showing the last one
+  const safeIndex = Math.min(currentIndex, story.scenes.length - 1);
+  useEffect(() => {
+    if (safeIndex !== currentIndex) setCurrentIndex(safeIndex);
+  }, [safeIndex, currentIndex]);
+
+  const currentScene = story.scenes[safeIndex];
+  const nextScene = story.scenes[safeIndex + 1];
   const isVertical = story.aspectRatio === '9:16';
+  const currentStatus = sceneStatus?.[safeIndex];
+  const isLastScene = safeIndex === story.scenes.length - 1;
+  const sceneClaims = story.factCheck?.claims.filter(c => c.sceneId === currentScene.id) || [];
+  // Stories still owned by a generation job are edited once the job finishes
+  const canEdit = !!onStoryChange && !sceneStatus;
+  const phrases = useMemo(
+    () => estimatePhraseTimings(currentScene.narration, currentScene.audioData),
+    [currentScene.narration, currentScene.audioData]
+  );
+  const activePhrase = playhead !== null && phrases.length > 0 ? indexAtTime(phrases, playhead) : -1;
+
+  // The camera moves with the narration, over the time the scene gets in the exported video,
+  // and eases back to its start framing when playback stops
+  const sceneCamera = cameraPath(currentScene, safeIndex, !!currentScene.videoUrl);
+  const cameraStyle: React.CSSProperties = {
+    transform: framingTransform(framingAt(sceneCamera, playhead !== null ? playhead / sceneDuration(narrationSeconds(currentScene)) : 0)),
+    transformOrigin: '0 0',
+    transition: playhead !== null ? undefined : 'transform 0.6s ease',
+  };
 
   // Initialize Audio Context & Cover
   useEffect(() => {
     audioContextRef.current = getAudioContext();
+    mixRef.current = createMixBus(audioContextRef.current, audioContextRef.current.destination);
     
     // Initialize cover candidates with the story's default cover if available
     if (story.coverImage) {
@@ -76,6 +165,8 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
 
     return () => {
       stopAudio();
+      mixRef.current?.dispose();
+      mixRef.current = null;
     };
   }, [story.coverImage]);
 
@@ -87,6 +178,26 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
     setShowTransitionPreview(false);
   }, [currentIndex]);
 
+  // Follow the audio clock while narration plays
+  useEffect(() => {
+    if (!isPlaying) {
+      setPlayhead(null);
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      if (audioContextRef.current) setPlayhead(audioContextRef.current.currentTime - playbackStartRef.current);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  // Keep the phrase being read in view when the narration box scrolls
+  useEffect(() => {
+    activePhraseRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activePhrase]);
+
   const stopAudio = () => {
     if (sourceNodeRef.current) {
       try {
@@ -96,10 +207,12 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       }
       sourceNodeRef.current = null;
     }
+    mixRef.current?.stopEffects();
+    mixRef.current?.setMusic('none');
   };
 
   const playAudio = async () => {
-    if (!currentScene.audioData || !audioContextRef.current) return;
+    if (!currentScene.audioData || !audioContextRef.current || !mixRef.current) return;
 
     // Ensure context is running (browser policy)
     if (audioContextRef.current.state === 'suspended') {
@@ -116,14 +229,22 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
         audioContextRef.current
       );
 
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContextRef.current.destination);
+      const mix = mixRef.current;
+      mix.setMusic(sceneMusic(story, currentScene));
+      const source = mix.playNarration(audioBuffer);
       
-      source.onended = () => setIsPlaying(false);
+      source.onended = () => {
+        // A source replaced by a newer one mustn't end the newer playback
+        if (sourceNodeRef.current && sourceNodeRef.current !== source) return;
+        sourceNodeRef.current = null;
+        mix.setMusic('none');
+        setIsPlaying(false);
+      };
       
       sourceNodeRef.current = source;
+      playbackStartRef.current = audioContextRef.current.currentTime;
       source.start();
+      currentScene.soundEffects?.forEach(cue => mix.playEffect(cue.effect, cue.at));
       setIsPlaying(true);
       
       // Also play video if available
@@ -148,8 +269,62 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
     }
   };
 
+  const handleRunFactCheck = async () => {
+      if (isFactChecking || !onStoryChange) return;
+      setIsFactChecking(true);
+      try {
+          const factCheck = await generateFactCheck(story.title, story);
+          onStoryChange({ ...story, factCheck });
+      } catch (e) {
+          console.error("Fact check failed", e);
+          alert("史实核查失败，请稍后再试");
+      } finally {
+          setIsFactChecking(false);
+      }
+  };
+
+  const handleOpenQuiz = async () => {
+      stopAudio();
+      setIsPlaying(false);
+      let questionCount = story.quiz?.length || 0;
+
+      // Older stories have no quiz yet; make one and keep it with the story
+      if (questionCount === 0) {
+          if (!onStoryChange || isQuizLoading) return;
+          setIsQuizLoading(true);
+          try {
+              const quiz = await generateQuiz(story.title, story, story.style);
+              if (quiz.length === 0) throw new Error("Empty quiz");
+              onStoryChange({ ...story, quiz });
+              questionCount = quiz.length;
+          } catch (e) {
+              console.error("Quiz generation failed", e);
+              alert("小测验生成失败，请稍后再试");
+              return;
+          } finally {
+              setIsQuizLoading(false);
+          }
+      }
+
+      if (!quizSession || quizSession.finished || quizSession.answers.length !== questionCount) {
+          setQuizSession(startQuizSession(questionCount));
+      }
+      setShowQuiz(true);
+  };
+
+  const handleQuizComplete = (attempt: QuizAttempt) => {
+      onStoryChange?.({ ...story, quizResults: [...(story.quizResults || []), attempt] });
+  };
+
+  const handleReviewScene = (sceneIndex: number) => {
+      setShowQuiz(false);
+      setCurrentIndex(sceneIndex);
+  };
+
   const handleNext = () => {
     if (currentIndex < story.scenes.length - 1) {
+      // Same hand-over as the exported video; scenes with a Veo clip show it via 预览转场
+      if (!currentScene.transitionVideoUrl) setCanvasTransition({ from: safeIndex });
       setCurrentIndex(prev => prev + 1);
     }
   };
@@ -175,6 +350,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
 
           if (videoUrl) {
               currentScene.videoUrl = videoUrl;
+              onStoryChange?.(story);
           } else {
               setVeoError("视频生成失败，请重试");
           }
@@ -194,7 +370,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       
       try {
           // Try to use 3 images for context if available
-          const nextNextScene = story.scenes[currentIndex + 2];
+          const nextNextScene = story.scenes[safeIndex + 2];
           const images = [currentScene.imageData, nextScene.imageData];
           if (nextNextScene && nextNextScene.imageData) {
               images.push(nextNextScene.imageData);
@@ -207,6 +383,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           
           if (transitionUrl) {
               currentScene.transitionVideoUrl = transitionUrl;
+              onStoryChange?.(story);
           } else {
               setVeoError("转场生成失败");
           }
@@ -228,20 +405,23 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
 
       setIsBatchGenerating(true);
       let successCount = 0;
+      let finishedCount = 0;
       const totalTransitions = story.scenes.length - 1;
-
-      // Iterate through all scenes
-      for (let i = 0; i < totalTransitions; i++) {
-          const scene = story.scenes[i];
-          
+      const reportProgress = (note?: string) => {
+          setBatchProgress(`已完成转场 ${finishedCount} / ${totalTransitions} (Veo)${note ? ` · ${note}` : ''}`);
+      };
+      reportProgress();
+
+      // Queue every missing transition at once; the scheduler serialises them
+      // within Veo's requests-per-minute limit and retries quota errors.
+      const jobs = story.scenes.slice(0, totalTransitions).map(async (scene, i) => {
           // Skip if already exists
           if (scene.transitionVideoUrl) {
               successCount++;
-              continue;
+              finishedCount++;
+              return;
           }
 
-          setBatchProgress(`正在生成转场 ${i+1} / ${totalTransitions} (Veo)...`);
-
           // Collect images: [Current, Next] + (NextNext if available for context)
           // This utilizes the 3-image capability of Veo 3.1 if possible
           const images: string[] = [];
@@ -249,11 +429,18 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           if (story.scenes[i+1]?.imageData) images.push(story.scenes[i+1].imageData!);
           if (story.scenes[i+2]?.imageData) images.push(story.scenes[i+2].imageData!);
           
-          if (images.length < 2) continue; // Need at least 2
+          if (images.length < 2) { // Need at least 2
+              finishedCount++;
+              reportProgress();
+              return;
+          }
 
-          // Generate
           try {
-              const url = await generateVeoSequence(images, story.aspectRatio);
+              const url = await generateVeoSequence(images, story.aspectRatio, {
+                  onStart: () => reportProgress(`正在生成第 ${i + 1} 个`),
+                  onWait: (ms) => reportProgress(`冷却中 (RPM限制): 约 ${Math.ceil(ms / 1000)} 秒`),
+                  onRetry: (attempt, ms) => reportProgress(`第 ${i + 1} 个被限流，${Math.ceil(ms / 1000)} 秒后重试 (${attempt})`)
+              });
               if (url) {
                   scene.transitionVideoUrl = url;
                   successCount++;
@@ -261,16 +448,12 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           } catch (e) {
               console.error(`Failed to generate transition for scene ${i}`, e);
           }
+          finishedCount++;
+          reportProgress();
+      });
 
-          // Handle Rate Limit (RPM 2)
-          // If we are not at the end, wait for ~35 seconds
-          if (i < totalTransitions - 1) {
-              for (let s = 35; s > 0; s--) {
-                  setBatchProgress(`冷却中 (RPM限制): 剩余 ${s} 秒...`);
-                  await new Promise(r => setTimeout(r, 1000));
-              }
-          }
-      }
+      await Promise.all(jobs);
+      onStoryChange?.(story);
       
       setIsBatchGenerating(false);
       if (successCount === totalTransitions) {
@@ -293,7 +476,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           const blob = await generateStoryVideo(story, (prog, status) => {
               setExportProgress(prog);
               setExportStatus(status);
-          }, selectedCover || story.coverImage);
+          }, selectedCover || story.coverImage, { loudness: loudnessPreset, burnSubtitles, profile: exportProfile, brandKit });
 
           const url = URL.createObjectURL(blob);
           setFullVideoUrl(url);
@@ -306,7 +489,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       }
   };
 
-  const handleOpenExport = (targetPlatform?: string) => {
+  const handleOpenExport = (targetPlatform?: PublishPlatformId) => {
       setPendingExportPlatform(targetPlatform);
       setShowShareMenu(false);
       stopAudio();
@@ -316,12 +499,16 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       setShowCoverModal(true);
   };
 
+  // Burned-in text keeps clear of the target platform's buttons and captions
+  const exportSafeArea = platformSafeArea(pendingExportPlatform, story.aspectRatio);
+
   const handleRegenerateCovers = async () => {
       setIsGeneratingCovers(true);
       try {
         const rawImages = await generateCoverImage(story.title, story.aspectRatio, 4);
         const processed = await Promise.all(rawImages.map(img => 
-            addTitleToCover(img, story.title, story.aspectRatio)
+            // Covers are never made below 1080p, but follow a 1440p export up
+            addTitleToCover(img, story.title, story.aspectRatio, exportProfile.resolution === '1440p' ? '1440p' : '1080p', exportSafeArea)
         ));
         
         setCoverCandidates(processed);
@@ -341,33 +528,72 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
       await handleExportVideo(pendingExportPlatform, selectedCover || undefined);
   };
 
-  const handleExportVideo = async (targetPlatform?: string, customCover?: string) => {
+  const updateProfileSettings = (settings: ExportProfileSettings) => {
+      setProfileSettings(settings);
+      saveExportProfileSettings(settings);
+  };
+
+  const updateBrandSettings = (settings: BrandKitSettings) => {
+      setBrandSettings(settings);
+      try {
+          saveBrandKitSettings(settings);
+      } catch (e) {
+          // Logos count against the localStorage quota
+          console.warn("Failed to save brand kits", e);
+          alert("品牌套件保存失败，可能是 Logo 太大，换一张小一点的图片试试");
+      }
+  };
+
+  // Veo clip lengths aren't known until they load; close enough for a size estimate
+  const estimatedDuration = useMemo(() => buildTimeline(
+      story,
+      !!(selectedCover || story.coverImage),
+      story.scenes.map(s => s.transitionVideoUrl ? VEO_TRANSITION_FALLBACK_SEC : null),
+      brandKit
+  ).total, [story, selectedCover, brandKit]);
+
+  const platformWarnings = pendingExportPlatform
+      ? checkPlatformConstraints(pendingExportPlatform, story, exportProfile, estimatedDuration)
+      : [];
+
+  const videoBaseName = `${story.title}-${story.aspectRatio === '9:16' ? 'mobile' : 'desktop'}`;
+
+  const handleDownloadSubtitles = async (format: SubtitleFormat) => {
+      if (subtitleBusy) return;
+      setSubtitleBusy(format);
+      try {
+          // Timed against the video this dialog would export, cover and sting included
+          const blob = await buildSubtitleFile(story, format, !!(selectedCover || story.coverImage), exportSafeArea, brandKit);
+          downloadBlob(blob, `${videoBaseName}.${format}`);
+      } catch (e) {
+          console.error("Subtitle export failed", e);
+          alert("字幕导出失败，请重试");
+      } finally {
+          setSubtitleBusy(null);
+      }
+  };
+
+  const handleExportVideo = async (targetPlatform?: PublishPlatformId, customCover?: string) => {
     if (isExporting) return;
     
     setIsExporting(true);
     setExportProgress(0);
     setExportStatus('准备生成视频 (MP4)...');
-    setPublishedPlatform(null);
+    setPublished(null);
 
     try {
       const blob = await generateStoryVideo(story, (prog, status) => {
         setExportProgress(prog);
         setExportStatus(status);
-      }, customCover);
+      }, customCover, { loudness: loudnessPreset, burnSubtitles, profile: exportProfile, safeArea: exportSafeArea, brandKit });
 
       const ext = blob.type.includes('mp4') ? 'mp4' : 'webm';
 
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${story.title}-${story.aspectRatio === '9:16' ? 'mobile' : 'desktop'}.${ext}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `${videoBaseName}.${ext}`);
 
       if (targetPlatform) {
-          setPublishedPlatform(targetPlatform);
+          const kit = await buildPublishKit(targetPlatform, story, customCover || story.coverImage);
+          setPublished({ platform: targetPlatform, kit });
       }
 
     } catch (error) {
@@ -415,6 +641,28 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
         <h2 className={`text-xl font-bold drop-shadow-md hidden md:block ${isImmersive ? 'text-white' : 'text-slate-700'}`}>{story.title}</h2>
         <div className="flex gap-2 relative">
           
+          {/* Fact Check */}
+          <Button
+            onClick={() => setShowFactCheck(!showFactCheck)}
+            variant={isImmersive ? "secondary" : "ghost"}
+            size="sm"
+            className="text-emerald-600"
+          >
+              <ShieldCheck size={18} /> <span className="hidden sm:inline">史实小贴士</span>
+          </Button>
+
+          {/* Scene Editor */}
+          {canEdit && (
+              <Button
+                onClick={() => { stopAudio(); setIsPlaying(false); setShowSceneEditor(true); }}
+                disabled={isBatchGenerating || isExporting || isVeoLoading || isTransitionLoading}
+                variant={isImmersive ? "secondary" : "ghost"}
+                size="sm"
+              >
+                  <PencilLine size={18} /> <span className="hidden sm:inline">编辑</span>
+              </Button>
+          )}
+
           {/* Magic Tools Menu */}
           <div className="relative">
               <Button
@@ -477,20 +725,16 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                         className="absolute right-0 top-12 bg-white text-slate-800 rounded-xl shadow-xl border border-slate-100 p-2 min-w-[200px] z-50 overflow-hidden"
                     >
                          <div className="text-xs font-bold text-slate-400 px-3 py-2">一键发布 (MP4)</div>
-                         <button 
-                            onClick={() => handleOpenExport('抖音')}
-                            className="w-full text-left px-3 py-2 hover:bg-slate-50 rounded-lg flex items-center gap-2 text-sm font-medium"
-                         >
-                            <span className="w-5 h-5 bg-black text-white rounded-full flex items-center justify-center text-[10px]">🎵</span>
-                            发布到抖音
-                         </button>
-                         <button 
-                            onClick={() => handleOpenExport('小红书')}
-                            className="w-full text-left px-3 py-2 hover:bg-slate-50 rounded-lg flex items-center gap-2 text-sm font-medium"
-                         >
-                            <span className="w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center text-[10px]">📕</span>
-                            发布到小红书
-                         </button>
+                         {(Object.keys(PUBLISH_PLATFORMS) as PublishPlatformId[]).map(id => (
+                             <button 
+                                key={id}
+                                onClick={() => handleOpenExport(id)}
+                                className="w-full text-left px-3 py-2 hover:bg-slate-50 rounded-lg flex items-center gap-2 text-sm font-medium"
+                             >
+                                <span className={`w-5 h-5 rounded-full flex items-center justify-center text-[10px] ${PUBLISH_PLATFORMS[id].badgeClass}`}>{PUBLISH_PLATFORMS[id].badge}</span>
+                                发布到{PUBLISH_PLATFORMS[id].label}
+                             </button>
+                         ))}
                          <div className="h-px bg-slate-100 my-1"></div>
                          <button 
                             onClick={() => handleOpenExport()}
@@ -499,6 +743,13 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                             <Download size={14} />
                             仅下载视频
                          </button>
+                         <button 
+                            onClick={() => { setShowShareMenu(false); stopAudio(); setShowPodcastDialog(true); }}
+                            className="w-full text-left px-3 py-2 hover:bg-slate-50 rounded-lg flex items-center gap-2 text-sm text-slate-600"
+                         >
+                            <Headphones size={14} />
+                            导出有声书 (音频)
+                         </button>
                     </motion.div>
                 )}
             </AnimatePresence>
@@ -514,6 +765,79 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
         </div>
       </div>
 
+      <AnimatePresence>
+        {showQuiz && quizSession && (
+            <StoryQuiz
+                story={story}
+                session={quizSession}
+                onSessionChange={setQuizSession}
+                onReviewScene={handleReviewScene}
+                onComplete={handleQuizComplete}
+                onClose={() => setShowQuiz(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Back to an unfinished quiz after reviewing a scene */}
+      {!showQuiz && quizSession && !quizSession.finished && quizSession.answers.some(a => a !== null) && (
+          <button
+              onClick={() => setShowQuiz(true)}
+              className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] px-5 py-2 rounded-full bg-amber-400 text-white font-bold shadow-lg flex items-center gap-2 hover:bg-amber-500"
+          >
+              <HelpCircle size={18} /> 回到小测验 ({quizSession.index + 1}/{quizSession.answers.length})
+          </button>
+      )}
+
+      <AnimatePresence>
+        {showFactCheck && (
+            <FactCheckPanel
+                story={story}
+                currentIndex={safeIndex}
+                onSelectScene={setCurrentIndex}
+                onRunCheck={canEdit ? handleRunFactCheck : undefined}
+                isChecking={isFactChecking}
+                onClose={() => setShowFactCheck(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showCameraEditor && onStoryChange && (
+            <CameraMotionEditor
+                scene={currentScene}
+                index={safeIndex}
+                aspectRatio={story.aspectRatio}
+                onSave={(camera) => {
+                    onStoryChange(updateScene(story, currentScene.id, { camera }));
+                    setShowCameraEditor(false);
+                }}
+                onClose={() => setShowCameraEditor(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {showSceneEditor && onStoryChange && (
+          <SceneEditor
+              story={story}
+              onChange={onStoryChange}
+              onClose={() => setShowSceneEditor(false)}
+              initialIndex={safeIndex}
+          />
+      )}
+
+      <AnimatePresence>
+        {showPodcastDialog && (
+            <PodcastExportDialog
+                story={story}
+                cover={selectedCover || undefined}
+                loudness={loudnessPreset}
+                onLoudnessChange={setLoudnessPreset}
+                onDownload={(blob, extension) => downloadBlob(blob, `${story.title}.${extension}`)}
+                onClose={() => setShowPodcastDialog(false)}
+            />
+        )}
+      </AnimatePresence>
+
       {/* Cover Selection Modal */}
       <AnimatePresence>
         {showCoverModal && (
@@ -531,8 +855,12 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                 >
                     <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                         <div>
-                            <h3 className="text-2xl font-bold text-slate-800">选择视频封面</h3>
-                            <p className="text-slate-500 text-sm mt-1">封面将作为视频的第一帧展示</p>
+                            <h3 className="text-2xl font-bold text-slate-800">
+                                {pendingExportPlatform ? `发布到${PUBLISH_PLATFORMS[pendingExportPlatform].label}` : '选择视频封面'}
+                            </h3>
+                            <p className="text-slate-500 text-sm mt-1">
+                                封面将作为视频的第一帧展示{pendingExportPlatform && '，红色区域会被平台按钮和文案遮挡，字幕和标题会避开它'}
+                            </p>
                         </div>
                         <button onClick={() => setShowCoverModal(false)} className="p-2 hover:bg-slate-100 rounded-full">
                             <X size={24} className="text-slate-500" />
@@ -562,6 +890,14 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                                             src={`data:image/jpeg;base64,${img}`} 
                                             className="w-full h-full object-cover"
                                         />
+                                        {pendingExportPlatform && (
+                                            <div className="absolute inset-0 pointer-events-none">
+                                                <div className="absolute inset-x-0 top-0 bg-red-500/25" style={{ height: `${exportSafeArea.top * 100}%` }} />
+                                                <div className="absolute inset-x-0 bottom-0 bg-red-500/25" style={{ height: `${exportSafeArea.bottom * 100}%` }} />
+                                                <div className="absolute left-0 bg-red-500/25" style={{ top: `${exportSafeArea.top * 100}%`, bottom: `${exportSafeArea.bottom * 100}%`, width: `${exportSafeArea.left * 100}%` }} />
+                                                <div className="absolute right-0 bg-red-500/25" style={{ top: `${exportSafeArea.top * 100}%`, bottom: `${exportSafeArea.bottom * 100}%`, width: `${exportSafeArea.right * 100}%` }} />
+                                            </div>
+                                        )}
                                         {selectedCover === img && (
                                             <div className="absolute inset-0 bg-indigo-500/20 flex items-center justify-center">
                                                 <div className="bg-indigo-500 text-white p-2 rounded-full shadow-lg">
@@ -575,7 +911,91 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                         )}
                     </div>
                     
-                    <div className="p-6 border-t border-slate-100 flex justify-between items-center bg-white">
+                    {platformWarnings.length > 0 && (
+                        <div className="px-6 pt-4 bg-white border-t border-slate-100">
+                            <div className="bg-amber-50 text-amber-700 rounded-xl px-4 py-3 text-xs space-y-1">
+                                {platformWarnings.map(warning => (
+                                    <div key={warning} className="flex items-start gap-2">
+                                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" /> {warning}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className={`px-6 pt-4 bg-white ${platformWarnings.length > 0 ? '' : 'border-t border-slate-100'}`}>
+                        <ExportProfilePicker
+                            settings={profileSettings}
+                            onChange={updateProfileSettings}
+                            durationSec={estimatedDuration}
+                        />
+                    </div>
+
+                    <div className="px-6 pt-3 bg-white flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-bold text-slate-500 flex items-center gap-1 mr-1">
+                            <Volume2 size={16} /> 响度标准
+                        </span>
+                        {(Object.keys(LOUDNESS_PRESETS) as LoudnessPresetId[]).map(id => (
+                            <button
+                                key={id}
+                                onClick={() => setLoudnessPreset(id)}
+                                title={LOUDNESS_PRESETS[id].description}
+                                className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${loudnessPreset === id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+                            >
+                                {LOUDNESS_PRESETS[id].label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="px-6 pt-3 bg-white flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-bold text-slate-500 flex items-center gap-1 mr-1">
+                            <Captions size={16} /> 字幕
+                        </span>
+                        <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600 mr-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={burnSubtitles}
+                                onChange={(e) => setBurnSubtitles(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            烧录到画面
+                        </label>
+                        <span className="text-xs text-slate-400">下载字幕文件：</span>
+                        {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleDownloadSubtitles(format)}
+                                disabled={!!subtitleBusy}
+                                title={SUBTITLE_FORMATS[format].description}
+                                className="px-3 py-1.5 rounded-full text-xs font-bold border-2 border-slate-200 text-slate-500 hover:border-indigo-200 hover:text-indigo-600 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                {subtitleBusy === format ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                                {SUBTITLE_FORMATS[format].label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="px-6 pt-3 bg-white">
+                        <BrandKitPicker
+                            settings={brandSettings}
+                            onChange={updateBrandSettings}
+                            aspectRatio={story.aspectRatio}
+                            backdrop={story.scenes[0]?.imageData}
+                        />
+                    </div>
+
+                    <div className="px-6 pt-3 bg-white">
+                        <SubtitleStylePicker
+                            style={story.subtitleStyle}
+                            onChange={(subtitleStyle) => onStoryChange?.({ ...story, subtitleStyle })}
+                            aspectRatio={story.aspectRatio}
+                            backdrop={story.scenes[0]?.imageData}
+                            sampleText={story.scenes[0]?.narration || story.title}
+                            safeArea={exportSafeArea}
+                        />
+                    </div>
+
+                    <div className="p-6 flex justify-between items-center bg-white">
                         <button 
                             onClick={handleRegenerateCovers}
                             disabled={isGeneratingCovers}
@@ -637,28 +1057,16 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           )}
       </AnimatePresence>
 
-      {/* Published Success Modal */}
+      {/* Publishing Kit */}
       <AnimatePresence>
-        {publishedPlatform && (
-            <motion.div 
-                initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
-                exit={{ opacity: 0 }}
-                className="fixed inset-0 z-[60] flex items-center justify-center pointer-events-none"
-            >
-                <div className="bg-white p-6 rounded-2xl shadow-2xl border-2 border-green-500 flex flex-col items-center gap-4 pointer-events-auto">
-                    <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center text-green-600">
-                        <CheckCircle size={32} />
-                    </div>
-                    <h3 className="text-xl font-bold text-slate-800">视频已生成!</h3>
-                    <p className="text-slate-500 text-center max-w-xs">
-                        视频已保存到你的设备。你可以直接打开 
-                        <strong className="text-slate-800 mx-1">{publishedPlatform}</strong> 
-                        上传刚刚下载的视频。
-                    </p>
-                    <Button onClick={() => setPublishedPlatform(null)} size="sm">我知道了</Button>
-                </div>
-            </motion.div>
+        {published && (
+            <PublishKitDialog
+                platform={published.platform}
+                kit={published.kit}
+                onDownload={downloadBlob}
+                fileBaseName={videoBaseName}
+                onClose={() => setPublished(null)}
+            />
         )}
       </AnimatePresence>
 
@@ -676,7 +1084,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
              {!showTransitionPreview && (
                 <motion.div
                 key={`scene-${currentIndex}`}
-                initial={{ opacity: 0, scale: 1.1 }}
+                initial={canvasTransition ? false : { opacity: 0, scale: 1.1 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0 }}
                 transition={{ duration: 0.5 }}
@@ -687,6 +1095,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                             ref={videoRef}
                             src={currentScene.videoUrl} 
                             className="w-full h-full object-cover"
+                            style={cameraStyle}
                             loop
                             muted
                             playsInline
@@ -694,13 +1103,17 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                     ) : currentScene.imageData ? (
                         <img 
                         src={`data:image/png;base64,${currentScene.imageData}`} 
-                        alt={`Scene ${currentIndex + 1}`} 
+                        alt={`Scene ${safeIndex + 1}`} 
                         className="w-full h-full object-cover"
+                        style={cameraStyle}
                         />
                     ) : (
-                        <div className="flex items-center justify-center h-full text-slate-400 flex-col gap-2">
-                            <Loader2 className="animate-spin" />
-                            <div>正在绘制历史画面...</div>
+                        <div className="flex items-center justify-center h-full text-slate-400 flex-col gap-2 bg-gradient-to-br from-slate-800 to-slate-900">
+                            <ImageOff size={40} className="opacity-60" />
+                            <div className="font-bold">
+                                {currentStatus?.image === 'failed' ? '这一幕的画面生成失败了' : '这一幕的画面还没有生成'}
+                            </div>
+                            <div className="text-xs text-slate-500">回到首页可在“未完成的故事”中继续生成</div>
                         </div>
                     )}
                 </motion.div>
@@ -733,6 +1146,16 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                  </motion.div>
              )}
           </AnimatePresence>
+
+          {/* Canvas Transition */}
+          {canvasTransition && story.scenes[canvasTransition.from + 1] && (
+             <TransitionPreview
+                 key={`canvas-transition-${canvasTransition.from}`}
+                 story={story}
+                 fromIndex={canvasTransition.from}
+                 onDone={() => setCanvasTransition(null)}
+             />
+          )}
           
           {/* Veo Controls Overlay - Bottom Right */}
           {!isExporting && !showTransitionPreview && !isBatchGenerating && (
@@ -764,6 +1187,17 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                     </button>
                 )}
 
+                {/* Camera Motion */}
+                {canEdit && currentScene.imageData && (
+                    <button
+                        onClick={() => setShowCameraEditor(true)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-full shadow-lg backdrop-blur-md bg-white/20 text-white hover:bg-white/30 border border-white/30"
+                    >
+                        <Move size={16} />
+                        <span>镜头运动</span>
+                    </button>
+                )}
+
                 {/* 2. Magic Transition to Next Scene */}
                 {nextScene && (
                     <div className="flex items-center gap-2">
@@ -776,6 +1210,15 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                                  <span>预览转场</span>
                              </button>
                         ) : (
+                            <>
+                            <button
+                                onClick={() => setCanvasTransition({ from: safeIndex })}
+                                disabled={!!canvasTransition}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full shadow-lg backdrop-blur-md bg-white/20 text-white hover:bg-white/30 border border-white/30"
+                            >
+                                <Eye size={16} />
+                                <span>预览转场</span>
+                            </button>
                             <button
                                 onClick={handleGenerateTransition}
                                 disabled={isTransitionLoading}
@@ -798,6 +1241,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                                     </>
                                 )}
                             </button>
+                            </>
                         )}
                     </div>
                 )}
@@ -812,7 +1256,7 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
 
           {/* Scene Indicator */}
           <div className="absolute top-4 right-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm font-bold backdrop-blur-md z-20">
-            场景 {currentIndex + 1} / {story.scenes.length}
+            场景 {safeIndex + 1} / {story.scenes.length}
           </div>
 
           {/* Loading Overlay (Export / Batch) */}
@@ -856,16 +1300,39 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
           <div className="flex items-start gap-4">
             <button 
               onClick={togglePlay}
+              disabled={!currentScene.audioData}
+              title={currentScene.audioData ? undefined : (currentStatus?.audio === 'failed' ? '旁白生成失败' : '旁白尚未生成')}
               className={`flex-shrink-0 w-12 h-12 rounded-full flex items-center justify-center shadow-lg transition-transform active:scale-95
-                ${isPlaying ? 'bg-rose-500 text-white' : 'bg-amber-400 text-white hover:bg-amber-500'}`}
+                ${!currentScene.audioData ? 'bg-slate-300 text-slate-500 cursor-not-allowed' : isPlaying ? 'bg-rose-500 text-white' : 'bg-amber-400 text-white hover:bg-amber-500'}`}
             >
-              {isPlaying ? <Pause size={24} /> : <Volume2 size={24} />}
+              {!currentScene.audioData ? <VolumeX size={24} /> : isPlaying ? <Pause size={24} /> : <Volume2 size={24} />}
             </button>
             
             <div className="flex-1 overflow-y-auto max-h-[100px] md:max-h-none pr-2 scrollbar-thin">
                <p className="text-base md:text-xl leading-relaxed font-medium font-serif">
-                 {currentScene.narration}
+                 {activePhrase === -1 ? currentScene.narration : phrases.map((phrase, i) => {
+                   if (i !== activePhrase) {
+                     return <span key={i} className={i < activePhrase ? (isImmersive ? 'text-amber-300' : 'text-amber-600') : ''}>{phrase.text}</span>;
+                   }
+                   const spoken = spokenCharCount(phrase, playhead!);
+                   const chars = Array.from(phrase.text);
+                   return (
+                     <span key={i} ref={activePhraseRef} className={`rounded px-0.5 ${isImmersive ? 'bg-white/10' : 'bg-amber-100'}`}>
+                       <span className={isImmersive ? 'text-amber-300' : 'text-amber-600'}>{chars.slice(0, spoken).join('')}</span>
+                       {chars.slice(spoken).join('')}
+                     </span>
+                   );
+                 })}
                </p>
+               {sceneClaims.length > 0 && (
+                 <button onClick={() => setShowFactCheck(true)} className="flex flex-wrap gap-1.5 mt-2" title="查看史实小贴士">
+                   {sceneClaims.map((claim, i) => (
+                     <span key={i} className={`px-2 py-0.5 rounded-full text-xs font-bold ${CLAIM_KIND_META[claim.kind].className}`}>
+                       {CLAIM_KIND_META[claim.kind].label}
+                     </span>
+                   ))}
+                 </button>
+               )}
             </div>
           </div>
           
@@ -881,15 +1348,27 @@ export const StoryPlayer: React.FC<StoryPlayerProps> = ({ story, onBack, isImmer
                 <ChevronLeft size={16} /> 上一页
             </Button>
             
-            <Button 
-                onClick={handleNext} 
-                disabled={currentIndex === story.scenes.length - 1}
-                variant="primary"
-                size="sm"
-                className={currentIndex === story.scenes.length - 1 ? 'invisible' : ''}
-            >
-                下一页 <ChevronRight size={16} />
-            </Button>
+            {isLastScene && (story.quiz?.length || canEdit) ? (
+                <Button 
+                    onClick={handleOpenQuiz} 
+                    loading={isQuizLoading}
+                    variant="primary"
+                    size="sm"
+                >
+                    {!isQuizLoading && <HelpCircle size={16} />}
+                    {story.quiz?.length ? '开始小测验' : '生成小测验'}
+                </Button>
+            ) : (
+                <Button 
+                    onClick={handleNext} 
+                    disabled={isLastScene}
+                    variant="primary"
+                    size="sm"
+                    className={isLastScene ? 'invisible' : ''}
+                >
+                    下一页 <ChevronRight size={16} />
+                </Button>
+            )}
             </div>
         </motion.div>
 
@@ -0,0 +1,187 @@
+import React from 'react';
+import { QuizAttempt, Story } from '../types';
+import { CheckCircle, XCircle, ArrowRight, RotateCcw, Trophy, Eye, X, HelpCircle } from 'lucide-react';
+import { Button } from './Button';
+import { motion } from 'framer-motion';
+
+/** Progress through one run of the quiz; kept by the player so reviewing a scene doesn't lose it. */
+export interface QuizSession {
+  index: number;
+  answers: (number | null)[];
+  finished: boolean;
+}
+
+export const startQuizSession = (questionCount: number): QuizSession => ({
+  index: 0,
+  answers: Array(questionCount).fill(null),
+  finished: false,
+});
+
+interface StoryQuizProps {
+  story: Story;
+  session: QuizSession;
+  onSessionChange: (session: QuizSession) => void;
+  /** Jumps back to the scene (by index) that answers a question. */
+  onReviewScene: (sceneIndex: number) => void;
+  onComplete: (attempt: QuizAttempt) => void;
+  onClose: () => void;
+}
+
+const scoreMessage = (score: number, total: number) => {
+  if (score === total) return '全部答对，你就是历史小达人！';
+  if (score >= total * 0.6) return '真棒！大部分都记住了。';
+  return '没关系，回去再看看故事，下次一定更厉害！';
+};
+
+export const StoryQuiz: React.FC<StoryQuizProps> = ({ story, session, onSessionChange, onReviewScene, onComplete, onClose }) => {
+  const questions = story.quiz || [];
+  const sceneIndexOf = (sceneId: number) => story.scenes.findIndex(s => s.id === sceneId);
+  const bestScore = Math.max(0, ...(story.quizResults || []).map(r => r.score));
+
+  const choose = (option: number) => {
+    if (session.answers[session.index] !== null) return;
+    const answers = [...session.answers];
+    answers[session.index] = option;
+    onSessionChange({ ...session, answers });
+  };
+
+  const next = () => {
+    if (session.index < questions.length - 1) {
+      onSessionChange({ ...session, index: session.index + 1 });
+      return;
+    }
+    const answers = session.answers.map(a => a ?? -1);
+    onComplete({
+      answers,
+      score: questions.filter((q, i) => answers[i] === q.answerIndex).length,
+      total: questions.length,
+      completedAt: Date.now(),
+    });
+    onSessionChange({ ...session, finished: true });
+  };
+
+  const reviewLink = (sceneId: number) => {
+    const sceneIndex = sceneIndexOf(sceneId);
+    if (sceneIndex === -1) return null;
+    return (
+      <button
+        onClick={() => onReviewScene(sceneIndex)}
+        className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+      >
+        <Eye size={14} /> 回到场景 {sceneIndex + 1} 看看
+      </button>
+    );
+  };
+
+  const question = questions[session.index];
+  const chosen = session.answers[session.index];
+  const score = questions.filter((q, i) => session.answers[i] === q.answerIndex).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white text-slate-800 rounded-3xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-2xl font-bold flex items-center gap-2">
+            <HelpCircle className="text-amber-500" /> 故事小测验
+          </h3>
+          <div className="flex items-center gap-3">
+            {!session.finished && (
+              <span className="text-sm font-bold text-slate-400">{session.index + 1} / {questions.length}</span>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+              <X size={24} className="text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {session.finished ? (
+            <div className="flex flex-col items-center gap-4">
+              <div className="w-20 h-20 bg-amber-100 rounded-full flex items-center justify-center text-amber-500">
+                <Trophy size={40} />
+              </div>
+              <div className="text-4xl font-black">{score} / {questions.length}</div>
+              <p className="text-slate-500">{scoreMessage(score, questions.length)}</p>
+              {bestScore > 0 && <p className="text-xs text-slate-400">历史最好成绩 {bestScore} / {questions.length}</p>}
+
+              <div className="w-full space-y-2 mt-2">
+                {questions.map((q, i) => {
+                  const correct = session.answers[i] === q.answerIndex;
+                  return (
+                    <div key={q.id} className="flex items-start gap-3 p-3 rounded-xl bg-slate-50">
+                      {correct
+                        ? <CheckCircle size={18} className="text-emerald-500 flex-shrink-0 mt-0.5" />
+                        : <XCircle size={18} className="text-red-400 flex-shrink-0 mt-0.5" />}
+                      <div className="flex-1 text-sm">
+                        <div className="font-medium">{q.question}</div>
+                        {!correct && (
+                          <div className="text-xs text-slate-500 mt-1">正确答案：{q.options[q.answerIndex]}</div>
+                        )}
+                      </div>
+                      {!correct && reviewLink(q.sceneId)}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : question && (
+            <div className="flex flex-col gap-4">
+              <p className="text-xl font-bold leading-relaxed">{question.question}</p>
+              <div className={`grid gap-3 ${question.type === 'trueFalse' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {question.options.map((option, i) => {
+                  const answered = chosen !== null;
+                  const isAnswer = i === question.answerIndex;
+                  const isChosen = i === chosen;
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => choose(i)}
+                      disabled={answered}
+                      className={`p-4 rounded-2xl border-2 text-left font-bold transition-all ${
+                        !answered ? 'border-slate-200 hover:border-amber-300 hover:bg-amber-50'
+                        : isAnswer ? 'border-emerald-400 bg-emerald-50 text-emerald-700'
+                        : isChosen ? 'border-red-300 bg-red-50 text-red-600'
+                        : 'border-slate-100 text-slate-400'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {chosen !== null && (
+                <div className={`rounded-2xl p-4 ${chosen === question.answerIndex ? 'bg-emerald-50' : 'bg-amber-50'}`}>
+                  <div className="font-bold mb-1">{chosen === question.answerIndex ? '答对啦！' : '差一点点～'}</div>
+                  <p className="text-sm text-slate-600 mb-2">{question.explanation}</p>
+                  {reviewLink(question.sceneId)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          {session.finished ? (
+            <Button onClick={() => onSessionChange(startQuizSession(questions.length))} variant="secondary">
+              <RotateCcw size={18} /> 再测一次
+            </Button>
+          ) : (
+            <Button onClick={next} disabled={chosen === null}>
+              {session.index < questions.length - 1 ? '下一题' : '看成绩'} <ArrowRight size={18} />
+            </Button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
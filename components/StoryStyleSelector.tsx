@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { AudienceAge, NarrationLength, NarratorPersona, StoryStyle, TonePreset } from '../types';
+import {
+  AUDIENCE_META, NARRATION_LENGTH_META, PERSONA_META, STYLE_PRESETS, TONE_META,
+  MAX_SCENE_COUNT, MIN_SCENE_COUNT, clampSceneCount, narrationCharLimit
+} from '../services/storyStyle';
+import { Palette, ChevronDown } from 'lucide-react';
+
+interface StoryStyleSelectorProps {
+  style: StoryStyle;
+  onChange: (style: StoryStyle) => void;
+}
+
+const sameStyle = (a: StoryStyle, b: StoryStyle) =>
+  a.audience === b.audience &&
+  a.tone === b.tone &&
+  a.persona === b.persona &&
+  a.sceneCount === b.sceneCount &&
+  a.narrationLength === b.narrationLength &&
+  (a.targetDurationSec || 0) === (b.targetDurationSec || 0);
+
+interface OptionRowProps<T extends string> {
+  label: string;
+  options: Record<T, { label: string }>;
+  value: T;
+  onSelect: (value: T) => void;
+}
+
+const OptionRow = <T extends string,>({ label, options, value, onSelect }: OptionRowProps<T>) => (
+  <div className="flex flex-col gap-1.5">
+    <span className="text-xs font-bold text-slate-400">{label}</span>
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(options) as T[]).map(key => (
+        <button
+          key={key}
+          onClick={() => onSelect(key)}
+          className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+            value === key ? 'bg-indigo-500 text-white shadow-sm' : 'bg-white text-slate-500 border border-slate-200 hover:border-indigo-200'
+          }`}
+        >
+          {options[key].label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const StoryStyleSelector: React.FC<StoryStyleSelectorProps> = ({ style, onChange }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const update = (patch: Partial<StoryStyle>) => onChange({ ...style, ...patch });
+
+  // Clamped only once typing is done, so two-digit counts can be entered
+  const setSceneCount = (input: HTMLInputElement) => {
+    const sceneCount = clampSceneCount(Number(input.value));
+    input.value = String(sceneCount);
+    if (sceneCount !== style.sceneCount) update({ sceneCount });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+        <Palette size={16} />
+        故事风格
+      </label>
+
+      <div className="flex flex-wrap gap-2">
+        {STYLE_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.style)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold border-2 transition-all ${
+              sameStyle(style, preset.style)
+                ? 'bg-indigo-50 border-indigo-500 text-indigo-700 shadow-md'
+                : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-200'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1"
+        >
+          自定义
+          <ChevronDown size={14} className={`transition-transform ${showDetails ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {showDetails && (
+        <div className="bg-slate-50 rounded-2xl p-4 border border-slate-100 flex flex-col gap-4">
+          <OptionRow<AudienceAge> label="听众年龄" options={AUDIENCE_META} value={style.audience} onSelect={audience => update({ audience })} />
+          <OptionRow<TonePreset> label="语气" options={TONE_META} value={style.tone} onSelect={tone => update({ tone })} />
+          <OptionRow<NarratorPersona> label="讲述者" options={PERSONA_META} value={style.persona} onSelect={persona => update({ persona })} />
+          <OptionRow<NarrationLength> label="每幕旁白长度" options={NARRATION_LENGTH_META} value={style.narrationLength} onSelect={narrationLength => update({ narrationLength })} />
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex flex-col gap-1.5 text-xs font-bold text-slate-400">
+              场景数量
+              <input
+                type="number"
+                min={MIN_SCENE_COUNT}
+                max={MAX_SCENE_COUNT}
+                key={style.sceneCount}
+                defaultValue={style.sceneCount}
+                onBlur={(e) => setSceneCount(e.currentTarget)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-20 px-2 py-1.5 rounded-lg border border-slate-200 text-slate-700"
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs font-bold text-slate-400">
+              目标时长 (秒，可选)
+              <input
+                type="number"
+                min={0}
+                step={10}
+                value={style.targetDurationSec || ''}
+                placeholder="不限"
+                onChange={(e) => update({ targetDurationSec: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                className="w-24 px-2 py-1.5 rounded-lg border border-slate-200 text-slate-700"
+              />
+            </label>
+          </div>
+
+          <div className="text-xs text-slate-400">
+            共 {style.sceneCount} 幕，每幕旁白不超过 {narrationCharLimit(style)} 字
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef } from 'react';
+import { AspectRatio, SafeArea, SubtitlePosition, SubtitleSize, SubtitleStyle, SubtitleThemeId } from '../types';
+import {
+  DEFAULT_SUBTITLE_STYLE, MAX_SUBTITLE_OUTLINE, SUBTITLE_MAX_LINES, SUBTITLE_POSITIONS, SUBTITLE_SIZES, SUBTITLE_THEMES,
+  drawSubtitles, loadSubtitleFont, subtitlePageChars
+} from '../services/subtitleRenderer';
+import { drawAsset } from '../services/frameDrawing';
+import { Type } from 'lucide-react';
+
+interface SubtitleStylePickerProps {
+  style?: SubtitleStyle;
+  onChange: (style: SubtitleStyle) => void;
+  aspectRatio: AspectRatio;
+  /** Base64 picture the preview subtitles are drawn over. */
+  backdrop?: string;
+  /** Narration the preview shows; cut to one subtitle screen. */
+  sampleText: string;
+  safeArea?: SafeArea;
+}
+
+// Preview canvas size; subtitle sizes scale with the frame, so any size looks like the export
+const PREVIEW_WIDTH = 640;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+/** Theme and layout of burned-in subtitles, with a preview drawn by the video renderer's own code. */
+export const SubtitleStylePicker: React.FC<SubtitleStylePickerProps> = ({ style = DEFAULT_SUBTITLE_STYLE, onChange, aspectRatio, backdrop, sampleText, safeArea }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const isVertical = aspectRatio === '9:16';
+
+  const update = (changes: Partial<SubtitleStyle>) => onChange({ ...style, ...changes });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+    const w = PREVIEW_WIDTH;
+    const h = isVertical ? Math.round(w * 16 / 9) : Math.round(w * 9 / 16);
+    canvas.width = w;
+    canvas.height = h;
+
+    const text = Array.from(sampleText.replace(/\s+/g, '')).slice(0, subtitlePageChars(w, h, safeArea, style)).join('');
+    // Halfway through, so the spoken highlight shows too
+    const page = { phrases: [{ text, start: 0, end: 1 }], start: 0, end: 1 };
+
+    const draw = (img?: HTMLImageElement) => {
+      if (cancelled) return;
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#1e293b';
+      ctx.fillRect(0, 0, w, h);
+      if (img) drawAsset(ctx, img, w, h, 1);
+      drawSubtitles(ctx, page, 0.5, w, h, 1, safeArea, style);
+    };
+
+    loadSubtitleFont(style, text).then(() => {
+      if (!backdrop) return draw();
+      const img = new Image();
+      img.onload = () => draw(img);
+      img.onerror = () => draw();
+      img.src = `data:image/png;base64,${backdrop}`;
+    });
+
+    return () => { cancelled = true; };
+  }, [style, backdrop, sampleText, safeArea, isVertical]);
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      <canvas
+        ref={canvasRef}
+        className={`rounded-xl bg-slate-800 shadow-inner ${isVertical ? 'h-56' : 'w-72'}`}
+      />
+      <div className="flex-1 min-w-[240px] space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-slate-500 w-10 flex items-center gap-1"><Type size={12} /> 主题</span>
+          {(Object.keys(SUBTITLE_THEMES) as SubtitleThemeId[]).map(id => (
+            <button
+              key={id}
+              // Each theme brings its own outline width; it can be adjusted afterwards
+              onClick={() => update({ theme: id, outline: SUBTITLE_THEMES[id].outline })}
+              className={chipClass(style.theme === id)}
+            >
+              {SUBTITLE_THEMES[id].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-slate-500 w-10">位置</span>
+          {(Object.keys(SUBTITLE_POSITIONS) as SubtitlePosition[]).map(id => (
+            <button key={id} onClick={() => update({ position: id })} className={chipClass(style.position === id)}>
+              {SUBTITLE_POSITIONS[id].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-slate-500 w-10">字号</span>
+          {(Object.keys(SUBTITLE_SIZES) as SubtitleSize[]).map(id => (
+            <button key={id} onClick={() => update({ size: id })} className={chipClass(style.size === id)}>
+              {SUBTITLE_SIZES[id].label}
+            </button>
+          ))}
+          <span className="w-px h-5 bg-slate-200 mx-1" />
+          {SUBTITLE_MAX_LINES.map(lines => (
+            <button key={lines} onClick={() => update({ maxLines: lines })} className={chipClass(style.maxLines === lines)}>
+              最多 {lines} 行
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <span className="font-bold text-slate-500 w-10">描边</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_SUBTITLE_OUTLINE}
+            step={0.5}
+            value={style.outline}
+            onChange={(e) => update({ outline: Number(e.target.value) })}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="font-bold text-slate-600 w-10">{style.outline ? `${style.outline}px` : '无'}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
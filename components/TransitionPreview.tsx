@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { Story } from '../types';
+import { drawTransition, sceneTransition, transitionProgress } from '../services/transitions';
+import { cameraPath } from '../services/cameraMotion';
+
+interface TransitionPreviewProps {
+  story: Story;
+  /** Plays the transition from this scene to the next. */
+  fromIndex: number;
+  onDone: () => void;
+}
+
+const loadImage = (b64?: string) => new Promise<HTMLImageElement | HTMLCanvasElement>(resolve => {
+  const blank = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    return canvas;
+  };
+  if (!b64) return resolve(blank());
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(blank());
+  img.src = `data:image/png;base64,${b64}`;
+});
+
+/** Plays a scene change on a canvas with the same drawing the video export uses. */
+export const TransitionPreview: React.FC<TransitionPreviewProps> = ({ story, fromIndex, onDone }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    let frame = 0;
+    let cancelled = false;
+    const fromScene = story.scenes[fromIndex];
+    const toScene = story.scenes[fromIndex + 1];
+    const transition = sceneTransition(story, fromIndex);
+    // Each picture where its camera move ends or starts, as in the export
+    const fromFraming = cameraPath(fromScene, fromIndex, !!fromScene.videoUrl).end;
+    const toFraming = cameraPath(toScene, fromIndex + 1, !!toScene.videoUrl).start;
+
+    Promise.all([loadImage(fromScene.imageData), loadImage(toScene.imageData)]).then(([from, to]) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * dpr);
+      canvas.height = Math.round(canvas.clientHeight * dpr);
+      const ctx = canvas.getContext('2d')!;
+      const start = performance.now();
+
+      const tick = (now: number) => {
+        const elapsed = (now - start) / 1000;
+        drawTransition(
+          ctx, transition.effect, from, to, canvas.width, canvas.height,
+          transitionProgress(transition, elapsed), fromFraming, toFraming
+        );
+        if (elapsed >= transition.duration) {
+          onDoneRef.current();
+          return;
+        }
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [story, fromIndex]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full z-20 bg-black" />;
+};
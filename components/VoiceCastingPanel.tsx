@@ -0,0 +1,43 @@
+import React from 'react';
+import { StoryBible, VoiceCast, VoiceName } from '../types';
+import { VOICE_META } from './VoiceSelector';
+import { Users } from 'lucide-react';
+
+interface VoiceCastingPanelProps {
+  characters: string[];
+  bible?: StoryBible;
+  narratorVoice: VoiceName;
+  cast: VoiceCast;
+  onChange: (cast: VoiceCast) => void;
+}
+
+export const VoiceCastingPanel: React.FC<VoiceCastingPanelProps> = ({ characters, bible, narratorVoice, cast, onChange }) => (
+  <div className="flex flex-col gap-3">
+    <div className="flex items-center gap-2 text-sm font-bold text-slate-500">
+      <Users size={16} /> 角色配音
+      <span className="text-xs font-normal text-slate-400">旁白：{VOICE_META[narratorVoice].label}</span>
+    </div>
+    {characters.map(name => {
+      const profile = bible?.characters.find(c => c.name === name);
+      return (
+        <div key={name} className="flex items-center gap-3 bg-white rounded-xl p-3 border border-slate-100">
+          <div className="flex-1 min-w-0">
+            <div className="font-bold text-slate-700">{name}</div>
+            {profile && <div className="text-xs text-slate-400 truncate">{profile.appearance}</div>}
+          </div>
+          <select
+            value={cast[name] || narratorVoice}
+            onChange={(e) => onChange({ ...cast, [name]: e.target.value as VoiceName })}
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 bg-white"
+          >
+            {Object.values(VoiceName).map(voice => (
+              <option key={voice} value={voice}>
+                {VOICE_META[voice].label}{voice === narratorVoice ? '（同旁白）' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+    })}
+  </div>
+);
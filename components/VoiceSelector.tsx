@@ -9,7 +9,7 @@ interface VoiceSelectorProps {
   onSelect: (voice: VoiceName) => void;
 }
 
-const VOICE_META: Record<VoiceName, { label: string; desc: string; sample: string }> = {
+export const VOICE_META: Record<VoiceName, { label: string; desc: string; sample: string }> = {
   [VoiceName.Puck]: { label: "活泼调皮", desc: "像个淘气的小伙伴", sample: "嘿！我是Puck，我们去冒险吧！" },
   [VoiceName.Aoede]: { label: "甜美姐姐", desc: "温柔亲切的故事姐姐", sample: "小朋友你好，我是Aoede姐姐。" },
   [VoiceName.Kore]: { label: "知心阿姨", desc: "温暖治愈的声音", sample: "你好呀，让我给你讲个故事吧。" },
@@ -0,0 +1,240 @@
+/**
+ * Writers for the metadata and containers used by audio exports: WAV chapter and
+ * info chunks, ID3v2.4 tags with chapters and artwork, and Ogg pages for Opus.
+ */
+
+export interface AudioChapter {
+  title: string;
+  /** Seconds. */
+  start: number;
+  end: number;
+}
+
+export interface AudioMetadata {
+  title: string;
+  artist: string;
+  chapters: AudioChapter[];
+  /** JPEG bytes for the cover artwork. */
+  cover?: Uint8Array;
+  coverSize?: { width: number; height: number };
+}
+
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const u32be = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+const u32le = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24]);
+const ascii = (text: string) => new Uint8Array(Array.from(text, c => c.charCodeAt(0)));
+
+// --- WAV ---
+
+/** A RIFF chunk, padded to an even length as RIFF requires. */
+const riffChunk = (id: string, body: Uint8Array) =>
+  concat([ascii(id), u32le(body.length), body, body.length % 2 ? new Uint8Array(1) : new Uint8Array(0)]);
+
+/**
+ * Chunks to append after a WAV's data chunk: cue points with labels for the chapters
+ * (read by most audio editors), INFO tags, and an ID3 tag for players that look for one.
+ */
+export const wavMetadataChunks = (metadata: AudioMetadata, sampleRate: number): Uint8Array[] => {
+  const { chapters } = metadata;
+  const cuePoints = chapters.map((chapter, i) => {
+    const position = Math.round(chapter.start * sampleRate);
+    return concat([u32le(i + 1), u32le(position), ascii('data'), u32le(0), u32le(0), u32le(position)]);
+  });
+  const labels = chapters.map((chapter, i) =>
+    riffChunk('labl', concat([u32le(i + 1), textEncoder.encode(chapter.title), new Uint8Array(1)])));
+  const info = [['INAM', metadata.title], ['IART', metadata.artist]].map(([id, text]) =>
+    riffChunk(id, concat([textEncoder.encode(text), new Uint8Array(1)])));
+
+  return [
+    riffChunk('cue ', concat([u32le(chapters.length), ...cuePoints])),
+    riffChunk('LIST', concat([ascii('adtl'), ...labels])),
+    riffChunk('LIST', concat([ascii('INFO'), ...info])),
+    riffChunk('id3 ', id3Tag(metadata)),
+  ];
+};
+
+// --- ID3v2.4 ---
+
+const syncsafe = (value: number) =>
+  new Uint8Array([(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f]);
+
+const id3Frame = (id: string, body: Uint8Array) => concat([ascii(id), syncsafe(body.length), new Uint8Array(2), body]);
+
+// Encoding byte 3 = UTF-8
+const id3Text = (id: string, text: string) => id3Frame(id, concat([new Uint8Array([3]), textEncoder.encode(text)]));
+
+const cString = (text: string) => concat([textEncoder.encode(text), new Uint8Array(1)]);
+
+/** ID3v2.4 tag with title, artist, front cover and one CHAP frame per chapter plus a table of contents. */
+export const id3Tag = (metadata: AudioMetadata) => {
+  const frames = [id3Text('TIT2', metadata.title), id3Text('TPE1', metadata.artist)];
+
+  if (metadata.cover) {
+    // UTF-8, MIME type, picture type 3 (front cover), empty description, image
+    frames.push(id3Frame('APIC', concat([new Uint8Array([3]), cString('image/jpeg'), new Uint8Array([3, 0]), metadata.cover])));
+  }
+
+  if (metadata.chapters.length > 0) {
+    const ids = metadata.chapters.map((_, i) => `ch${i}`);
+    frames.push(id3Frame('CTOC', concat([
+      cString('toc'),
+      new Uint8Array([0x03, ids.length]), // top-level, ordered
+      ...ids.map(cString),
+    ])));
+    metadata.chapters.forEach((chapter, i) => {
+      frames.push(id3Frame('CHAP', concat([
+        cString(ids[i]),
+        u32be(Math.round(chapter.start * 1000)),
+        u32be(Math.round(chapter.end * 1000)),
+        u32be(0xffffffff), // no byte offsets
+        u32be(0xffffffff),
+        id3Text('TIT2', chapter.title),
+      ])));
+    });
+  }
+
+  const body = concat(frames);
+  return concat([ascii('ID3'), new Uint8Array([4, 0, 0]), syncsafe(body.length), body]);
+};
+
+// --- Ogg Opus ---
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+/** Opus timestamps in Ogg always count 48 kHz samples, whatever the input rate. */
+export const OPUS_GRANULE_RATE = 48000;
+// libopus's usual encoder delay, trimmed by decoders
+export const OPUS_PRE_SKIP = 312;
+
+export interface OggPacket {
+  data: Uint8Array;
+  /** Granule position once this packet is complete. */
+  granule: number;
+  /** End the page after this packet (required after each header packet). */
+  flush?: boolean;
+}
+
+/** Lays packets out in Ogg pages for a single logical stream. */
+export const muxOgg = (packets: OggPacket[]): Uint8Array => {
+  const serial = Math.floor(Math.random() * 0xffffffff) >>> 0;
+  const pages: Uint8Array[] = [];
+  let lacing: number[] = [];
+  let body: Uint8Array[] = [];
+  let granule = -1;
+  let continued = false;
+  let sequence = 0;
+
+  const writePage = (last: boolean) => {
+    const data = concat(body);
+    const page = new Uint8Array(27 + lacing.length + data.length);
+    const view = new DataView(page.buffer);
+    page.set(ascii('OggS'), 0);
+    page[5] = (continued ? 0x01 : 0) | (sequence === 0 ? 0x02 : 0) | (last ? 0x04 : 0);
+    // -1 means no packet finishes on this page
+    view.setUint32(6, granule < 0 ? 0xffffffff : granule % 0x100000000, true);
+    view.setUint32(10, granule < 0 ? 0xffffffff : Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence++, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    page.set(data, 27 + lacing.length);
+    view.setUint32(22, oggCrc(page), true);
+    pages.push(page);
+    lacing = [];
+    body = [];
+    granule = -1;
+    continued = false;
+  };
+
+  packets.forEach((packet, index) => {
+    let offset = 0;
+    // A packet is a run of 255-byte segments ended by a shorter one (possibly empty)
+    while (true) {
+      if (lacing.length === 255) {
+        writePage(false);
+        // The next page starts partway through this packet
+        continued = offset > 0;
+      }
+      const size = Math.min(255, packet.data.length - offset);
+      lacing.push(size);
+      body.push(packet.data.subarray(offset, offset + size));
+      offset += size;
+      if (size < 255) break;
+    }
+    granule = packet.granule;
+    const last = index === packets.length - 1;
+    if (packet.flush || last) writePage(last);
+  });
+
+  return concat(pages);
+};
+
+export const opusHead = (inputSampleRate: number, channels: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  head[8] = 1;
+  head[9] = channels;
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+};
+
+const vorbisTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, size = 2) => String(n).padStart(size, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+const base64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/** OpusTags with Vorbis-comment chapters (CHAPTERxxx) and the cover as a FLAC picture block. */
+export const opusTags = (metadata: AudioMetadata) => {
+  const comments = [`TITLE=${metadata.title}`, `ARTIST=${metadata.artist}`];
+  metadata.chapters.forEach((chapter, i) => {
+    const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    comments.push(`${key}=${vorbisTime(chapter.start)}`, `${key}NAME=${chapter.title}`);
+  });
+  if (metadata.cover) {
+    const mime = ascii('image/jpeg');
+    const picture = concat([
+      u32be(3), u32be(mime.length), mime, u32be(0),
+      u32be(metadata.coverSize?.width || 0), u32be(metadata.coverSize?.height || 0), u32be(24), u32be(0),
+      u32be(metadata.cover.length), metadata.cover,
+    ]);
+    comments.push(`METADATA_BLOCK_PICTURE=${base64(picture)}`);
+  }
+
+  const vendor = textEncoder.encode('历史小诸葛');
+  const encoded = comments.map(c => textEncoder.encode(c));
+  return concat([
+    ascii('OpusTags'), u32le(vendor.length), vendor, u32le(encoded.length),
+    ...encoded.flatMap(c => [u32le(c.length), c]),
+  ]);
+};
@@ -0,0 +1,412 @@
+import { MusicTrackId, Scene, SoundEffectId, Story, StoryStyle, TonePreset } from '../types';
+import { dbToGain } from './loudness';
+
+/**
+ * Mixing graph shared by the player and the video export: narration, a looping music
+ * bed that ducks under it, and one-shot sound effects, all into one master gain.
+ *
+ * The music beds and effects are synthesised here rather than shipped as files, so
+ * they are royalty-free, work offline and sound the same at any sample rate.
+ */
+
+interface TrackSpec {
+  label: string;
+  bpm: number;
+  beats: number;
+  /** [beat, MIDI note, length in beats] */
+  plucks?: [number, number, number][];
+  /** [beat, MIDI notes, length in beats] */
+  pads?: [number, number[], number][];
+  drums?: number[];
+}
+
+const TRACKS: Record<Exclude<MusicTrackId, 'none'>, TrackSpec> = {
+  guqin: {
+    label: '古风琴韵',
+    bpm: 72,
+    beats: 16,
+    plucks: [
+      [0, 74, 2], [2, 71, 1], [3, 69, 1], [4, 66, 2], [6, 69, 2],
+      [8, 71, 1.5], [9.5, 69, 0.5], [10, 66, 1], [11, 64, 1], [12, 62, 4],
+      [0, 50, 4], [4, 45, 4], [8, 47, 4], [12, 50, 4],
+    ],
+  },
+  playful: {
+    label: '俏皮轻快',
+    bpm: 112,
+    beats: 16,
+    plucks: [
+      [0, 72, 0.5], [1, 76, 0.5], [2, 79, 0.5], [3, 76, 0.5], [4, 77, 0.5], [5, 74, 0.5], [6, 71, 1],
+      [8, 72, 0.5], [9, 76, 0.5], [10, 79, 0.5], [11, 84, 0.5], [12, 79, 1], [14, 72, 1],
+      [0, 48, 1], [2, 43, 1], [4, 41, 1], [6, 43, 1], [8, 48, 1], [10, 43, 1], [12, 41, 1], [14, 43, 1],
+    ],
+  },
+  lullaby: {
+    label: '温柔摇篮曲',
+    bpm: 60,
+    beats: 16,
+    pads: [[0, [60, 64, 67], 4], [4, [57, 60, 64], 4], [8, [53, 57, 60], 4], [12, [55, 59, 62], 4]],
+    plucks: [[0, 72, 2], [2, 71, 2], [4, 69, 4], [8, 65, 2], [10, 67, 2], [12, 67, 4]],
+  },
+  battle: {
+    label: '战鼓激昂',
+    bpm: 96,
+    beats: 16,
+    pads: [[0, [38, 45], 8], [8, [36, 43], 8]],
+    plucks: [[0, 50, 0.5], [0.5, 50, 0.5], [1, 53, 0.5], [2, 50, 0.5], [2.5, 50, 0.5], [3, 55, 0.5],
+      [8, 48, 0.5], [8.5, 48, 0.5], [9, 52, 0.5], [10, 48, 0.5], [10.5, 48, 0.5], [11, 53, 0.5]],
+    drums: [0, 1, 1.5, 2, 3, 4, 5, 5.5, 6, 7, 8, 9, 9.5, 10, 11, 12, 13, 13.5, 14, 14.5, 15, 15.5],
+  },
+};
+
+export const MUSIC_META: Record<MusicTrackId, { label: string }> = {
+  none: { label: '无音乐' },
+  guqin: { label: TRACKS.guqin.label },
+  playful: { label: TRACKS.playful.label },
+  lullaby: { label: TRACKS.lullaby.label },
+  battle: { label: TRACKS.battle.label },
+};
+
+export const SOUND_EFFECT_META: Record<SoundEffectId, { label: string }> = {
+  drum: { label: '战鼓' },
+  gong: { label: '锣声' },
+  bell: { label: '钟声' },
+  whoosh: { label: '嗖——' },
+  wind: { label: '风声' },
+  water: { label: '水声' },
+};
+
+const MUSIC_FOR_TONE: Record<TonePreset, MusicTrackId> = {
+  talkShow: 'playful',
+  bedtime: 'lullaby',
+  classroom: 'guqin',
+  adventure: 'battle',
+};
+
+/** Music bed a new story starts with, picked to suit its tone. */
+export const defaultMusicFor = (style: StoryStyle): MusicTrackId => MUSIC_FOR_TONE[style.tone];
+
+/** The scene's own choice if it has one, else the story's. */
+export const sceneMusic = (story: Story, scene: Scene): MusicTrackId => scene.music ?? story.music ?? 'none';
+
+// --- Synthesis ---
+
+const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Deterministic noise so every render of an effect is identical
+const noiseSource = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 2147483648 - 1;
+};
+
+/** Writes into `out`, wrapping past the end so notes ringing over the loop point continue at the start. */
+const addAt = (out: Float32Array, index: number, value: number) => {
+  out[index % out.length] += value;
+};
+
+const addPluck = (out: Float32Array, sampleRate: number, start: number, freq: number, seconds: number, gain: number) => {
+  const length = Math.round((seconds + 0.8) * sampleRate);
+  const offset = Math.round(start * sampleRate);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.min(1, t / 0.005) * Math.exp(-t * 3.5);
+    const w = 2 * Math.PI * freq * t;
+    const tone = Math.sin(w) + 0.4 * Math.sin(2 * w) * Math.exp(-t * 6) + 0.2 * Math.sin(3 * w) * Math.exp(-t * 10);
+    addAt(out, offset + i, tone * envelope * gain);
+  }
+};
+
+const addPad = (out: Float32Array, sampleRate: number, start: number, freq: number, seconds: number, gain: number) => {
+  const length = Math.round(seconds * sampleRate);
+  const offset = Math.round(start * sampleRate);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.pow(Math.sin(Math.PI * (i / length)), 2);
+    const tone = Math.sin(2 * Math.PI * freq * t) + Math.sin(2 * Math.PI * freq * 1.003 * t);
+    addAt(out, offset + i, tone * envelope * gain * 0.5);
+  }
+};
+
+const addDrum = (out: Float32Array, sampleRate: number, start: number, gain: number, noise: () => number) => {
+  const length = Math.round(0.5 * sampleRate);
+  const offset = Math.round(start * sampleRate);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * (50 + 70 * Math.exp(-t * 25))) / sampleRate;
+    const body = Math.sin(phase) * Math.exp(-t * 7);
+    const hit = noise() * Math.exp(-t * 40) * 0.3;
+    addAt(out, offset + i, (body + hit) * gain);
+  }
+};
+
+const renderTrack = (spec: TrackSpec, sampleRate: number) => {
+  const beatSec = 60 / spec.bpm;
+  const out = new Float32Array(Math.round(spec.beats * beatSec * sampleRate));
+  const noise = noiseSource(7);
+  spec.plucks?.forEach(([beat, note, beats]) => addPluck(out, sampleRate, beat * beatSec, midiToFreq(note), beats * beatSec, 0.25));
+  spec.pads?.forEach(([beat, notes, beats]) =>
+    notes.forEach(note => addPad(out, sampleRate, beat * beatSec, midiToFreq(note), beats * beatSec, 0.15)));
+  spec.drums?.forEach(beat => addDrum(out, sampleRate, beat * beatSec, 0.6, noise));
+  return out;
+};
+
+/** Noise through a one-pole low-pass whose cutoff follows `cutoff(t)` (0..1), shaped by `envelope(t)`. */
+const filteredNoise = (sampleRate: number, seconds: number, cutoff: (t: number) => number, envelope: (t: number) => number, seed: number) => {
+  const out = new Float32Array(Math.round(seconds * sampleRate));
+  const noise = noiseSource(seed);
+  let last = 0;
+  for (let i = 0; i < out.length; i++) {
+    const t = i / out.length;
+    last += cutoff(t) * (noise() - last);
+    out[i] = last * envelope(t);
+  }
+  return out;
+};
+
+const EFFECTS: Record<SoundEffectId, (sampleRate: number) => Float32Array> = {
+  drum: (sampleRate) => {
+    const out = new Float32Array(Math.round(1.4 * sampleRate));
+    const noise = noiseSource(3);
+    [0, 0.35, 0.7].forEach(start => addDrum(out, sampleRate, start, 0.9, noise));
+    return out;
+  },
+  gong: (sampleRate) => {
+    const out = new Float32Array(Math.round(3 * sampleRate));
+    [110, 163, 217, 291, 377].forEach((freq, n) => {
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        out[i] += Math.sin(2 * Math.PI * freq * t) * Math.min(1, t / 0.02) * Math.exp(-t * (1 + n * 0.6)) * 0.3 / (n + 1);
+      }
+    });
+    return out;
+  },
+  bell: (sampleRate) => {
+    const out = new Float32Array(Math.round(2 * sampleRate));
+    [[880, 1], [880 * 2.76, 0.4], [880 * 5.4, 0.2]].forEach(([freq, level]) => {
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        out[i] += Math.sin(2 * Math.PI * freq * t) * Math.exp(-t * 2.5) * level * 0.4;
+      }
+    });
+    return out;
+  },
+  whoosh: (sampleRate) =>
+    filteredNoise(sampleRate, 0.7, t => 0.02 + 0.3 * Math.sin(Math.PI * t), t => Math.pow(Math.sin(Math.PI * t), 2) * 1.5, 11),
+  wind: (sampleRate) =>
+    filteredNoise(sampleRate, 3, t => 0.01 + 0.02 * Math.sin(Math.PI * 3 * t) ** 2, t => Math.sin(Math.PI * t) * 4, 5),
+  water: (sampleRate) => {
+    const out = filteredNoise(sampleRate, 2, () => 0.05, t => Math.sin(Math.PI * t) * 0.6, 9);
+    const random = noiseSource(21);
+    for (let drop = 0; drop < 14; drop++) {
+      const offset = Math.round(((random() + 1) / 2) * 1.8 * sampleRate);
+      const base = 600 + ((random() + 1) / 2) * 900;
+      let phase = 0;
+      for (let i = 0; i < 0.08 * sampleRate; i++) {
+        const t = i / sampleRate;
+        phase += (2 * Math.PI * base * (1 + t * 8)) / sampleRate;
+        addAt(out, offset + i, Math.sin(phase) * Math.exp(-t * 50) * 0.3);
+      }
+    }
+    return out;
+  },
+};
+
+// Rendered buffers are reused for as long as their audio context lives
+const bufferCache = new WeakMap<BaseAudioContext, Map<string, AudioBuffer>>();
+
+const cachedBuffer = (ctx: BaseAudioContext, key: string, render: (sampleRate: number) => Float32Array) => {
+  let cache = bufferCache.get(ctx);
+  if (!cache) {
+    cache = new Map();
+    bufferCache.set(ctx, cache);
+  }
+  let buffer = cache.get(key);
+  if (!buffer) {
+    const samples = render(ctx.sampleRate);
+    buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+    buffer.getChannelData(0).set(samples);
+    cache.set(key, buffer);
+  }
+  return buffer;
+};
+
+// --- Mix bus ---
+
+const MUSIC_LEVEL = 0.35;
+const DUCKED_LEVEL = 0.1;
+const EFFECTS_LEVEL = 0.8;
+const DUCK_ATTACK_SEC = 0.15;
+const DUCK_RELEASE_SEC = 0.6;
+const CROSSFADE_SEC = 1.5;
+
+/**
+ * Methods taking `at` (context time, default now) can be scheduled ahead, which is how
+ * offline renders build the whole mix before rendering it.
+ */
+export interface MixBus {
+  /** Crossfades to another music bed; the same track keeps playing uninterrupted. */
+  setMusic: (track: MusicTrackId, at?: number) => void;
+  /** Plays narration through the bus at `gain`, ducking the music for as long as it runs. The caller starts it. */
+  playNarration: (buffer: AudioBuffer, gain?: number) => AudioBufferSourceNode;
+  /** Starts narration at `at` and ducks the music for exactly its length. */
+  scheduleNarration: (buffer: AudioBuffer, at: number, gain?: number) => void;
+  /** Schedules an effect `delay` seconds from now. */
+  playEffect: (effect: SoundEffectId, delay?: number) => void;
+  /** Cancels effects that haven't finished, e.g. when playback is paused. */
+  stopEffects: () => void;
+  /** Ramps the whole mix to `level` over `seconds`, for fade in/out. */
+  fadeTo: (level: number, seconds: number, at?: number) => void;
+  dispose: () => void;
+}
+
+// Mastering: gentle compression on the peaks, then a limiter just under full scale
+const COMPRESSOR = { threshold: -10, knee: 6, ratio: 2, attack: 0.01, release: 0.25 };
+const LIMITER = { threshold: -1.5, knee: 0, ratio: 20, attack: 0.001, release: 0.1 };
+
+/**
+ * DynamicsCompressorNode adds its own make-up gain (0.6 of the reduction at full scale,
+ * per the Web Audio spec); undoing it keeps the normalised loudness where we put it.
+ */
+const makeUpGainDb = (settings: { threshold: number; ratio: number }) =>
+  -0.6 * (settings.threshold - settings.threshold / settings.ratio);
+
+const createDynamics = (ctx: BaseAudioContext, settings: typeof COMPRESSOR) => {
+  const node = ctx.createDynamicsCompressor();
+  node.threshold.value = settings.threshold;
+  node.knee.value = settings.knee;
+  node.ratio.value = settings.ratio;
+  node.attack.value = settings.attack;
+  node.release.value = settings.release;
+  const trim = ctx.createGain();
+  trim.gain.value = dbToGain(-makeUpGainDb(settings));
+  node.connect(trim);
+  return { input: node, output: trim };
+};
+
+/** Compressor then limiter in front of `destination`; returns the node to feed. */
+const createMastering = (ctx: BaseAudioContext, destination: AudioNode): AudioNode => {
+  const compressor = createDynamics(ctx, COMPRESSOR);
+  const limiter = createDynamics(ctx, LIMITER);
+  compressor.output.connect(limiter.input);
+  limiter.output.connect(destination);
+  return compressor.input;
+};
+
+export const createMixBus = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  options: { mastering?: boolean } = {}
+): MixBus => {
+  const master = ctx.createGain();
+  master.connect(options.mastering ? createMastering(ctx, destination) : destination);
+
+  const musicBus = ctx.createGain();
+  musicBus.gain.value = MUSIC_LEVEL;
+  musicBus.connect(master);
+
+  const effectsBus = ctx.createGain();
+  effectsBus.gain.value = EFFECTS_LEVEL;
+  effectsBus.connect(master);
+
+  const narrationBus = ctx.createGain();
+  narrationBus.connect(master);
+
+  let music: { track: MusicTrackId; source: AudioBufferSourceNode; gain: GainNode } | null = null;
+  let effects = new Set<AudioBufferSourceNode>();
+  let speaking = 0;
+
+  // Where each param was last sent, since `param.value` only knows the present
+  const targets = new Map<AudioParam, number>();
+  const rampTo = (param: AudioParam, value: number, at: number, seconds: number) => {
+    const from = at <= ctx.currentTime ? param.value : targets.get(param) ?? param.value;
+    param.cancelScheduledValues(at);
+    param.setValueAtTime(from, at);
+    param.linearRampToValueAtTime(value, at + Math.max(seconds, 0.01));
+    targets.set(param, value);
+  };
+
+  const stopSource = (source: AudioScheduledSourceNode, when?: number) => {
+    try { source.stop(when); } catch (e) {}
+  };
+
+  const setMusic = (track: MusicTrackId, at: number = ctx.currentTime) => {
+    if ((music?.track ?? 'none') === track) return;
+    const now = Math.max(at, ctx.currentTime);
+    if (music) {
+      rampTo(music.gain.gain, 0, now, CROSSFADE_SEC);
+      stopSource(music.source, now + CROSSFADE_SEC);
+      music = null;
+    }
+    if (track === 'none') return;
+
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.connect(musicBus);
+    const source = ctx.createBufferSource();
+    source.buffer = cachedBuffer(ctx, `music:${track}`, rate => renderTrack(TRACKS[track], rate));
+    source.loop = true;
+    source.connect(gain);
+    source.start(now);
+    rampTo(gain.gain, 1, now, CROSSFADE_SEC);
+    music = { track, source, gain };
+  };
+
+  const narrationSource = (buffer: AudioBuffer, gain: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    if (gain === 1) {
+      source.connect(narrationBus);
+    } else {
+      const level = ctx.createGain();
+      level.gain.value = gain;
+      source.connect(level);
+      level.connect(narrationBus);
+    }
+    return source;
+  };
+
+  const playNarration = (buffer: AudioBuffer, gain: number = 1) => {
+    const source = narrationSource(buffer, gain);
+    speaking++;
+    rampTo(musicBus.gain, DUCKED_LEVEL, ctx.currentTime, DUCK_ATTACK_SEC);
+    // A listener rather than onended, which callers set for their own use
+    source.addEventListener('ended', () => {
+      speaking = Math.max(0, speaking - 1);
+      if (speaking === 0) rampTo(musicBus.gain, MUSIC_LEVEL, ctx.currentTime, DUCK_RELEASE_SEC);
+    });
+    return source;
+  };
+
+  const scheduleNarration = (buffer: AudioBuffer, at: number, gain: number = 1) => {
+    narrationSource(buffer, gain).start(at);
+    rampTo(musicBus.gain, DUCKED_LEVEL, Math.max(0, at - DUCK_ATTACK_SEC), DUCK_ATTACK_SEC);
+    rampTo(musicBus.gain, MUSIC_LEVEL, at + buffer.duration, DUCK_RELEASE_SEC);
+  };
+
+  const playEffect = (effect: SoundEffectId, delay: number = 0) => {
+    const source = ctx.createBufferSource();
+    source.buffer = cachedBuffer(ctx, `sfx:${effect}`, EFFECTS[effect]);
+    source.connect(effectsBus);
+    source.addEventListener('ended', () => effects.delete(source));
+    effects.add(source);
+    source.start(ctx.currentTime + Math.max(0, delay));
+  };
+
+  const stopEffects = () => {
+    effects.forEach(source => stopSource(source));
+    effects = new Set();
+  };
+
+  const fadeTo = (level: number, seconds: number, at: number = ctx.currentTime) =>
+    rampTo(master.gain, level, Math.max(at, ctx.currentTime), seconds);
+
+  const dispose = () => {
+    stopEffects();
+    if (music) stopSource(music.source);
+    music = null;
+    master.disconnect();
+  };
+
+  return { setMusic, playNarration, scheduleNarration, playEffect, stopEffects, fadeTo, dispose };
+};
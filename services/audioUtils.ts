@@ -10,7 +10,7 @@ export function decodeBase64(base64: string): Uint8Array {
 
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1
 ): Promise<AudioBuffer> {
@@ -35,3 +35,75 @@ export const getAudioContext = () => {
   }
   return sharedAudioContext;
 };
+
+/**
+ * Wraps raw 16-bit PCM (as returned by the TTS model) in a WAV container.
+ * `extraChunks` (complete RIFF chunks, e.g. cue points) are placed after the audio.
+ */
+export function encodeWav(pcm: ArrayBuffer, sampleRate: number = 24000, numChannels: number = 1, extraChunks: Uint8Array[] = []): Uint8Array {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  const blockAlign = numChannels * 2;
+
+  writeString(0, 'RIFF');
+  const extraLength = extraChunks.reduce((n, chunk) => n + chunk.length, 0);
+  view.setUint32(4, 36 + pcm.byteLength + extraLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  const wav = new Uint8Array(44 + pcm.byteLength + extraLength);
+  wav.set(new Uint8Array(header), 0);
+  wav.set(new Uint8Array(pcm), 44);
+  let offset = 44 + pcm.byteLength;
+  extraChunks.forEach(chunk => {
+    wav.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return wav;
+}
+
+/**
+ * Extracts the 16-bit PCM payload from a WAV file. Throws on anything else.
+ */
+export function decodeWav(wav: Uint8Array): { pcm: ArrayBuffer; sampleRate: number; numChannels: number } {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from(wav.subarray(offset, offset + length)));
+
+  if (readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new Error("Not a WAV file");
+  }
+
+  let sampleRate = 24000;
+  let numChannels = 1;
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const chunkId = readString(offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ') {
+      if (view.getUint16(offset + 8, true) !== 1 || view.getUint16(offset + 22, true) !== 16) {
+        throw new Error("Only 16-bit PCM WAV is supported");
+      }
+      numChannels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (chunkId === 'data') {
+      const start = offset + 8;
+      const end = Math.min(start + chunkSize, wav.byteLength);
+      return { pcm: wav.slice(start, end).buffer, sampleRate, numChannels };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
@@ -0,0 +1,264 @@
+import { BrandKit, SafeArea, StingPlacement, WatermarkCorner } from '../types';
+import { NO_SAFE_AREA } from './publishProfiles';
+import { STING_SEC } from './storyTimeline';
+import { breakLines } from './lineBreaking';
+import { roundedRect } from './frameDrawing';
+
+/**
+ * Channel branding for exported videos: a logo watermark over the story, a short sting
+ * around the cover and an end card asking viewers to follow. Kits are saved locally and
+ * picked at export time, so every story from the channel looks the same.
+ */
+
+const STORAGE_KEY = 'history_magic_brand_kits';
+const BRAND_FONT = '"Zcool KuaiLe", "Nunito", sans-serif';
+// Logos are scaled down to this on upload; a watermark never needs more
+const MAX_LOGO_PX = 256;
+// Sting and end card fade in from and out to black over this long
+const BRAND_FADE_SEC = 0.5;
+
+export const WATERMARK_CORNERS: Record<WatermarkCorner, { label: string }> = {
+  topLeft: { label: '左上' },
+  topRight: { label: '右上' },
+  bottomLeft: { label: '左下' },
+  bottomRight: { label: '右下' },
+};
+
+export const STING_PLACEMENTS: Record<StingPlacement, { label: string }> = {
+  off: { label: '不加片头' },
+  beforeCover: { label: '封面之前' },
+  afterCover: { label: '封面之后' },
+};
+
+export const WATERMARK_SIZE_RANGE = { min: 0.06, max: 0.24 };
+export const END_CARD_DURATION_RANGE = { min: 2, max: 8 };
+
+/** What every video ended with before kits existed: a plain request to like and follow. */
+export const BUILTIN_BRAND_KIT: BrandKit = {
+  id: 'builtin',
+  name: '默认片尾',
+  channelName: '',
+  color: '#4f46e5',
+  watermark: { corner: 'bottomRight', opacity: 0.8, size: 0.12 },
+  sting: 'off',
+  endCard: {
+    enabled: true,
+    followPrompt: '故事讲得不错的话，给个一键三连吧！还想听哪段历史，评论区告诉我们！',
+    duration: 4,
+  },
+};
+
+export interface BrandKitSettings {
+  saved: BrandKit[];
+  /** The kit last chosen, offered again next time; null exports without branding. */
+  lastId: string | null;
+}
+
+const DEFAULT_SETTINGS: BrandKitSettings = { saved: [], lastId: BUILTIN_BRAND_KIT.id };
+
+export const loadBrandKitSettings = (): BrandKitSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveBrandKitSettings = (settings: BrandKitSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** The chosen kit, or null for none (or one that has since been deleted). */
+export const selectedBrandKit = (settings: BrandKitSettings): BrandKit | null =>
+  settings.lastId === BUILTIN_BRAND_KIT.id
+    ? BUILTIN_BRAND_KIT
+    : settings.saved.find(kit => kit.id === settings.lastId) || null;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement | null>(resolve => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(null);
+  img.src = src;
+});
+
+/** Reads an uploaded logo as a base64 PNG no larger than MAX_LOGO_PX, keeping its transparency. */
+export const readLogoFile = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    if (!img || !img.width || !img.height) throw new Error("无法读取这张图片，请换一张 PNG 或 JPG");
+    const scale = Math.min(1, MAX_LOGO_PX / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png').split(',')[1];
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** A kit with its logo decoded and font ready, for drawing frames. */
+export interface BrandAssets {
+  kit: BrandKit;
+  logo: HTMLImageElement | null;
+}
+
+export const loadBrandAssets = async (kit: BrandKit): Promise<BrandAssets> => {
+  try {
+    await document.fonts.load(`900 40px ${BRAND_FONT}`, kit.channelName + kit.endCard.followPrompt);
+  } catch (e) {
+    console.warn("Brand font failed to load", e);
+  }
+  return { kit, logo: kit.logo ? await loadImage(`data:image/png;base64,${kit.logo}`) : null };
+};
+
+const fadeOpacity = (elapsed: number, duration: number) =>
+  Math.max(0, Math.min(1, elapsed / BRAND_FADE_SEC, (duration - elapsed) / BRAND_FADE_SEC));
+
+const easeOut = (t: number) => 1 - Math.pow(1 - Math.max(0, Math.min(1, t)), 3);
+
+/** The kit colour, darkening towards the bottom. */
+function fillBackground(ctx: CanvasRenderingContext2D, color: string, w: number, h: number) {
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, w, h);
+  const shade = ctx.createLinearGradient(0, 0, 0, h);
+  shade.addColorStop(0, 'rgba(255,255,255,0.12)');
+  shade.addColorStop(1, 'rgba(0,0,0,0.35)');
+  ctx.fillStyle = shade;
+  ctx.fillRect(0, 0, w, h);
+}
+
+function drawFadeToBlack(ctx: CanvasRenderingContext2D, opacity: number, w: number, h: number) {
+  if (opacity >= 1) return;
+  ctx.fillStyle = `rgba(0,0,0,${1 - opacity})`;
+  ctx.fillRect(0, 0, w, h);
+}
+
+/** The logo's size when fitted into a `box` pixel square. */
+const fitLogo = (logo: HTMLImageElement, box: number) => {
+  const fit = box / Math.max(logo.width, logo.height);
+  return { width: logo.width * fit, height: logo.height * fit };
+};
+
+/** Draws the logo fitted into a `box` pixel square centred on (x, y). */
+function drawLogo(ctx: CanvasRenderingContext2D, logo: HTMLImageElement, x: number, y: number, box: number) {
+  const { width, height } = fitLogo(logo, box);
+  ctx.drawImage(logo, x - width / 2, y - height / 2, width, height);
+}
+
+/** Logo in the kit's corner, kept clear of the platform's UI. */
+export function drawWatermark(ctx: CanvasRenderingContext2D, brand: BrandAssets, w: number, h: number, safeArea: SafeArea = NO_SAFE_AREA) {
+  const { logo, kit } = brand;
+  if (!logo) return;
+  const short = Math.min(w, h);
+  const { width, height } = fitLogo(logo, kit.watermark.size * short);
+  const margin = short * 0.03;
+  const { corner } = kit.watermark;
+  const x = corner === 'topLeft' || corner === 'bottomLeft'
+    ? safeArea.left * w + margin
+    : w - safeArea.right * w - margin - width;
+  const y = corner === 'topLeft' || corner === 'topRight'
+    ? safeArea.top * h + margin
+    : h - safeArea.bottom * h - margin - height;
+  ctx.save();
+  ctx.globalAlpha = kit.watermark.opacity;
+  ctx.drawImage(logo, x, y, width, height);
+  ctx.restore();
+}
+
+/** The channel's intro sting `elapsed` seconds in: the logo pops in, then the channel name. */
+export function drawSting(ctx: CanvasRenderingContext2D, brand: BrandAssets, w: number, h: number, elapsed: number) {
+  const { logo, kit } = brand;
+  const scale = Math.min(w, h) / 720;
+  fillBackground(ctx, kit.color, w, h);
+
+  const pop = easeOut(elapsed / 0.6);
+  const logoSize = 220 * scale * (0.6 + 0.4 * pop);
+  const hasName = !!kit.channelName.trim();
+  const logoY = hasName && logo ? h / 2 - 50 * scale : h / 2;
+  if (logo) {
+    ctx.save();
+    ctx.globalAlpha = pop;
+    drawLogo(ctx, logo, w / 2, logoY, logoSize);
+    ctx.restore();
+  }
+  if (hasName) {
+    const reveal = easeOut((elapsed - 0.4) / 0.6);
+    ctx.save();
+    ctx.globalAlpha = reveal;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `900 ${Math.round(56 * scale)}px ${BRAND_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const nameY = logo ? logoY + 110 * scale + 60 * scale : h / 2;
+    ctx.fillText(kit.channelName, w / 2, nameY + (1 - reveal) * 20 * scale);
+    ctx.restore();
+  }
+  drawFadeToBlack(ctx, fadeOpacity(elapsed, STING_SEC), w, h);
+}
+
+/** The end card `elapsed` seconds in: logo, channel name, the follow prompt and a pulsing follow button. */
+export function drawEndCard(ctx: CanvasRenderingContext2D, brand: BrandAssets, w: number, h: number, elapsed: number) {
+  const { logo, kit } = brand;
+  const scale = Math.min(w, h) / 720;
+  const isVertical = h > w;
+  fillBackground(ctx, kit.color, w, h);
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+
+  // Stack the parts and centre the stack
+  const logoSize = 180 * scale;
+  const nameSize = Math.round(52 * scale);
+  const promptSize = Math.round((isVertical ? 38 : 34) * scale);
+  const promptLineHeight = promptSize * 1.5;
+  ctx.font = `900 ${promptSize}px ${BRAND_FONT}`;
+  const chars = Array.from(kit.endCard.followPrompt.trim());
+  const promptLines = chars.length > 0
+    ? breakLines(chars, char => char, char => ctx.measureText(char).width, w * (isVertical ? 0.8 : 0.65)).map(line => line.join(''))
+    : [];
+  const buttonHeight = 64 * scale;
+  const gap = 32 * scale;
+  const parts = [
+    logo ? logoSize : 0,
+    kit.channelName.trim() ? nameSize : 0,
+    promptLines.length * promptLineHeight,
+    buttonHeight,
+  ].filter(size => size > 0);
+  let y = h / 2 - (parts.reduce((a, b) => a + b, 0) + gap * (parts.length - 1)) / 2;
+
+  if (logo) {
+    drawLogo(ctx, logo, w / 2, y + logoSize / 2, logoSize);
+    y += logoSize + gap;
+  }
+  if (kit.channelName.trim()) {
+    ctx.font = `900 ${nameSize}px ${BRAND_FONT}`;
+    ctx.fillText(kit.channelName, w / 2, y + nameSize / 2);
+    y += nameSize + gap;
+  }
+  if (promptLines.length > 0) {
+    ctx.font = `900 ${promptSize}px ${BRAND_FONT}`;
+    ctx.globalAlpha = 0.9;
+    promptLines.forEach((line, i) => ctx.fillText(line, w / 2, y + promptLineHeight * (i + 0.5)));
+    ctx.globalAlpha = 1;
+    y += promptLines.length * promptLineHeight + gap;
+  }
+
+  // Follow button, gently pulsing
+  const pulse = 1 + Math.sin(elapsed * Math.PI * 2) * 0.04;
+  const buttonWidth = 240 * scale * pulse;
+  const height = buttonHeight * pulse;
+  ctx.fillStyle = '#ffffff';
+  roundedRect(ctx, w / 2 - buttonWidth / 2, y + (buttonHeight - height) / 2, buttonWidth, height, height / 2);
+  ctx.fill();
+  ctx.fillStyle = kit.color;
+  ctx.font = `900 ${Math.round(30 * scale * pulse)}px ${BRAND_FONT}`;
+  ctx.fillText('+ 关注', w / 2, y + buttonHeight / 2);
+  ctx.restore();
+
+  drawFadeToBlack(ctx, fadeOpacity(elapsed, kit.endCard.duration), w, h);
+}
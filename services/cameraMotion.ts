@@ -0,0 +1,103 @@
+import { CameraFraming, CameraMove, Scene } from '../types';
+
+/**
+ * Where the camera looks during a scene. Every move comes down to a start and an end
+ * framing; the picture travels between them in a straight line over the scene, in the
+ * exported video and in the player alike.
+ */
+
+export const CAMERA_MOVES: Record<CameraMove, { label: string }> = {
+  auto: { label: '自动' },
+  still: { label: '固定' },
+  zoomIn: { label: '推近' },
+  zoomOut: { label: '拉远' },
+  panLeft: { label: '向左移' },
+  panRight: { label: '向右移' },
+  panUp: { label: '向上移' },
+  panDown: { label: '向下移' },
+  focus: { label: '聚焦' },
+  custom: { label: '自定义' },
+};
+
+// Closest a framing may get; tighter and the generated pictures turn soft
+export const MIN_FRAMING_SIZE = 0.3;
+const PAN_SIZE = 0.8;
+const FOCUS_SIZE = 0.55;
+
+export interface CameraPath {
+  start: CameraFraming;
+  end: CameraFraming;
+}
+
+export const centredFraming = (zoom: number): CameraFraming => {
+  const size = 1 / zoom;
+  return { x: (1 - size) / 2, y: (1 - size) / 2, size };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps a framing inside the picture and no closer than MIN_FRAMING_SIZE. */
+export const clampFraming = ({ x, y, size }: CameraFraming): CameraFraming => {
+  const s = clamp(size, MIN_FRAMING_SIZE, 1);
+  return { x: clamp(x, 0, 1 - s), y: clamp(y, 0, 1 - s), size: s };
+};
+
+/** The same framing pushed in (`factor` > 1) about its centre. */
+export const zoomFraming = (framing: CameraFraming, factor: number): CameraFraming => {
+  const size = framing.size / factor;
+  return { x: framing.x + (framing.size - size) / 2, y: framing.y + (framing.size - size) / 2, size };
+};
+
+// The zoom range 'auto' has always used on stills
+const AUTO_WIDE = centredFraming(1.1);
+const AUTO_CLOSE = centredFraming(1.25);
+const FULL = centredFraming(1);
+
+/**
+ * The camera's start and end for scene `index`. 'auto' zooms in on even scenes and out on
+ * odd ones, and leaves Veo clips (`isVideo`), which have their own motion, untouched.
+ */
+export const cameraPath = (scene: Scene, index: number, isVideo = false): CameraPath => {
+  const motion = scene.camera;
+  const edge = 1 - PAN_SIZE;
+  const middle = edge / 2;
+  switch (motion?.move ?? 'auto') {
+    case 'auto':
+      if (isVideo) return { start: FULL, end: FULL };
+      return index % 2 === 0 ? { start: AUTO_WIDE, end: AUTO_CLOSE } : { start: AUTO_CLOSE, end: AUTO_WIDE };
+    case 'still':
+      return { start: FULL, end: FULL };
+    case 'zoomIn':
+      return { start: FULL, end: centredFraming(1.3) };
+    case 'zoomOut':
+      return { start: centredFraming(1.3), end: FULL };
+    case 'panLeft':
+      return { start: { x: edge, y: middle, size: PAN_SIZE }, end: { x: 0, y: middle, size: PAN_SIZE } };
+    case 'panRight':
+      return { start: { x: 0, y: middle, size: PAN_SIZE }, end: { x: edge, y: middle, size: PAN_SIZE } };
+    case 'panUp':
+      return { start: { x: middle, y: edge, size: PAN_SIZE }, end: { x: middle, y: 0, size: PAN_SIZE } };
+    case 'panDown':
+      return { start: { x: middle, y: 0, size: PAN_SIZE }, end: { x: middle, y: edge, size: PAN_SIZE } };
+    case 'focus': {
+      const focus = motion?.focus ?? { x: 0.5, y: 0.5 };
+      return { start: FULL, end: clampFraming({ x: focus.x - FOCUS_SIZE / 2, y: focus.y - FOCUS_SIZE / 2, size: FOCUS_SIZE }) };
+    }
+    case 'custom':
+      return { start: clampFraming(motion?.start ?? AUTO_WIDE), end: clampFraming(motion?.end ?? AUTO_CLOSE) };
+  }
+};
+
+/** Framing `progress` (0 to 1) of the way through the scene. */
+export const framingAt = ({ start, end }: CameraPath, progress: number): CameraFraming => {
+  const p = clamp(progress, 0, 1);
+  return {
+    x: start.x + (end.x - start.x) * p,
+    y: start.y + (end.y - start.y) * p,
+    size: start.size + (end.size - start.size) * p,
+  };
+};
+
+/** CSS transform showing `framing` on an element that fills the frame; needs `transform-origin: 0 0`. */
+export const framingTransform = ({ x, y, size }: CameraFraming) =>
+  `scale(${1 / size}) translate(${-x * 100}%, ${-y * 100}%)`;
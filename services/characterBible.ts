@@ -0,0 +1,51 @@
+import { CharacterProfile, Scene, StoryBible } from '../types';
+
+// Flash-image works best with a handful of references
+const MAX_REFERENCE_IMAGES = 3;
+
+/** Bible characters in a scene: the names the script listed, or failing that the ones its narration mentions. */
+export const sceneCharacters = (scene: Scene, bible?: StoryBible): CharacterProfile[] => {
+  if (!bible) return [];
+  const names = scene.characters;
+  return bible.characters.filter(c => names ? names.includes(c.name) : scene.narration.includes(c.name));
+};
+
+const describeCharacter = (c: CharacterProfile) =>
+  `${c.name}: ${c.appearance}; wearing ${c.clothing}; colours ${c.palette}`;
+
+/** Scene prompt with the relevant part of the character/setting sheet appended. */
+export const buildScenePrompt = (scene: Scene, bible?: StoryBible): string => {
+  if (!bible) return scene.visual_prompt;
+  const characters = sceneCharacters(scene, bible);
+  const parts = [scene.visual_prompt];
+  if (characters.length > 0) {
+    parts.push(`Characters (keep their look identical in every scene): ${characters.map(describeCharacter).join(' | ')}`);
+  }
+  parts.push(`Era: ${bible.era}. Setting: ${bible.setting}. Colour palette: ${bible.palette}`);
+  return parts.join('. ');
+};
+
+/**
+ * Index of the scene that defines each character's look: the first one it appears in.
+ * Later scenes with that character wait for this image and use it as a reference.
+ */
+export const referenceAnchors = (scenes: Scene[], bible?: StoryBible): Map<string, number> => {
+  const anchors = new Map<string, number>();
+  scenes.forEach((scene, i) => {
+    sceneCharacters(scene, bible).forEach(c => {
+      if (!anchors.has(c.name)) anchors.set(c.name, i);
+    });
+  });
+  return anchors;
+};
+
+/** Images of the characters in scene `index`, each taken from the first other scene that shows them. */
+export const referenceImagesFor = (scenes: Scene[], index: number, bible?: StoryBible): string[] => {
+  const images: string[] = [];
+  for (const character of sceneCharacters(scenes[index], bible)) {
+    const source = scenes.find((s, i) =>
+      i !== index && !!s.imageData && sceneCharacters(s, bible).some(c => c.name === character.name));
+    if (source && !images.includes(source.imageData!)) images.push(source.imageData!);
+  }
+  return images.slice(0, MAX_REFERENCE_IMAGES);
+};
@@ -0,0 +1,407 @@
+import { CoverAlign, CoverColorScheme, CoverFont, CoverLayout, CoverTemplate, SafeArea } from '../types';
+import { NO_SAFE_AREA } from './publishProfiles';
+import { breakLines } from './lineBreaking';
+import { drawAsset, roundedRect, VisualAsset } from './frameDrawing';
+
+/**
+ * Title layouts for cover images. Everything is designed at 1080p and scaled with the
+ * frame, so the workshop's small live preview matches the full-size download.
+ */
+
+const STORAGE_KEY = 'history_magic_cover_template';
+
+export const COVER_LAYOUTS: Record<CoverLayout, { label: string; description: string }> = {
+  classic: { label: '经典底栏', description: '渐变压暗的底栏，标题醒目' },
+  banner: { label: '横幅', description: '整条色带托住标题' },
+  side: { label: '竖排侧标题', description: '古书式竖排，靠一侧摆放' },
+  stamp: { label: '大字印章', description: '标题刻成一方印章' },
+};
+
+export const COVER_FONTS: Record<CoverFont, { label: string; css: string; weight: number }> = {
+  rounded: { label: '快乐体', css: '"Zcool KuaiLe", "Nunito", sans-serif', weight: 900 },
+  brush: { label: '毛笔字', css: '"Ma Shan Zheng", serif', weight: 400 },
+  heavy: { label: '粗黑体', css: '"Noto Sans SC", sans-serif', weight: 900 },
+  serif: { label: '宋体', css: '"Noto Serif SC", serif', weight: 900 },
+};
+
+export interface CoverColors {
+  label: string;
+  /** Title fill, top to bottom; one stop for a flat colour. */
+  fill: string[];
+  stroke: string;
+  /** Banner, column, stamp and badge background. */
+  accent: string;
+  subtitle: string;
+  /** RGB of the classic layout's fade, dark behind light text and light behind dark. */
+  shade: string;
+}
+
+export const COVER_COLOR_SCHEMES: Record<CoverColorScheme, CoverColors> = {
+  gold: { label: '金色', fill: ['#FFFBEB', '#FCD34D', '#F59E0B'], stroke: '#451a03', accent: 'rgba(69,26,3,0.88)', subtitle: '#FFFBEB', shade: '0,0,0' },
+  white: { label: '纯白', fill: ['#ffffff'], stroke: '#111827', accent: 'rgba(17,24,39,0.85)', subtitle: '#e2e8f0', shade: '0,0,0' },
+  vermilion: { label: '朱红', fill: ['#fff7ed', '#fed7aa'], stroke: '#7f1d1d', accent: 'rgba(185,28,28,0.92)', subtitle: '#fff7ed', shade: '0,0,0' },
+  ink: { label: '水墨', fill: ['#1c1917'], stroke: '#f5f0e1', accent: 'rgba(243,229,192,0.92)', subtitle: '#44403c', shade: '243,229,192' },
+  jade: { label: '青绿', fill: ['#f0fdf4', '#86efac'], stroke: '#064e3b', accent: 'rgba(6,78,59,0.88)', subtitle: '#ecfdf5', shade: '0,0,0' },
+};
+
+export const COVER_ALIGNS: Record<CoverAlign, { label: string }> = {
+  left: { label: '靠左' },
+  center: { label: '居中' },
+  right: { label: '靠右' },
+};
+
+export const COVER_VERTICALS: Record<CoverTemplate['vertical'], { label: string }> = {
+  top: { label: '顶部' },
+  middle: { label: '居中' },
+  bottom: { label: '底部' },
+};
+
+export const COVER_SIZE_RANGE = { min: 0.5, max: 1.6 };
+
+/** The original cover look: gold title centred over a dark fade at the bottom. */
+export const DEFAULT_COVER_TEMPLATE: CoverTemplate = {
+  layout: 'classic',
+  font: 'rounded',
+  colors: 'gold',
+  vertical: 'bottom',
+  align: 'center',
+  lineSizes: [],
+  subtitle: '',
+  subtitleSize: 1,
+  badge: '',
+};
+
+export const loadCoverTemplate = (): CoverTemplate => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_COVER_TEMPLATE, ...JSON.parse(saved) } : DEFAULT_COVER_TEMPLATE;
+  } catch (e) {
+    return DEFAULT_COVER_TEMPLATE;
+  }
+};
+
+export const saveCoverTemplate = (template: CoverTemplate) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+};
+
+/** The title's lines as the user broke them, blank ones dropped. */
+export const titleLines = (title: string) => title.split('\n').map(line => line.trim()).filter(Boolean);
+
+const coverFont = (font: CoverFont, size: number) => `${COVER_FONTS[font].weight} ${Math.round(size)}px ${COVER_FONTS[font].css}`;
+
+/** Fetches the template's web font for `text`; canvas text falls back silently if it isn't ready. */
+export const loadCoverFont = async (template: CoverTemplate, text: string) => {
+  try {
+    await document.fonts.load(coverFont(template.font, 40), text);
+  } catch (e) {
+    console.warn("Cover font failed to load", e);
+  }
+};
+
+interface Row {
+  text: string;
+  size: number;
+  lineHeight: number;
+  isSubtitle: boolean;
+}
+
+interface Frame {
+  w: number;
+  h: number;
+  scale: number;
+  left: number;
+  right: number;
+  /** Top and bottom of where a title block may sit. */
+  top: number;
+  bottom: number;
+  /** Side margin inside the safe area. */
+  inset: number;
+  /** Edges the platform's UI covers, in pixels. */
+  topSafe: number;
+  bottomSafe: number;
+}
+
+/** Outlined, filled text in the scheme's colours; `fill` is the title gradient or a flat colour. */
+function drawStyledText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number, colors: CoverColors, fill: string | CanvasGradient) {
+  ctx.strokeStyle = colors.stroke;
+  ctx.lineWidth = size * 0.05;
+  ctx.lineJoin = 'round';
+  ctx.miterLimit = 2;
+  ctx.strokeText(text, x, y);
+  ctx.fillStyle = fill;
+  ctx.fillText(text, x, y);
+}
+
+function titleFill(ctx: CanvasRenderingContext2D, colors: CoverColors, top: number, bottom: number) {
+  if (colors.fill.length === 1) return colors.fill[0];
+  const gradient = ctx.createLinearGradient(0, top, 0, bottom);
+  colors.fill.forEach((stop, i) => gradient.addColorStop(i / (colors.fill.length - 1), stop));
+  return gradient;
+}
+
+/** Where a block of the given size goes for the template's alignment. */
+function placeBlock(frame: Frame, template: CoverTemplate, width: number, height: number) {
+  const left = template.align === 'left'
+    ? frame.left + frame.inset
+    : template.align === 'right'
+      ? frame.right - frame.inset - width
+      : (frame.left + frame.right) / 2 - width / 2;
+  const top = template.vertical === 'top'
+    ? frame.top
+    : template.vertical === 'bottom'
+      ? frame.bottom - height
+      : (frame.top + frame.bottom) / 2 - height / 2;
+  return { left, top };
+}
+
+const subtitleSize = (base: number, template: CoverTemplate) => base * 0.42 * template.subtitleSize;
+
+/** Title lines wrapped to `maxWidth`, each at its own size, then the subtitle. */
+function horizontalRows(ctx: CanvasRenderingContext2D, title: string, template: CoverTemplate, base: number, maxWidth: number): Row[] {
+  const rows: Row[] = [];
+  titleLines(title).forEach((line, i) => {
+    const size = base * (template.lineSizes[i] ?? 1);
+    ctx.font = coverFont(template.font, size);
+    breakLines(Array.from(line), char => char, char => ctx.measureText(char).width, maxWidth)
+      .forEach(chars => rows.push({ text: chars.join(''), size, lineHeight: size * 1.2, isSubtitle: false }));
+  });
+  if (template.subtitle.trim()) {
+    const size = subtitleSize(base, template);
+    rows.push({ text: template.subtitle.trim(), size, lineHeight: size * 1.5, isSubtitle: true });
+  }
+  return rows;
+}
+
+type LayoutDrawer = (ctx: CanvasRenderingContext2D, title: string, template: CoverTemplate, frame: Frame) => void;
+
+/** Classic and banner: horizontal lines with a fade or a colour band behind them. */
+const drawHorizontal: LayoutDrawer = (ctx, title, template, frame) => {
+  const { w, h, scale } = frame;
+  const colors = COVER_COLOR_SCHEMES[template.colors];
+  const base = (h > w ? 110 : 130) * scale;
+  const maxWidth = (frame.right - frame.left) * 0.85;
+  const rows = horizontalRows(ctx, title, template, base, maxWidth);
+  if (rows.length === 0) return;
+
+  const widths = rows.map(row => {
+    ctx.font = coverFont(template.font, row.size);
+    return ctx.measureText(row.text).width;
+  });
+  const height = rows.reduce((sum, row) => sum + row.lineHeight, 0);
+  const { left, top } = placeBlock(frame, template, Math.max(...widths), height);
+  const bottom = top + height;
+
+  if (template.layout === 'banner') {
+    const pad = 30 * scale;
+    ctx.fillStyle = colors.accent;
+    ctx.fillRect(0, top - pad, w, height + pad * 2);
+    ctx.fillStyle = colors.fill[0];
+    ctx.fillRect(0, top - pad + 8 * scale, w, 3 * scale);
+    ctx.fillRect(0, bottom + pad - 11 * scale, w, 3 * scale);
+  } else {
+    // Fade towards the edge the title sits against, at least as far as the old bottom third
+    const fade = (from: number, to: number, stops: [number, number][]) => {
+      const gradient = ctx.createLinearGradient(0, from, 0, to);
+      stops.forEach(([at, alpha]) => gradient.addColorStop(at, `rgba(${colors.shade},${alpha})`));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, Math.min(from, to), w, Math.abs(to - from));
+    };
+    const reach = 40 * scale;
+    if (template.vertical === 'bottom') fade(Math.min(h * 0.65, top - reach), h, [[0, 0], [0.5, 0.4], [1, 0.8]]);
+    else if (template.vertical === 'top') fade(Math.max(h * 0.35, bottom + reach), 0, [[0, 0], [0.5, 0.4], [1, 0.8]]);
+    else fade(top - h * 0.12, bottom + h * 0.12, [[0, 0], [0.3, 0.55], [0.7, 0.55], [1, 0]]);
+  }
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.5)';
+  ctx.shadowBlur = 15 * scale;
+  ctx.shadowOffsetY = 4 * scale;
+  ctx.textAlign = template.align;
+  ctx.textBaseline = 'bottom';
+  const x = template.align === 'left' ? left : template.align === 'right' ? left + Math.max(...widths) : left + Math.max(...widths) / 2;
+  const fill = titleFill(ctx, colors, top, bottom);
+  let y = top;
+  rows.forEach(row => {
+    y += row.lineHeight;
+    ctx.font = coverFont(template.font, row.size);
+    drawStyledText(ctx, row.text, x, y, row.size, colors, row.isSubtitle ? colors.subtitle : fill);
+  });
+  ctx.restore();
+};
+
+/** Vertical columns read right to left, like an old book's title slip. */
+const drawSide: LayoutDrawer = (ctx, title, template, frame) => {
+  const { scale } = frame;
+  const colors = COVER_COLOR_SCHEMES[template.colors];
+  const base = 120 * scale;
+  const pad = 28 * scale;
+  const maxChars = Math.max(2, Math.floor((frame.bottom - frame.top - pad * 2) * 0.9 / (base * 1.1)));
+
+  // Long lines carry on in the next column
+  const columns: { chars: string[]; size: number; isSubtitle: boolean }[] = [];
+  const addColumns = (text: string, size: number, isSubtitle: boolean) => {
+    const chars = Array.from(text.replace(/\s+/g, ''));
+    const perColumn = Math.max(2, Math.floor(maxChars * base / size));
+    for (let i = 0; i < chars.length; i += perColumn) columns.push({ chars: chars.slice(i, i + perColumn), size, isSubtitle });
+  };
+  titleLines(title).forEach((line, i) => addColumns(line, base * (template.lineSizes[i] ?? 1), false));
+  if (template.subtitle.trim()) addColumns(template.subtitle, subtitleSize(base, template), true);
+  if (columns.length === 0) return;
+
+  const columnWidth = (size: number) => size * 1.3;
+  const width = columns.reduce((sum, c) => sum + columnWidth(c.size), 0) + pad * 2;
+  const height = Math.max(...columns.map(c => c.chars.length * c.size * 1.1)) + pad * 2;
+  const { left, top } = placeBlock(frame, template, width, height);
+
+  ctx.fillStyle = colors.accent;
+  roundedRect(ctx, left, top, width, height, 12 * scale);
+  ctx.fill();
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.35)';
+  ctx.shadowBlur = 8 * scale;
+  ctx.shadowOffsetY = 3 * scale;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const fill = titleFill(ctx, colors, top, top + height);
+  // First column on the right
+  let x = left + width - pad;
+  columns.forEach(column => {
+    x -= columnWidth(column.size);
+    const centerX = x + columnWidth(column.size) / 2;
+    ctx.font = coverFont(template.font, column.size);
+    column.chars.forEach((char, i) => {
+      const y = top + pad + column.size * 1.1 * (i + 0.5);
+      drawStyledText(ctx, char, centerX, y, column.size, colors, column.isSubtitle ? colors.subtitle : fill);
+    });
+  });
+  ctx.restore();
+};
+
+/** The title cut into a square seal, columns right to left, with the subtitle beneath. */
+const drawStamp: LayoutDrawer = (ctx, title, template, frame) => {
+  const { scale } = frame;
+  const colors = COVER_COLOR_SCHEMES[template.colors];
+  // A seal holds a handful of characters at most
+  const chars = Array.from(titleLines(title).join('').replace(/\s+/g, '')).slice(0, 16);
+  if (chars.length === 0) return;
+  const columns = Math.ceil(Math.sqrt(chars.length));
+  const rows = Math.ceil(chars.length / columns);
+  const size = 150 * scale * (template.lineSizes[0] ?? 1) / Math.max(1, columns / 2);
+  const cell = size * 1.1;
+  const border = 18 * scale;
+  const side = Math.max(columns, rows) * cell + border * 2;
+
+  const subtitle = template.subtitle.trim();
+  const subSize = subtitleSize(110 * scale, template);
+  const height = side + (subtitle ? subSize * 1.8 : 0);
+  ctx.font = coverFont(template.font, subSize);
+  const width = Math.max(side, subtitle ? ctx.measureText(subtitle).width : 0);
+  const { left, top } = placeBlock(frame, template, width, height);
+  const stampLeft = left + (width - side) / 2;
+
+  ctx.save();
+  // Pressed on by hand, so slightly askew
+  ctx.translate(stampLeft + side / 2, top + side / 2);
+  ctx.rotate(-0.05);
+  ctx.translate(-side / 2, -side / 2);
+  ctx.fillStyle = colors.accent;
+  roundedRect(ctx, 0, 0, side, side, 10 * scale);
+  ctx.fill();
+  ctx.strokeStyle = colors.fill[0];
+  ctx.lineWidth = 5 * scale;
+  roundedRect(ctx, border / 2, border / 2, side - border, side - border, 6 * scale);
+  ctx.stroke();
+
+  ctx.font = coverFont(template.font, size);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const offsetX = (side - columns * cell) / 2;
+  const offsetY = (side - rows * cell) / 2;
+  const fill = titleFill(ctx, colors, offsetY, side - offsetY);
+  chars.forEach((char, i) => {
+    const column = columns - 1 - Math.floor(i / rows);
+    const row = i % rows;
+    ctx.fillStyle = fill;
+    ctx.fillText(char, offsetX + cell * (column + 0.5), offsetY + cell * (row + 0.5));
+  });
+  ctx.restore();
+
+  if (subtitle) {
+    ctx.save();
+    ctx.shadowColor = 'rgba(0,0,0,0.5)';
+    ctx.shadowBlur = 10 * scale;
+    ctx.font = coverFont(template.font, subSize);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    drawStyledText(ctx, subtitle, left + width / 2, top + height, subSize, colors, colors.subtitle);
+    ctx.restore();
+  }
+};
+
+const LAYOUT_DRAWERS: Record<CoverLayout, LayoutDrawer> = {
+  classic: drawHorizontal,
+  banner: drawHorizontal,
+  side: drawSide,
+  stamp: drawStamp,
+};
+
+/** Series badge in a top corner away from the title, or a bottom one when the title is at the top. */
+function drawBadge(ctx: CanvasRenderingContext2D, template: CoverTemplate, frame: Frame) {
+  const text = template.badge.trim();
+  if (!text) return;
+  const { scale } = frame;
+  const colors = COVER_COLOR_SCHEMES[template.colors];
+  const size = 38 * scale;
+  const padX = 24 * scale;
+  const height = size * 1.7;
+  const margin = 40 * scale;
+  ctx.save();
+  ctx.font = coverFont(template.font, size);
+  const width = ctx.measureText(text).width + padX * 2;
+  const x = template.align === 'left' ? frame.right - margin - width : frame.left + margin;
+  const y = template.vertical === 'top' ? frame.h - frame.bottomSafe - margin - height : frame.topSafe + margin;
+  ctx.fillStyle = colors.accent;
+  roundedRect(ctx, x, y, width, height, height / 2);
+  ctx.fill();
+  ctx.fillStyle = colors.subtitle;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x + width / 2, y + height / 2);
+  ctx.restore();
+}
+
+/**
+ * Draws `image` cover-fitted to a w x h frame with `title` laid out by `template`.
+ * Title, subtitle and badge stay inside `safeArea`.
+ */
+export function drawCover(
+  ctx: CanvasRenderingContext2D,
+  image: VisualAsset,
+  title: string,
+  template: CoverTemplate,
+  w: number,
+  h: number,
+  safeArea: SafeArea = NO_SAFE_AREA
+) {
+  const scale = Math.min(w, h) / 1080;
+  const margin = (h > w ? 180 : 100) * scale;
+  const left = safeArea.left * w;
+  const right = w - safeArea.right * w;
+  const frame: Frame = {
+    w,
+    h,
+    scale,
+    left,
+    right,
+    top: Math.max(margin, safeArea.top * h),
+    bottom: h - Math.max(margin, safeArea.bottom * h),
+    inset: (right - left) * 0.075,
+    topSafe: safeArea.top * h,
+    bottomSafe: safeArea.bottom * h,
+  };
+
+  drawAsset(ctx, image, w, h, 1);
+  LAYOUT_DRAWERS[template.layout](ctx, title, template, frame);
+  drawBadge(ctx, template, frame);
+}
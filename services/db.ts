@@ -0,0 +1,78 @@
+// Thin promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'history_magic';
+const DB_VERSION = 2;
+
+export const JOB_STORE = 'generation_jobs';
+export const STORY_STORE = 'stories';
+export const STORY_INDEX_STORE = 'story_index';
+
+// One step per database version; step N upgrades version N to N + 1.
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+  // v1: resumable generation jobs
+  db => {
+    if (!db.objectStoreNames.contains(JOB_STORE)) {
+      db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+    }
+  },
+  // v2: story library (full records plus a light index for the sidebar)
+  db => {
+    db.createObjectStore(STORY_STORE, { keyPath: 'id' });
+    db.createObjectStore(STORY_INDEX_STORE, { keyPath: 'id' });
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          UPGRADES[version](db);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs requests inside one transaction and resolves with the result of the
+ * request returned by `action` once the transaction commits.
+ */
+export const withTransaction = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([requestToPromise(action(tx)), committed]);
+  return result;
+};
+
+/** Runs a single request against one object store and resolves with its result once the transaction commits. */
+export const withStore = <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => withTransaction([storeName], mode, tx => action(tx.objectStore(storeName)));
@@ -0,0 +1,81 @@
+import { ExportFrameRate, ExportProfile, ExportResolution } from '../types';
+
+const STORAGE_KEY = 'history_magic_export_profiles';
+
+export const EXPORT_RESOLUTIONS: Record<ExportResolution, { label: string; shortSide: number }> = {
+  '720p': { label: '720p', shortSide: 720 },
+  '1080p': { label: '1080p 全高清', shortSide: 1080 },
+  '1440p': { label: '1440p 2K', shortSide: 1440 },
+};
+
+export const EXPORT_FRAME_RATES: ExportFrameRate[] = [24, 30, 60];
+
+export const EXPORT_AUDIO_BITRATE = 128000;
+
+export const BUILTIN_EXPORT_PROFILES: ExportProfile[] = [
+  { id: 'standard', name: '标准', resolution: '720p', fps: 30, videoBitrate: 8000000 },
+  { id: 'hd', name: '高清', resolution: '1080p', fps: 30, videoBitrate: 12000000 },
+  { id: 'smooth', name: '高帧率', resolution: '1080p', fps: 60, videoBitrate: 20000000 },
+  { id: 'cinema', name: '电影感', resolution: '1080p', fps: 24, videoBitrate: 10000000 },
+  { id: '2k', name: '2K', resolution: '1440p', fps: 30, videoBitrate: 24000000 },
+];
+
+export const DEFAULT_EXPORT_PROFILE = BUILTIN_EXPORT_PROFILES[0];
+
+// Bits per pixel per frame: below the first step H.264 turns blocky on moving pictures
+const QUALITY_STEPS: { bitsPerPixel: number; label: string }[] = [
+  { bitsPerPixel: 0.06, label: '省流' },
+  { bitsPerPixel: 0.12, label: '标准' },
+  { bitsPerPixel: 0.2, label: '高清' },
+  { bitsPerPixel: Infinity, label: '极清' },
+];
+const MIN_BITS_PER_PIXEL = 0.03;
+const MAX_BITS_PER_PIXEL = 0.35;
+// MP4 headers and index, roughly
+const CONTAINER_OVERHEAD = 1.02;
+
+const pixelsPerSecond = (resolution: ExportResolution, fps: number) => {
+  const short = EXPORT_RESOLUTIONS[resolution].shortSide;
+  return short * Math.round((short * 16) / 9) * fps;
+};
+
+/** Sensible limits for the bitrate slider at this size and rate, in bits per second. */
+export const bitrateRange = (resolution: ExportResolution, fps: number) => {
+  const pixels = pixelsPerSecond(resolution, fps);
+  const toStep = (bps: number) => Math.round(bps / 500000) * 500000;
+  return { min: Math.max(500000, toStep(pixels * MIN_BITS_PER_PIXEL)), max: toStep(pixels * MAX_BITS_PER_PIXEL) };
+};
+
+export const qualityLabel = (profile: ExportProfile) => {
+  const bitsPerPixel = profile.videoBitrate / pixelsPerSecond(profile.resolution, profile.fps);
+  return QUALITY_STEPS.find(step => bitsPerPixel < step.bitsPerPixel)!.label;
+};
+
+/** Expected file size in bytes for a video of `durationSec`. */
+export const estimateFileSize = (profile: ExportProfile, durationSec: number) =>
+  ((profile.videoBitrate + EXPORT_AUDIO_BITRATE) * durationSec / 8) * CONTAINER_OVERHEAD;
+
+/** Keeps the bitrate inside the slider's range when the resolution or frame rate changes. */
+export const withBitrateInRange = (profile: ExportProfile): ExportProfile => {
+  const { min, max } = bitrateRange(profile.resolution, profile.fps);
+  return { ...profile, videoBitrate: Math.min(max, Math.max(min, profile.videoBitrate)) };
+};
+
+export interface ExportProfileSettings {
+  saved: ExportProfile[];
+  /** The profile last chosen, offered again next time. */
+  last: ExportProfile;
+}
+
+export const loadExportProfileSettings = (): ExportProfileSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { saved: [], last: DEFAULT_EXPORT_PROFILE, ...JSON.parse(saved) } : { saved: [], last: DEFAULT_EXPORT_PROFILE };
+  } catch (e) {
+    return { saved: [], last: DEFAULT_EXPORT_PROFILE };
+  }
+};
+
+export const saveExportProfileSettings = (settings: ExportProfileSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
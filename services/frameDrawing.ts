@@ -0,0 +1,72 @@
+import { CameraFraming } from '../types';
+
+/**
+ * Canvas drawing shared by the video renderer and the player, so what plays in the
+ * browser is drawn by the same code as what ends up in the exported file.
+ */
+
+export type VisualAsset = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+/** Draws `asset` cover-fitted to the frame and scaled about its centre. */
+export function drawAsset(
+    ctx: CanvasRenderingContext2D,
+    asset: VisualAsset,
+    w: number,
+    h: number,
+    scale: number
+) {
+    const isVideo = asset instanceof HTMLVideoElement;
+    const assetW = isVideo ? asset.videoWidth : asset.width;
+    const assetH = isVideo ? asset.videoHeight : asset.height;
+
+    if (assetW === 0 || assetH === 0) return;
+
+    const assetRatio = assetW / assetH;
+    const canvasRatio = w / h;
+
+    let renderW, renderH;
+
+    // Cover fit
+    if (assetRatio > canvasRatio) {
+        renderH = h;
+        renderW = h * assetRatio;
+    } else {
+        renderW = w;
+        renderH = w / assetRatio;
+    }
+
+    renderW *= scale;
+    renderH *= scale;
+
+    const x = (w - renderW) / 2;
+    const y = (h - renderH) / 2;
+
+    ctx.drawImage(asset, x, y, renderW, renderH);
+}
+
+/** Draws the part of `asset` that `framing` picks out, filling the frame. */
+export function drawFramed(
+    ctx: CanvasRenderingContext2D,
+    asset: VisualAsset,
+    w: number,
+    h: number,
+    framing: CameraFraming
+) {
+    const zoom = 1 / framing.size;
+    ctx.save();
+    ctx.scale(zoom, zoom);
+    ctx.translate(-framing.x * w, -framing.y * h);
+    drawAsset(ctx, asset, w, h, 1);
+    ctx.restore();
+}
+
+/** Starts a path around a rectangle with rounded corners; fill or stroke it afterwards. */
+export function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+    ctx.beginPath();
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + w, y, x + w, y + h, r);
+    ctx.arcTo(x + w, y + h, x, y + h, r);
+    ctx.arcTo(x, y + h, x, y, r);
+    ctx.arcTo(x, y, x + w, y, r);
+    ctx.closePath();
+}
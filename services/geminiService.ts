@@ -1,72 +1,140 @@
-import { GoogleGenAI, Type, Modality, VideoGenerationReferenceType } from "@google/genai";
-import { Scene, Story, VoiceName, AspectRatio } from "../types";
-import { decodeBase64 } from "./audioUtils";
-
-// Initialize client
-// Use a function to get the key to ensure it's picked up from env
-const getApiKey = () => process.env.API_KEY || '';
-const getClient = () => new GoogleGenAI({ apiKey: getApiKey() });
-
-export const generateStoryStructure = async (topic: string, aspectRatio: AspectRatio): Promise<Omit<Story, 'id' | 'createdAt' | 'aspectRatio'>> => {
-  const ai = getClient();
-  
+import { Type } from "@google/genai";
+import { DialogueLine, FactCheck, NARRATOR_SPEAKER, QuizQuestion, Scene, SceneClaim, Story, StoryBible, StoryStyle, VoiceCast, VoiceName, AspectRatio } from "../types";
+import { getProvider } from "./providers";
+import { getScheduler, TaskCallbacks } from "./generationScheduler";
+import { AUDIENCE_META, DEFAULT_STORY_STYLE, narrationCharLimit, PERSONA_META, TONE_META } from "./storyStyle";
+import { chunkByVoice, hasDialogue, joinLines } from "./voiceCasting";
+
+// All model calls go through the active provider (Gemini, or the offline mock)
+// via the shared scheduler, which enforces rate limits and retries quota errors.
+// This module owns the prompts and the app-facing error handling.
+
+export const generateStoryStructure = async (
+  topic: string,
+  aspectRatio: AspectRatio,
+  style: StoryStyle = DEFAULT_STORY_STYLE
+): Promise<Omit<Story, 'id' | 'createdAt' | 'aspectRatio'>> => {
   const orientationDesc = aspectRatio === '16:9' ? "wide shot, cinematic" : "vertical, portrait mode, mobile wallpaper style";
+  const tone = TONE_META[style.tone];
+  const maxChars = narrationCharLimit(style);
+  const durationNote = style.targetDurationSec
+    ? `\n    全片朗读时长控制在约${style.targetDurationSec}秒。`
+    : '';
 
   const prompt = `
-    为5-8岁的儿童创作一个关于历史故事"${topic}"的**脱口秀风格**讲解脚本。
+    为${AUDIENCE_META[style.audience].prompt}创作一个关于历史故事"${topic}"的讲解脚本。
+    讲述者：${PERSONA_META[style.persona].prompt}，全程用第一人称讲述。
     
     风格要求：
-    1. **脱口秀/单口相声风格**：不要用刻板的“很久很久以前”，要用第一人称“我”或者“本喵/本大王”来讲述。
-    2. **幽默风趣**：加入一些**无伤大雅的现代梗**、网络流行语（如“破防了”、“真香”、“yyds”等适合孩子理解的词），让历史人物变得接地气。
-    3. **互动感**：像是在对着观众演讲，多用反问句和感叹句。
-    4. **情节生动**：虽然是搞笑风格，但核心历史事实要准确。
+    ${tone.prompt}
     
     结构要求：
-    包含标题、一段爆笑的开场白（introduction），以及12个具体的场景。
+    包含标题、一段开场白（introduction）、一份角色与场景设定（bible），以及${style.sceneCount}个具体的场景。${durationNote}
+    bible 用来保证每一幕画面里的人物长得一样：
+    - characters: 故事里反复出现的主要角色（最多6个），name 用中文名，appearance/clothing/palette 用**英文**写清楚外貌、服饰和配色，要符合历史时代。
+    - era / setting / palette: 用**英文**写时代、地点环境和整体配色。
     每个场景需要：
-    - narration: 一段适合朗读的**中文**旁白，要在100字以内，口语化，带梗。
+    - narration: 一段适合朗读的**中文**旁白，要在${maxChars}字以内，口语化，符合上面的风格。
     - visual_prompt: 用于生成画面的**英文**提示词。必须包含: children's book illustration, ${aspectRatio} aspect ratio, ${orientationDesc}, vibrant colors, cute characters, 3d style, detailed background.
+    - characters: 这一幕画面里出现的角色名（必须和 bible 里的 name 完全一致），没有就给空数组。
+    - lines: 把 narration 按说话人拆开，用于多角色配音。讲述者的话 speaker 填"${NARRATOR_SPEAKER}"，角色亲口说的台词 speaker 填 bible 里的 name。所有 lines 的 text 连起来必须等于 narration。没有角色台词就只给一条${NARRATOR_SPEAKER}。
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING, description: "The title of the story" },
-            introduction: { type: Type.STRING, description: "A humorous, stand-up comedy style intro" },
-            scenes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.INTEGER, description: "Scene sequence number" },
-                  narration: { type: Type.STRING, description: "Humorous talk-show style voiceover text in Chinese" },
-                  visual_prompt: { type: Type.STRING, description: `Image generation prompt in English, ${aspectRatio} ratio` }
-                },
-                required: ["id", "narration", "visual_prompt"],
-                propertyOrdering: ["id", "narration", "visual_prompt"]
-              }
-            }
+    const text = await getScheduler().run('text', () => getProvider().generateJson({
+      task: 'storyStructure',
+      topic,
+      sceneCount: style.sceneCount,
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "The title of the story" },
+          introduction: { type: Type.STRING, description: `${tone.schemaHint} intro` },
+          bible: {
+            type: Type.OBJECT,
+            description: "Character and setting sheet used to keep every scene image consistent",
+            properties: {
+              characters: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING, description: "Character name in Chinese" },
+                    appearance: { type: Type.STRING, description: "Face, age, build and hair, in English" },
+                    clothing: { type: Type.STRING, description: "Period-accurate clothing and props, in English" },
+                    palette: { type: Type.STRING, description: "Signature colours, in English" }
+                  },
+                  required: ["name", "appearance", "clothing", "palette"],
+                  propertyOrdering: ["name", "appearance", "clothing", "palette"]
+                }
+              },
+              era: { type: Type.STRING, description: "Historical era, in English" },
+              setting: { type: Type.STRING, description: "Main locations and architecture, in English" },
+              palette: { type: Type.STRING, description: "Overall colour palette, in English" }
+            },
+            required: ["characters", "era", "setting", "palette"],
+            propertyOrdering: ["characters", "era", "setting", "palette"]
           },
-          required: ["title", "introduction", "scenes"],
-          propertyOrdering: ["title", "introduction", "scenes"]
-        }
+          scenes: {
+            type: Type.ARRAY,
+            minItems: String(style.sceneCount),
+            maxItems: String(style.sceneCount),
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.INTEGER, description: "Scene sequence number" },
+                narration: { type: Type.STRING, description: `${tone.schemaHint} voiceover text in Chinese, at most ${maxChars} characters` },
+                visual_prompt: { type: Type.STRING, description: `Image generation prompt in English, ${aspectRatio} ratio` },
+                characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names from bible.characters shown in this scene" },
+                lines: {
+                  type: Type.ARRAY,
+                  description: "The narration split by speaker",
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      speaker: { type: Type.STRING, description: `"${NARRATOR_SPEAKER}" or a name from bible.characters` },
+                      text: { type: Type.STRING, description: "What this speaker says, in Chinese" }
+                    },
+                    required: ["speaker", "text"],
+                    propertyOrdering: ["speaker", "text"]
+                  }
+                }
+              },
+              required: ["id", "narration", "visual_prompt", "characters", "lines"],
+              propertyOrdering: ["id", "narration", "visual_prompt", "characters", "lines"]
+            }
+          }
+        },
+        required: ["title", "introduction", "bible", "scenes"],
+        propertyOrdering: ["title", "introduction", "bible", "scenes"]
       }
-    });
+    }));
 
-    const text = response.text;
     if (!text) throw new Error("生成故事结构失败: 响应为空");
     
     const parsed = JSON.parse(text);
     if (!parsed.scenes || !Array.isArray(parsed.scenes)) {
         throw new Error("生成故事结构失败: 场景数据缺失");
     }
-    return parsed;
+    // Models occasionally overshoot the requested count
+    parsed.scenes = parsed.scenes.slice(0, style.sceneCount);
+
+    // Drop character references that don't match the sheet
+    const bible: StoryBible | undefined = parsed.bible?.characters ? parsed.bible : undefined;
+    const known = new Set((bible?.characters || []).map(c => c.name));
+    parsed.scenes = parsed.scenes.map((scene: Scene) => {
+      // Unknown speakers are read by the narrator; the joined lines become the narration
+      const lines = (scene.lines || [])
+        .filter((line: DialogueLine) => line.text?.trim())
+        .map((line: DialogueLine) => known.has(line.speaker) ? line : { ...line, speaker: NARRATOR_SPEAKER });
+      return {
+        ...scene,
+        characters: (scene.characters || []).filter(name => known.has(name)),
+        ...(lines.length > 0 ? { lines, narration: joinLines(lines) } : { lines: undefined })
+      };
+    });
+    return { ...parsed, bible, style };
 
   } catch (error) {
     console.error("Story structure generation failed:", error);
@@ -74,29 +142,159 @@ export const generateStoryStructure = async (topic: string, aspectRatio: AspectR
   }
 };
 
-export const generateSceneImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
-  const ai = getClient();
-  
-  const finalPrompt = `${prompt}, ${aspectRatio} aspect ratio, cinematic lighting, high resolution`;
+/**
+ * Optional second pass over a generated script: sorts each scene's claims into
+ * recorded history, legend and comic embellishment, with notes and sources for adults.
+ */
+export const generateFactCheck = async (
+  topic: string,
+  script: Pick<Story, 'title' | 'introduction' | 'scenes'>
+): Promise<FactCheck> => {
+  const sceneLines = script.scenes.map(s => `[场景 ${s.id}] ${s.narration}`).join('\n');
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image', // Nano Banana
-      contents: {
-        parts: [
-          { text: finalPrompt }
-        ]
+  const prompt = `
+    你是一位严谨的中国历史学者，正在为家长和老师审核一段儿童历史故事脚本《${script.title}》（主题：${topic}）。
+    脚本为了有趣，加入了很多夸张和现代梗。请逐个场景找出其中的关键说法，并判断它属于：
+    - fact: 有正史或可靠史料记载的史实
+    - legend: 神话、传说、演义小说（如《三国演义》《西游记》）里的情节，并非史实
+    - embellishment: 脚本为了好玩加的夸张、对白或现代梗
+    
+    要求：
+    1. 每个场景至少一条 claim，sceneId 必须是下面脚本里的场景编号；explanation 用一句家长能读给孩子听的中文解释。
+    2. summary 用一句话说明整个故事是史实、传说还是二者混合。
+    3. teacherNotes 给 2-4 条简短的中文教学提示（比如正史和演义的区别、可以和孩子讨论的问题）。
+    4. references 列出 1-4 条真实存在的书目（书名、作者、相关篇章），不要编造。
+    
+    开场白：${script.introduction}
+    ${sceneLines}
+  `;
+
+  const text = await getScheduler().run('text', () => getProvider().generateJson({
+    task: 'factCheck',
+    topic,
+    sceneIds: script.scenes.map(s => s.id),
+    prompt,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING, description: "One-sentence verdict in Chinese" },
+        claims: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              sceneId: { type: Type.INTEGER, description: "Scene number from the script" },
+              claim: { type: Type.STRING, description: "The statement being checked, in Chinese" },
+              kind: { type: Type.STRING, enum: ['fact', 'legend', 'embellishment'] },
+              explanation: { type: Type.STRING, description: "Short explanation in Chinese" }
+            },
+            required: ["sceneId", "claim", "kind", "explanation"],
+            propertyOrdering: ["sceneId", "claim", "kind", "explanation"]
+          }
+        },
+        teacherNotes: { type: Type.ARRAY, items: { type: Type.STRING } },
+        references: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              author: { type: Type.STRING },
+              note: { type: Type.STRING }
+            },
+            required: ["title"],
+            propertyOrdering: ["title", "author", "note"]
+          }
+        }
       },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      }
-    });
+      required: ["summary", "claims", "teacherNotes", "references"],
+      propertyOrdering: ["summary", "claims", "teacherNotes", "references"]
+    }
+  }));
+
+  const parsed = JSON.parse(text);
+  const sceneIds = new Set(script.scenes.map(s => s.id));
+  return {
+    summary: parsed.summary || '',
+    claims: (parsed.claims || []).filter((c: SceneClaim) =>
+      sceneIds.has(c.sceneId) && ['fact', 'legend', 'embellishment'].includes(c.kind)),
+    teacherNotes: parsed.teacherNotes || [],
+    references: parsed.references || [],
+    checkedAt: Date.now(),
+  };
+};
+
+/** Comprehension questions for after the story, each tied to the scene that answers it. */
+export const generateQuiz = async (
+  topic: string,
+  script: Pick<Story, 'title' | 'scenes'>,
+  style: StoryStyle = DEFAULT_STORY_STYLE
+): Promise<QuizQuestion[]> => {
+  const count = AUDIENCE_META[style.audience].quizSize;
+  const sceneLines = script.scenes.map(s => `[场景 ${s.id}] ${s.narration}`).join('\n');
 
-    const part = response.candidates?.[0]?.content?.parts?.[0];
-    if (part && part.inlineData && part.inlineData.data) {
-      return part.inlineData.data;
+  const prompt = `
+    根据下面的儿童历史故事《${script.title}》，为${AUDIENCE_META[style.audience].prompt}出${count}道理解小测验。
+    要求：
+    1. 题型混合：multipleChoice（3-4个选项）和 trueFalse（options 固定为 ["对", "错"]）。
+    2. 每道题只考故事里讲过的内容，sceneId 填答案所在的场景编号。
+    3. answerIndex 是正确选项在 options 里的下标（从0开始），正确答案的位置要随机。
+    4. explanation 用一两句鼓励性的中文解释为什么。
+    5. 语言简单，适合孩子自己读或家长读给孩子听。
+    
+    ${sceneLines}
+  `;
+
+  const text = await getScheduler().run('text', () => getProvider().generateJson({
+    task: 'quiz',
+    topic,
+    sceneIds: script.scenes.map(s => s.id),
+    prompt,
+    schema: {
+      type: Type.ARRAY,
+      minItems: String(count),
+      maxItems: String(count),
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneId: { type: Type.INTEGER, description: "Scene number where the answer is found" },
+          type: { type: Type.STRING, enum: ['multipleChoice', 'trueFalse'] },
+          question: { type: Type.STRING, description: "Question in Chinese" },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          answerIndex: { type: Type.INTEGER, description: "Zero-based index of the correct option" },
+          explanation: { type: Type.STRING, description: "Short explanation in Chinese" }
+        },
+        required: ["sceneId", "type", "question", "options", "answerIndex", "explanation"],
+        propertyOrdering: ["sceneId", "type", "question", "options", "answerIndex", "explanation"]
+      }
     }
-    throw new Error("Image generation returned no data");
+  }));
+
+  const parsed: Omit<QuizQuestion, 'id'>[] = JSON.parse(text);
+  const sceneIds = new Set(script.scenes.map(s => s.id));
+  return parsed
+    .map(q => q.type === 'trueFalse' ? { ...q, options: ['对', '错'] } : q)
+    .filter(q => sceneIds.has(q.sceneId) && q.answerIndex >= 0 && q.answerIndex < q.options.length)
+    .map((q, i) => ({ ...q, id: i + 1 }));
+};
+
+/**
+ * `referenceImages` are earlier scene images whose characters should look the same;
+ * the prompt should already carry the character sheet (see characterBible.buildScenePrompt).
+ */
+export const generateSceneImage = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  callbacks?: TaskCallbacks,
+  referenceImages?: string[]
+): Promise<string> => {
+  const referenceNote = referenceImages?.length
+    ? ', the characters must look exactly like in the reference images (same face, hair, clothing and colours)'
+    : '';
+  const finalPrompt = `${prompt}, ${aspectRatio} aspect ratio, cinematic lighting, high resolution${referenceNote}`;
+
+  try {
+    return await getScheduler().run('image', () => getProvider().generateImage({ prompt: finalPrompt, aspectRatio, referenceImages }), callbacks);
   } catch (error) {
     console.error("Image generation failed:", error);
     throw error; 
@@ -104,8 +302,6 @@ export const generateSceneImage = async (prompt: string, aspectRatio: AspectRati
 };
 
 export const generateCoverImage = async (topic: string, aspectRatio: AspectRatio, count: number = 4): Promise<string[]> => {
-  const ai = getClient();
-  
   const orientationDesc = aspectRatio === '16:9' ? "wide cinematic landscape" : "vertical mobile wallpaper";
 
   // Prompt optimization: Removed "movie poster" to avoid text generation.
@@ -119,161 +315,24 @@ export const generateCoverImage = async (topic: string, aspectRatio: AspectRatio
     Crucial Constraint: NO TEXT, NO TITLES, NO WORDS, NO LETTERS in the image. Pure artwork only.
   `;
 
-  try {
-      // Try Imagen 3 (via version 4.0 endpoint) for higher quality
-      const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-            numberOfImages: count,
-            aspectRatio: aspectRatio,
-            outputMimeType: 'image/jpeg'
-        }
-      });
-      
-      const images = response.generatedImages?.map(img => img.image?.imageBytes).filter(Boolean) as string[];
-      if (images && images.length > 0) return images;
-      throw new Error("No images generated from Imagen");
-
-  } catch (e) {
-      console.log("Imagen failed, falling back to flash-image", e);
-      
-      // Fallback to flash-image (Nano Banana). 
-      // Since it doesn't support numberOfImages, we make parallel requests or just one loop if count > 1.
-      const variations = [
-          "close-up shot",
-          "wide angle shot",
-          "side view",
-          "dynamic action shot"
-      ].slice(0, count);
-
-      // If count is 1, just use one prompt
-      const promptsToRun = count === 1 ? [`${prompt}, ${aspectRatio} aspect ratio`] : variations.map(v => `${prompt}, ${v}, ${aspectRatio} aspect ratio`);
-
-      try {
-          const promises = promptsToRun.map(p => 
-            ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [{ text: p }] },
-                config: { responseModalities: [Modality.IMAGE] }
-            })
-          );
-
-          const responses = await Promise.all(promises);
-          const images = responses
-            .map(res => res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data)
-            .filter((data): data is string => !!data);
-
-          if (images.length > 0) return images;
-          throw e;
-
-      } catch (fallbackError) {
-          console.error("Fallback generation failed", fallbackError);
-          throw fallbackError;
-      }
-  }
+  return getScheduler().run('image', () => getProvider().generateImages({ prompt, aspectRatio, count }));
 };
 
 /**
  * Ensures Veo API Key is available. Returns true if ready, false/throws if failed.
  */
 export const checkVeoSetup = async (): Promise<boolean> => {
-    const aistudio = (window as any).aistudio;
-    if (aistudio) {
-        try {
-            const hasKey = await aistudio.hasSelectedApiKey();
-            if (!hasKey) {
-                await aistudio.openSelectKey();
-                // Double check after dialog close (race condition mitigation handled by just proceeding usually, 
-                // but here we just open it)
-                return true; // Assuming user interacts
-            }
-            return true;
-        } catch (e) {
-            console.error("Failed to check/open API key dialog", e);
-            return false;
-        }
-    }
-    return true; // If aistudio object missing, assumes running in env where key is injected or not controlled this way
+    return getProvider().ensureVideoAccess();
 };
 
-export const generateVeoScene = async (prompt: string, aspectRatio: AspectRatio, imageBase64?: string): Promise<string | null> => {
+export const generateVeoScene = async (prompt: string, aspectRatio: AspectRatio, imageBase64?: string, callbacks?: TaskCallbacks): Promise<string | null> => {
     // Proactive check
     await checkVeoSetup();
 
-    const executeGeneration = async (): Promise<string | null> => {
-        // Always create a fresh client to ensure latest API key is used
-        const ai = getClient();
-        const key = getApiKey();
-
-        // Veo 3.1 Fast Preview
-        const model = 'veo-3.1-fast-generate-preview';
-        
-        let operation;
-        // Clean base64 prefix if present
-        const base64Data = imageBase64?.replace(/^data:image\/\w+;base64,/, "");
-        
-        // Veo resolution config
-        const res = '720p'; 
-
-        if (base64Data) {
-             operation = await ai.models.generateVideos({
-                model: model,
-                prompt: prompt, 
-                image: {
-                    imageBytes: base64Data,
-                    mimeType: 'image/jpeg' 
-                },
-                config: {
-                    numberOfVideos: 1,
-                    resolution: res,
-                    aspectRatio: aspectRatio 
-                }
-            });
-        } else {
-            operation = await ai.models.generateVideos({
-                model: model,
-                prompt: prompt,
-                config: {
-                    numberOfVideos: 1,
-                    resolution: res,
-                    aspectRatio: aspectRatio
-                }
-            });
-        }
-        
-        // Poll for completion
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 5000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
-        }
-        
-        const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (uri) {
-            // Fetch the actual video bytes using the key
-            const vidResponse = await fetch(`${uri}&key=${key}`);
-            if (!vidResponse.ok) throw new Error("Failed to download video bytes");
-            const blob = await vidResponse.blob();
-            return URL.createObjectURL(blob);
-        }
-        return null;
-    };
-
     try {
-        return await executeGeneration();
-    } catch (e: any) {
-        // Handle specific Veo 404 error: "Requested entity was not found."
-        const errorMsg = e.message || JSON.stringify(e);
-        if (errorMsg.includes("Requested entity was not found") || errorMsg.includes("404")) {
-            const aistudio = (window as any).aistudio;
-            if (aistudio) {
-                console.log("Veo entity not found (key missing?), requesting key selection...");
-                await aistudio.openSelectKey();
-                // Retry once with the new key
-                return await executeGeneration();
-            }
-        }
-
+        const blob = await getScheduler().run('video', () => getProvider().generateVideo({ kind: 'scene', prompt, aspectRatio, image: imageBase64 }), callbacks);
+        return blob ? URL.createObjectURL(blob) : null;
+    } catch (e) {
         console.error("Veo generation failed", e);
         return null;
     }
@@ -288,128 +347,80 @@ export const generateVeoTransition = async (startImageB64: string, endImageB64:
  * Generates a Veo video sequence from up to 3 reference images.
  * Selects 'veo-3.1-generate-preview' if 3 images + 16:9, otherwise 'veo-3.1-fast-generate-preview'.
  */
-export const generateVeoSequence = async (imagesB64: string[], aspectRatio: AspectRatio): Promise<string | null> => {
+export const generateVeoSequence = async (imagesB64: string[], aspectRatio: AspectRatio, callbacks?: TaskCallbacks): Promise<string | null> => {
     await checkVeoSetup();
 
-    const executeGeneration = async (): Promise<string | null> => {
-        const ai = getClient();
-        const key = getApiKey();
-        
-        // Clean all images
-        const cleanImages = imagesB64.map(img => img.replace(/^data:image\/\w+;base64,/, ""));
-        
-        let operation;
-        
-        // Logic: Use Veo 3.1 (High Quality) if we have 3 images and 16:9 (as required by capabilities)
-        // Otherwise use Veo Fast with Image + LastFrame
-        if (cleanImages.length >= 3 && aspectRatio === '16:9') {
-            console.log("Using Veo 3.1 Preview (3 Images)");
-            const referenceImagesPayload = cleanImages.slice(0, 3).map(img => ({
-                image: {
-                    imageBytes: img,
-                    mimeType: 'image/jpeg'
-                },
-                referenceType: VideoGenerationReferenceType.ASSET
-            }));
-
-            operation = await ai.models.generateVideos({
-                model: 'veo-3.1-generate-preview',
-                prompt: "A seamless cinematic story sequence connecting these scenes.",
-                config: {
-                    numberOfVideos: 1,
-                    referenceImages: referenceImagesPayload,
-                    resolution: '720p',
-                    aspectRatio: '16:9'
-                }
-            });
-
-        } else {
-            // Fallback to Fast model (2 images max)
-            console.log("Using Veo 3.1 Fast Preview (2 Images)");
-            const startBytes = cleanImages[0];
-            const endBytes = cleanImages[cleanImages.length - 1]; // Use last image as target
-
-            operation = await ai.models.generateVideos({
-                model: 'veo-3.1-fast-generate-preview',
-                prompt: "Smooth cinematic morphing transition between these two scenes",
-                image: {
-                    imageBytes: startBytes,
-                    mimeType: 'image/jpeg'
-                },
-                config: {
-                    numberOfVideos: 1,
-                    resolution: '720p',
-                    aspectRatio: aspectRatio,
-                    lastFrame: {
-                        imageBytes: endBytes,
-                        mimeType: 'image/jpeg'
-                    }
-                }
-            });
-        }
-
-        // Polling
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 5000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
-        }
-
-        const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (uri) {
-            const vidResponse = await fetch(`${uri}&key=${key}`);
-            if (!vidResponse.ok) throw new Error("Failed to download transition video bytes");
-            const blob = await vidResponse.blob();
-            return URL.createObjectURL(blob);
-        }
-        return null;
-    };
-
     try {
-        return await executeGeneration();
-    } catch (e: any) {
-        const errorMsg = e.message || JSON.stringify(e);
-        if (errorMsg.includes("Requested entity was not found") || errorMsg.includes("404")) {
-             const aistudio = (window as any).aistudio;
-             if (aistudio) {
-                await aistudio.openSelectKey();
-                return await executeGeneration();
-             }
-        }
+        const blob = await getScheduler().run('video', () => getProvider().generateVideo({ kind: 'sequence', images: imagesB64, aspectRatio }), callbacks);
+        return blob ? URL.createObjectURL(blob) : null;
+    } catch (e) {
         console.error("Veo sequence generation failed", e);
         return null;
     }
 };
 
 
-export const generateVoiceover = async (text: string, voice: VoiceName): Promise<ArrayBuffer> => {
-  const ai = getClient();
-  
+export const generateVoiceover = async (text: string, voice: VoiceName, callbacks?: TaskCallbacks): Promise<ArrayBuffer> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("Audio generation returned no data");
-
-    return decodeBase64(base64Audio).buffer;
+    return await getScheduler().run('speech', () => getProvider().generateSpeech({ text, voice }), callbacks);
   } catch (error) {
     console.error("Voiceover generation failed:", error);
     throw error;
   }
 };
 
+/**
+ * Voices a scene. Scenes with dialogue lines are read with each character's cast voice,
+ * two voices per TTS request, and the PCM of each request is joined in order.
+ */
+export const generateSceneVoiceover = async (
+  scene: Scene,
+  narratorVoice: VoiceName,
+  cast?: VoiceCast,
+  callbacks?: TaskCallbacks
+): Promise<ArrayBuffer> => {
+  if (!scene.lines || !hasDialogue(scene)) {
+    return generateVoiceover(scene.narration, narratorVoice, callbacks);
+  }
+
+  const chunks = chunkByVoice(scene.lines, narratorVoice, cast);
+  const parts: ArrayBuffer[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    // Only report the first request so the scene shows as running once
+    const chunkCallbacks = i === 0 ? callbacks : undefined;
+    const voices = Array.from(new Set(chunk.map(row => row.voice)));
+
+    if (voices.length === 1) {
+      parts.push(await generateVoiceover(chunk.map(row => row.text).join(''), voices[0], chunkCallbacks));
+      continue;
+    }
+
+    const speakers = voices.map((voice, n) => ({ speaker: `Speaker${n + 1}`, voice }));
+    const aliasOf = (voice: VoiceName) => speakers.find(s => s.voice === voice)!.speaker;
+    const transcript = [
+      "Read this children's story aloud in Mandarin Chinese, each speaker in character:",
+      ...chunk.map(row => `${aliasOf(row.voice)}: ${row.text}`)
+    ].join('\n');
+
+    try {
+      parts.push(await getScheduler().run('speech', () => getProvider().generateSpeech({ text: transcript, voice: narratorVoice, speakers }), chunkCallbacks));
+    } catch (error) {
+      console.error("Dialogue voiceover generation failed:", error);
+      throw error;
+    }
+  }
+
+  const pcm = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    pcm.set(new Uint8Array(p), offset);
+    offset += p.byteLength;
+  });
+  return pcm.buffer;
+};
+
 export const generateRecommendedTopics = async (): Promise<string[]> => {
-  const ai = getClient();
   const prompt = `
     请推荐 4 个适合 5-8 岁儿童的中国历史典故、神话传说或成语故事。
     要求：
@@ -423,19 +434,16 @@ export const generateRecommendedTopics = async (): Promise<string[]> => {
   const defaultTopics = ["草船借箭", "孔融让梨", "大闹天宫", "哪吒闹海"];
 
   try {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
+    // No retries: the defaults are fine if the quota is busy
+    const text = await getScheduler().run('text', () => getProvider().generateJson({
+        task: 'recommendedTopics',
+        prompt,
+        schema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
         }
-    });
+    }), { maxRetries: 0 });
 
-    const text = response.text;
     if (!text) return defaultTopics;
     
     try {
@@ -0,0 +1,210 @@
+import { AspectRatio, AssetStatus, FactCheck, GenerationJob, QuizQuestion, Scene, SceneGenerationProgress, Story, StoryBible, StoryStyle, VoiceCast, VoiceName } from '../types';
+import { JOB_STORE, withStore } from './db';
+import { generateCoverImage, generateSceneImage, generateSceneVoiceover } from './geminiService';
+import { addTitleToCover } from './imageProcessor';
+import { DEFAULT_STORY_STYLE } from './storyStyle';
+import { buildScenePrompt, referenceAnchors, referenceImagesFor, sceneCharacters } from './characterBible';
+import { defaultMusicFor } from './audioMixer';
+
+export interface NewJobParams {
+  topic: string;
+  voice: VoiceName;
+  cast?: VoiceCast;
+  style: StoryStyle;
+  aspectRatio: AspectRatio;
+  title: string;
+  introduction: string;
+  bible?: StoryBible;
+  factCheck?: FactCheck;
+  quiz?: QuizQuestion[];
+  scenes: Scene[];
+}
+
+export const createGenerationJob = (params: NewJobParams): GenerationJob => {
+  const now = Date.now();
+  return {
+    ...params,
+    id: now.toString(),
+    sceneStatus: params.scenes.map(() => ({ image: 'pending', audio: 'pending' })),
+    coverStatus: 'pending',
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const saveJob = async (job: GenerationJob): Promise<void> => {
+  await withStore(JOB_STORE, 'readwrite', store => store.put(job));
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await withStore(JOB_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Loads unfinished jobs, newest first. Anything still marked running was cut
+ * off by a reload, so its in-flight assets go back to pending.
+ */
+export const loadJobs = async (): Promise<GenerationJob[]> => {
+  const jobs = await withStore<GenerationJob[]>(JOB_STORE, 'readonly', store => store.getAll());
+  const reset = (status: AssetStatus): AssetStatus => status === 'running' ? 'pending' : status;
+  return jobs
+    .map(job => ({
+      ...job,
+      // Jobs saved before styles were configurable used the default
+      style: job.style || DEFAULT_STORY_STYLE,
+      status: 'incomplete' as const,
+      sceneStatus: job.sceneStatus.map(s => ({ image: reset(s.image), audio: reset(s.audio) })),
+      coverStatus: reset(job.coverStatus),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const isJobComplete = (job: GenerationJob) =>
+  job.coverStatus === 'done' && job.sceneStatus.every(s => s.image === 'done' && s.audio === 'done');
+
+export const countFinishedAssets = (job: GenerationJob) => {
+  let done = 0;
+  let failed = 0;
+  const statuses = [...job.sceneStatus.flatMap(s => [s.image, s.audio]), job.coverStatus];
+  statuses.forEach(status => {
+    if (status === 'done') done++;
+    if (status === 'failed') failed++;
+  });
+  return { done, failed, total: statuses.length };
+};
+
+export const storyFromJob = (job: GenerationJob): Story => ({
+  id: job.id,
+  title: job.title,
+  introduction: job.introduction,
+  scenes: job.scenes,
+  createdAt: job.createdAt,
+  aspectRatio: job.aspectRatio,
+  coverImage: job.coverImage,
+  voice: job.voice,
+  cast: job.cast,
+  style: job.style,
+  bible: job.bible,
+  factCheck: job.factCheck,
+  quiz: job.quiz,
+  music: defaultMusicFor(job.style),
+});
+
+/**
+ * Copies the job's finished images, narration and cover into the library copy of its
+ * story, keeping everything added to that copy since (clips, quiz results, styling).
+ */
+export const mergeJobIntoStory = (story: Story, job: GenerationJob): Story => ({
+  ...story,
+  scenes: story.scenes.map(scene => {
+    const index = job.scenes.findIndex(s => s.id === scene.id);
+    if (index === -1) return scene;
+    const status = job.sceneStatus[index];
+    return {
+      ...scene,
+      ...(status.image === 'done' ? { imageData: job.scenes[index].imageData } : {}),
+      ...(status.audio === 'done' ? { audioData: job.scenes[index].audioData } : {}),
+    };
+  }),
+  coverImage: job.coverStatus === 'done' ? job.coverImage : story.coverImage,
+});
+
+/**
+ * Generates every asset that isn't done yet (pending or failed), persisting the job
+ * after each change so a reload can pick up where it left off.
+ */
+export const runGenerationJob = async (
+  initial: GenerationJob,
+  onUpdate: (job: GenerationJob) => void
+): Promise<GenerationJob> => {
+  const requeue = (status: AssetStatus): AssetStatus => status === 'done' ? 'done' : 'pending';
+  let job: GenerationJob = {
+    ...initial,
+    status: 'running',
+    sceneStatus: initial.sceneStatus.map(s => ({ image: requeue(s.image), audio: requeue(s.audio) })),
+    coverStatus: requeue(initial.coverStatus),
+  };
+
+  // Writes are chained so they land in order and are all flushed before we return
+  let persisted = Promise.resolve();
+  const commit = (next: Partial<GenerationJob>) => {
+    job = { ...job, ...next, updatedAt: Date.now() };
+    onUpdate(job);
+    const snapshot = job;
+    persisted = persisted
+      .then(() => saveJob(snapshot))
+      .catch(e => console.warn("Failed to persist generation job", e));
+  };
+
+  const setSceneAsset = (index: number, asset: keyof SceneGenerationProgress, status: AssetStatus, patch?: Partial<Scene>) => {
+    commit({
+      sceneStatus: job.sceneStatus.map((s, i) => i === index ? { ...s, [asset]: status } : s),
+      scenes: patch ? job.scenes.map((s, i) => i === index ? { ...s, ...patch } : s) : job.scenes,
+    });
+  };
+
+  commit({});
+
+  const jobs: Promise<void>[] = [];
+  // Scenes that introduce a character go first; later scenes with that character
+  // wait for its image and pass it along as a reference.
+  const anchors = referenceAnchors(job.scenes, job.bible);
+  const imageTasks: Promise<void>[] = [];
+
+  job.scenes.forEach((scene, i) => {
+    if (job.sceneStatus[i].image !== 'done') {
+      const waitFor = sceneCharacters(scene, job.bible)
+        .map(c => anchors.get(c.name)!)
+        .filter(anchor => anchor < i && imageTasks[anchor]);
+      imageTasks[i] = Promise.all(waitFor.map(anchor => imageTasks[anchor]))
+        .then(() => generateSceneImage(
+          buildScenePrompt(scene, job.bible),
+          job.aspectRatio,
+          { onStart: () => setSceneAsset(i, 'image', 'running') },
+          referenceImagesFor(job.scenes, i, job.bible)
+        ))
+        .then(imageData => setSceneAsset(i, 'image', 'done', { imageData }))
+        .catch(e => {
+          console.error("Scene image failed", e);
+          setSceneAsset(i, 'image', 'failed');
+        });
+      jobs.push(imageTasks[i]);
+    }
+
+    if (job.sceneStatus[i].audio !== 'done') {
+      jobs.push(
+        generateSceneVoiceover(scene, job.voice, job.cast, {
+          onStart: () => setSceneAsset(i, 'audio', 'running')
+        })
+          .then(audioData => setSceneAsset(i, 'audio', 'done', { audioData }))
+          .catch(e => {
+            console.error("Scene audio failed", e);
+            setSceneAsset(i, 'audio', 'failed');
+          })
+      );
+    }
+  });
+
+  if (job.coverStatus !== 'done') {
+    jobs.push((async () => {
+      try {
+        // Generate only 1 image for speed
+        const [rawCover] = await generateCoverImage(job.title, job.aspectRatio, 1);
+        if (!rawCover) throw new Error("No cover image returned");
+        // Composite title
+        const coverImage = await addTitleToCover(rawCover, job.title, job.aspectRatio);
+        commit({ coverImage, coverStatus: 'done' });
+      } catch (e) {
+        console.warn("Auto cover generation failed", e);
+        commit({ coverStatus: 'failed' });
+      }
+    })());
+  }
+
+  await Promise.all(jobs);
+
+  if (!isJobComplete(job)) commit({ status: 'incomplete' });
+  await persisted;
+  return job;
+};
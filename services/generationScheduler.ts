@@ -0,0 +1,121 @@
+import { getProvider, LaneLimits, ModelLane, ProviderName } from './providers';
+
+const MINUTE_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+
+export interface TaskCallbacks {
+  /** Called each time the task actually gets a slot and starts running. */
+  onStart?: () => void;
+  /** Called when the task is held back by the requests-per-minute limit. */
+  onWait?: (delayMs: number) => void;
+  /** Called before a retry after a rate limit or server error. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface TaskOptions extends TaskCallbacks {
+  maxRetries?: number;
+}
+
+export interface GenerationScheduler {
+  run<T>(lane: ModelLane, task: () => Promise<T>, options?: TaskOptions): Promise<T>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * True for 429 (quota) and 5xx errors. The SDK doesn't expose a typed status
+ * on every path, so we also look at the message.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const e = error as any;
+  const status = Number(e?.status ?? e?.code ?? e?.error?.code);
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  const message = String(e?.message ?? '');
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const createLane = (limits: LaneLimits) => {
+  let active = 0;
+  const startTimes: number[] = [];
+  const waiting: (() => void)[] = [];
+
+  const acquire = async (onWait?: (delayMs: number) => void) => {
+    while (true) {
+      const now = Date.now();
+      while (startTimes.length > 0 && now - startTimes[0] >= MINUTE_MS) startTimes.shift();
+
+      if (active < limits.concurrency && startTimes.length < limits.requestsPerMinute) {
+        active++;
+        startTimes.push(now);
+        return;
+      }
+
+      if (active >= limits.concurrency) {
+        await new Promise<void>(resolve => waiting.push(resolve));
+      } else {
+        const delayMs = startTimes[0] + MINUTE_MS - now;
+        onWait?.(delayMs);
+        await sleep(delayMs);
+      }
+    }
+  };
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return { acquire, release };
+};
+
+/**
+ * Runs generation jobs with per-lane concurrency and requests-per-minute limits,
+ * retrying 429/5xx failures with exponential backoff.
+ */
+export const createScheduler = (limits: Record<ModelLane, LaneLimits>): GenerationScheduler => {
+  const lanes: Record<ModelLane, ReturnType<typeof createLane>> = {
+    text: createLane(limits.text),
+    image: createLane(limits.image),
+    speech: createLane(limits.speech),
+    video: createLane(limits.video),
+  };
+
+  const run = async <T,>(lane: ModelLane, task: () => Promise<T>, options: TaskOptions = {}): Promise<T> => {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await lanes[lane].acquire(options.onWait);
+      let delayMs: number;
+      try {
+        options.onStart?.();
+        return await task();
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+        delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+        console.warn(`${lane} request failed (attempt ${attempt + 1}), retrying in ${delayMs}ms`, error);
+        options.onRetry?.(attempt + 1, delayMs, error);
+      } finally {
+        lanes[lane].release();
+      }
+      await sleep(delayMs);
+    }
+  };
+
+  return { run };
+};
+
+const schedulers = new Map<ProviderName, GenerationScheduler>();
+
+/** Shared scheduler for the active provider, so every caller draws from the same quota. */
+export const getScheduler = (): GenerationScheduler => {
+  const provider = getProvider();
+  let scheduler = schedulers.get(provider.name);
+  if (!scheduler) {
+    scheduler = createScheduler(provider.limits);
+    schedulers.set(provider.name, scheduler);
+  }
+  return scheduler;
+};
@@ -0,0 +1,92 @@
+/**
+ * Line breaking for Chinese text drawn on a canvas. Follows the usual typesetting rules:
+ * closing punctuation never starts a line (it may hang past the edge instead), opening
+ * punctuation never ends one, breaks fall after a comma where one is close by, and the
+ * last line is never a lone character.
+ */
+
+const NO_LINE_START = new Set(Array.from('，。、；：？！…—～’”）》」』】〕〉·,.;:?!)]}%'));
+const NO_LINE_END = new Set(Array.from('“‘（《「『【〔〈([{'));
+const BREAK_AFTER = new Set(Array.from('，。、；：？！…,.;:?!'));
+// A comma this far into a line is worth breaking early for
+const PREFERRED_BREAK_FROM = 0.6;
+// How many closing marks may hang past the edge
+const MAX_HANGING = 2;
+
+export const isPunctuation = (char: string) => NO_LINE_START.has(char) || NO_LINE_END.has(char);
+
+/**
+ * Splits `items` (one per character) into lines no wider than `maxWidth`, except for
+ * hanging punctuation. Lines come out roughly even rather than one full line and a stub,
+ * and never more of them than filling each line to the edge would give, so callers can
+ * budget lines by character count.
+ */
+export function breakLines<T>(items: T[], charOf: (item: T) => string, widthOf: (item: T) => number, maxWidth: number): T[][] {
+  if (items.length === 0) return [[]];
+  const widths = items.map(widthOf);
+  const chars = items.map(charOf);
+  const total = widths.reduce((a, b) => a + b, 0);
+  if (total <= maxWidth) return [items];
+
+  const greedy = breakAt(chars, widths, maxWidth, false);
+  // Even the lines out: same number of lines, each about as wide as the average plus a character
+  const balancedWidth = Math.min(maxWidth, total / greedy.length + total / items.length);
+  const candidates = [
+    breakAt(chars, widths, balancedWidth, true),
+    breakAt(chars, widths, balancedWidth, false),
+    breakAt(chars, widths, maxWidth, true),
+  ];
+  const breaks = candidates.find(candidate => candidate.length <= greedy.length) || greedy;
+
+  const lines = breaks.map(([start, end]) => items.slice(start, end));
+  avoidOrphan(lines, charOf);
+  return lines;
+}
+
+/** [start, end) index ranges of each line when filling up to `limit`. */
+function breakAt(chars: string[], widths: number[], limit: number, preferCommas: boolean): [number, number][] {
+  const lines: [number, number][] = [];
+  let start = 0;
+  while (start < chars.length) {
+    let end = start;
+    let width = 0;
+    while (end < chars.length && (end === start || width + widths[end] <= limit)) {
+      width += widths[end];
+      end++;
+    }
+    if (end < chars.length) {
+      // Break after a comma near the end of the line rather than mid-phrase
+      for (let k = end - 1; preferCommas && k > start + (end - start) * PREFERRED_BREAK_FROM; k--) {
+        if (BREAK_AFTER.has(chars[k])) {
+          end = k + 1;
+          break;
+        }
+      }
+      // Opening marks go down with the character they open
+      while (end - 1 > start && NO_LINE_END.has(chars[end - 1])) end--;
+      // Closing marks hang past the edge rather than start the next line
+      let hanging = 0;
+      while (end < chars.length && NO_LINE_START.has(chars[end]) && hanging < MAX_HANGING) {
+        end++;
+        hanging++;
+      }
+    }
+    lines.push([start, end]);
+    start = end;
+  }
+  return lines;
+}
+
+/** Pulls characters down from the line above until the last line has at least two real ones. */
+function avoidOrphan<T>(lines: T[][], charOf: (item: T) => string) {
+  if (lines.length < 2) return;
+  const last = lines[lines.length - 1];
+  const previous = lines[lines.length - 2];
+  const letters = (line: T[]) => line.filter(item => !isPunctuation(charOf(item))).length;
+  while (letters(last) < 2 && letters(previous) > 2) {
+    // Take a character together with any closing marks after it
+    let take = 1;
+    while (take < previous.length && NO_LINE_START.has(charOf(previous[previous.length - take]))) take++;
+    last.unshift(...previous.splice(previous.length - take, take));
+  }
+}
@@ -0,0 +1,114 @@
+import { LoudnessPresetId } from '../types';
+
+/**
+ * Integrated loudness (ITU-R BS.1770 / EBU R128) of decoded audio, and the gain
+ * needed to bring it to a target. Used by the video export so every scene's
+ * narration lands at the same level, whatever the TTS model returned.
+ */
+
+export const LOUDNESS_PRESETS: Record<LoudnessPresetId, { label: string; description: string; target: number | null }> = {
+  platform: { label: '短视频 -14 LUFS', description: '抖音、B站、YouTube 的标准', target: -14 },
+  podcast: { label: '播客 -16 LUFS', description: '音频平台、耳机收听', target: -16 },
+  broadcast: { label: '广播 -23 LUFS', description: 'EBU R128 电视广播', target: -23 },
+  off: { label: '不处理', description: '保留原始音量', target: null },
+};
+
+export const DEFAULT_LOUDNESS_PRESET: LoudnessPresetId = 'platform';
+
+const BLOCK_SEC = 0.4;
+const STEP_SEC = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+// Keep a near-silent clip from being boosted into noise
+const MAX_BOOST_DB = 15;
+const MAX_CUT_DB = -20;
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+/** The two K-weighting stages from BS.1770, computed for any sample rate (as libebur128 does). */
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const q = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return {
+      b0: (vh + (vb * k) / q + k * k) / a0,
+      b1: (2 * (k * k - vh)) / a0,
+      b2: (vh - (vb * k) / q + k * k) / a0,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q + k * k) / a0,
+    };
+  })();
+
+  const highPass = (() => {
+    const k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const q = 0.5003270373238773;
+    const a0 = 1 + k / q + k * k;
+    return {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q + k * k) / a0,
+    };
+  })();
+
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad) => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/** Integrated loudness in LUFS; -Infinity for silence. */
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const filters = kWeighting(buffer.sampleRate);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    filters.reduce((signal, f) => applyBiquad(signal, f), buffer.getChannelData(c)));
+
+  const blockSize = Math.round(BLOCK_SEC * buffer.sampleRate);
+  const step = Math.round(STEP_SEC * buffer.sampleRate);
+  const meanSquareOf = (start: number, end: number) =>
+    channels.reduce((sum, samples) => {
+      let energy = 0;
+      for (let i = start; i < end; i++) energy += samples[i] * samples[i];
+      return sum + energy / (end - start);
+    }, 0);
+
+  // Clips shorter than one block are measured as a single block
+  const blocks: number[] = [];
+  if (buffer.length <= blockSize) {
+    if (buffer.length > 0) blocks.push(meanSquareOf(0, buffer.length));
+  } else {
+    for (let start = 0; start + blockSize <= buffer.length; start += step) {
+      blocks.push(meanSquareOf(start, start + blockSize));
+    }
+  }
+
+  const audible = blocks.filter(ms => ms > 0 && blockLoudness(ms) > ABSOLUTE_GATE);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = blockLoudness(audible.reduce((a, b) => a + b, 0) / audible.length) + RELATIVE_GATE;
+  const gated = audible.filter(ms => blockLoudness(ms) > relativeGate);
+  return blockLoudness(gated.reduce((a, b) => a + b, 0) / gated.length);
+};
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Linear gain that moves audio measured at `loudness` to `target`; 1 for silence. */
+export const normalizationGain = (loudness: number, target: number) => {
+  if (!isFinite(loudness)) return 1;
+  return dbToGain(Math.min(MAX_BOOST_DB, Math.max(MAX_CUT_DB, target - loudness)));
+};
@@ -0,0 +1,180 @@
+import { Mp4AudioTrack, Mp4Sample, muxMp4 } from './mp4Muxer';
+
+/**
+ * Encodes rendered frames and a finished audio mix to MP4 with WebCodecs. Frames are
+ * pulled one at a time, so rendering runs as fast as the encoder allows instead of
+ * in real time, and every frame lands exactly on its timestamp.
+ */
+
+export interface Mp4EncodeSettings {
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+const KEYFRAME_INTERVAL_SEC = 2;
+// Frames allowed to wait in the encoder before rendering pauses for it
+const MAX_QUEUED_FRAMES = 8;
+const AUDIO_CHUNK_SEC = 1;
+
+// [level_idc, max macroblocks per frame, max macroblocks per second] from the H.264 spec
+const AVC_LEVELS: [number, number, number][] = [
+  [31, 3600, 108000], [32, 5120, 216000], [40, 8192, 245760], [42, 8704, 522240],
+  [50, 22080, 589824], [51, 36864, 983040], [52, 36864, 2073600],
+];
+// High, Main, then Baseline for encoders that only do the simpler profiles
+const AVC_PROFILES = ['6400', '4d00', '4200'];
+
+/** avc1 codec strings for this size and rate, best profile first. */
+const avcCodecs = (width: number, height: number, fps: number) => {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const level = AVC_LEVELS.find(([, frame, second]) => macroblocks <= frame && macroblocks * fps <= second)?.[0] ?? 52;
+  return AVC_PROFILES.map(profile => `avc1.${profile}${level.toString(16).padStart(2, '0')}`);
+};
+
+const findVideoConfig = async (settings: Mp4EncodeSettings): Promise<VideoEncoderConfig | null> => {
+  for (const codec of avcCodecs(settings.width, settings.height, settings.fps)) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: settings.width,
+      height: settings.height,
+      framerate: settings.fps,
+      bitrate: settings.videoBitrate,
+      avc: { format: 'avc' },
+    };
+    try {
+      if ((await VideoEncoder.isConfigSupported(config)).supported) return config;
+    } catch (e) {}
+  }
+  return null;
+};
+
+// MP4 players expect AAC; Opus is the fallback for browsers without an AAC encoder
+const findAudioConfig = async (sampleRate: number, channels: number, bitrate: number) => {
+  for (const [codec, name] of [['mp4a.40.2', 'aac'], ['opus', 'opus']] as const) {
+    const config: AudioEncoderConfig = { codec, sampleRate, numberOfChannels: channels, bitrate };
+    try {
+      if ((await AudioEncoder.isConfigSupported(config)).supported) return { config, codec: name };
+    } catch (e) {}
+  }
+  return null;
+};
+
+/** Whether this browser can encode MP4 offline; otherwise the caller falls back to MediaRecorder. */
+export const canEncodeMp4 = async (settings: Mp4EncodeSettings, audio: { sampleRate: number; channels: number }) => {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined' || typeof VideoFrame === 'undefined') return false;
+  return !!(await findVideoConfig(settings)) && !!(await findAudioConfig(audio.sampleRate, audio.channels, settings.audioBitrate));
+};
+
+const copyBytes = (source: AllowSharedBufferSource) =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength))
+    : new Uint8Array(source.slice(0));
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk): Mp4Sample => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return { data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, keyframe: chunk.type === 'key' };
+};
+
+const encodeAudio = async (audio: AudioBuffer, bitrate: number): Promise<Mp4AudioTrack> => {
+  const found = await findAudioConfig(audio.sampleRate, audio.numberOfChannels, bitrate);
+  if (!found) throw new Error("No supported audio encoder");
+
+  const track: Mp4AudioTrack = { codec: found.codec, sampleRate: audio.sampleRate, channels: audio.numberOfChannels, samples: [] };
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description && !track.description) {
+        track.description = copyBytes(description);
+      }
+      track.samples.push(copyChunk(chunk));
+    },
+    error: (e) => { failure = e; },
+  });
+  encoder.configure(found.config);
+
+  const chunkFrames = Math.round(audio.sampleRate * AUDIO_CHUNK_SEC);
+  for (let offset = 0; offset < audio.length; offset += chunkFrames) {
+    const frames = Math.min(chunkFrames, audio.length - offset);
+    // Planar: each channel's samples one after another
+    const planes = new Float32Array(frames * audio.numberOfChannels);
+    for (let c = 0; c < audio.numberOfChannels; c++) {
+      planes.set(audio.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      numberOfFrames: frames,
+      timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+      data: planes,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return track;
+};
+
+/**
+ * Renders `frameCount` frames through `drawFrame` (which draws frame `index` onto
+ * `canvas`), encodes them with `audio` and returns the muxed MP4.
+ */
+export const encodeMp4 = async (
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  drawFrame: (index: number) => Promise<void>,
+  audio: AudioBuffer,
+  settings: Mp4EncodeSettings,
+  onProgress: (fraction: number) => void
+): Promise<Blob> => {
+  const config = await findVideoConfig(settings);
+  if (!config) throw new Error("No supported H.264 encoder");
+
+  const samples: Mp4Sample[] = [];
+  let avcConfig: Uint8Array | null = null;
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description && !avcConfig) {
+        avcConfig = copyBytes(description);
+      }
+      samples.push(copyChunk(chunk));
+    },
+    error: (e) => { failure = e; },
+  });
+  encoder.configure(config);
+
+  const frameDuration = 1e6 / settings.fps;
+  const keyframeEvery = Math.round(settings.fps * KEYFRAME_INTERVAL_SEC);
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (failure) throw failure;
+      await drawFrame(i);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: i % keyframeEvery === 0 });
+      frame.close();
+
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      if (i % settings.fps === 0) onProgress(i / frameCount);
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+  if (!avcConfig) throw new Error("Encoder returned no H.264 configuration");
+
+  onProgress(1);
+  const audioTrack = await encodeAudio(audio, settings.audioBitrate);
+  return muxMp4({ width: settings.width, height: settings.height, avcConfig, samples }, audioTrack);
+};
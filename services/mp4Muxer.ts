@@ -0,0 +1,222 @@
+/**
+ * A minimal MP4 (ISO BMFF) writer for encoded WebCodecs output: one H.264 video track
+ * and an optional AAC or Opus audio track, interleaved, with the index up front so the
+ * file starts playing before it has fully loaded.
+ */
+
+export interface Mp4Sample {
+  data: Uint8Array;
+  /** Microseconds. */
+  timestamp: number;
+  duration: number;
+  keyframe: boolean;
+}
+
+export interface Mp4VideoTrack {
+  width: number;
+  height: number;
+  /** The avcC record from the encoder's decoderConfig.description. */
+  avcConfig: Uint8Array;
+  samples: Mp4Sample[];
+}
+
+export interface Mp4AudioTrack {
+  codec: 'aac' | 'opus';
+  sampleRate: number;
+  channels: number;
+  /** AudioSpecificConfig for AAC; unused for Opus. */
+  description?: Uint8Array;
+  samples: Mp4Sample[];
+}
+
+const VIDEO_TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+// Opus in MP4 always counts 48 kHz samples, like Ogg
+const OPUS_RATE = 48000;
+const OPUS_PRE_SKIP = 312;
+
+const textEncoder = new TextEncoder();
+
+type Bytes = Uint8Array | number[];
+
+const concat = (parts: Bytes[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const u8 = (v: number) => [v & 0xff];
+const u16 = (v: number) => [(v >>> 8) & 0xff, v & 0xff];
+const u24 = (v: number) => [(v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+const fourcc = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const zeros = (n: number) => new Array<number>(n).fill(0);
+
+const box = (type: string, ...body: Bytes[]) => {
+  const content = concat(body);
+  return concat([u32(8 + content.length), fourcc(type), content]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...body: Bytes[]) =>
+  box(type, u8(version), u24(flags), ...body);
+
+// Identity transform, in 16.16 / 2.30 fixed point
+const MATRIX = [...u32(0x00010000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x00010000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)];
+
+/** One track's samples in its own timescale. */
+interface TrackLayout {
+  id: number;
+  timescale: number;
+  durations: number[];
+  samples: Mp4Sample[];
+  /** File offset of each sample, filled in once mdat is laid out. */
+  offsets: number[];
+}
+
+const layoutTrack = (id: number, timescale: number, samples: Mp4Sample[]): TrackLayout => {
+  // Durations from consecutive timestamps, so rounding never accumulates into drift
+  const ticks = (us: number) => Math.round((us * timescale) / 1e6);
+  const durations = samples.map((s, i) =>
+    i < samples.length - 1 ? ticks(samples[i + 1].timestamp) - ticks(s.timestamp) : Math.max(1, ticks(s.duration)));
+  return { id, timescale, durations, samples, offsets: samples.map(() => 0) };
+};
+
+const trackDuration = (track: TrackLayout) => track.durations.reduce((a, b) => a + b, 0);
+
+/** Run-length sample durations. */
+const stts = (durations: number[]) => {
+  const runs: [number, number][] = [];
+  durations.forEach(d => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === d) last[0]++;
+    else runs.push([1, d]);
+  });
+  return fullBox('stts', 0, 0, u32(runs.length), ...runs.map(([count, delta]) => [...u32(count), ...u32(delta)]));
+};
+
+const sampleTable = (track: TrackLayout, sampleEntry: Uint8Array, isVideo: boolean) => {
+  const keyframes = track.samples.flatMap((s, i) => (s.keyframe ? [i + 1] : []));
+  return box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    stts(track.durations),
+    // Every audio packet is a sync sample, so audio leaves stss out
+    ...(isVideo ? [fullBox('stss', 0, 0, u32(keyframes.length), ...keyframes.map(u32))] : []),
+    // One sample per chunk keeps the layout free to interleave
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(track.samples.length), ...track.samples.map(s => u32(s.data.length))),
+    fullBox('stco', 0, 0, u32(track.offsets.length), ...track.offsets.map(u32)),
+  );
+};
+
+const trackBox = (
+  track: TrackLayout,
+  handler: 'vide' | 'soun',
+  sampleEntry: Uint8Array,
+  size: { width: number; height: number } | null
+) => {
+  const isVideo = handler === 'vide';
+  const movieDuration = Math.round((trackDuration(track) * MOVIE_TIMESCALE) / track.timescale);
+  return box('trak',
+    fullBox('tkhd', 0, 3,
+      u32(0), u32(0), u32(track.id), u32(0), u32(movieDuration), zeros(8),
+      u16(0), u16(0), u16(isVideo ? 0 : 0x0100), u16(0), MATRIX,
+      u32((size?.width ?? 0) << 16), u32((size?.height ?? 0) << 16)),
+    box('mdia',
+      // Language 'und'
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(track.timescale), u32(trackDuration(track)), u16(0x55c4), u16(0)),
+      fullBox('hdlr', 0, 0, u32(0), fourcc(handler), zeros(12), textEncoder.encode(isVideo ? 'VideoHandler' : 'SoundHandler'), [0]),
+      box('minf',
+        isVideo ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        sampleTable(track, sampleEntry, isVideo),
+      ),
+    ),
+  );
+};
+
+const avc1Entry = (video: Mp4VideoTrack) =>
+  box('avc1',
+    zeros(6), u16(1), zeros(16),
+    u16(video.width), u16(video.height),
+    u32(0x00480000), u32(0x00480000), u32(0), u16(1),
+    zeros(32), u16(0x0018), u16(0xffff),
+    box('avcC', video.avcConfig),
+  );
+
+/** MPEG-4 descriptor with the fixed four-byte length form. */
+const descriptor = (tag: number, ...body: Bytes[]) => {
+  const content = concat(body);
+  const n = content.length;
+  return concat([[tag, 0x80 | ((n >>> 21) & 0x7f), 0x80 | ((n >>> 14) & 0x7f), 0x80 | ((n >>> 7) & 0x7f), n & 0x7f], content]);
+};
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/** AAC-LC AudioSpecificConfig, for encoders that don't hand one back. */
+const aacConfig = (sampleRate: number, channels: number) => {
+  const index = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  return new Uint8Array([(2 << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3)]);
+};
+
+const audioEntry = (audio: Mp4AudioTrack) => {
+  const isOpus = audio.codec === 'opus';
+  const rate = isOpus ? OPUS_RATE : audio.sampleRate;
+  const specific = isOpus
+    // OpusSpecificBox: version, channels, pre-skip, input rate, output gain, mapping family
+    ? box('dOps', u8(0), u8(audio.channels), u16(OPUS_PRE_SKIP), u32(audio.sampleRate), u16(0), u8(0))
+    : fullBox('esds', 0, 0, descriptor(0x03, u16(0), u8(0),
+        // AAC audio stream, then the codec config and the mandatory SL descriptor
+        descriptor(0x04, u8(0x40), u8(0x15), u24(0), u32(0), u32(0),
+          descriptor(0x05, audio.description?.length ? audio.description : aacConfig(audio.sampleRate, audio.channels))),
+        descriptor(0x06, u8(0x02))));
+  return box(isOpus ? 'Opus' : 'mp4a',
+    zeros(6), u16(1), zeros(8),
+    u16(audio.channels), u16(16), zeros(4),
+    u32(Math.min(rate, 0xffff) << 16),
+    specific,
+  );
+};
+
+const buildMoov = (video: TrackLayout, videoInfo: Mp4VideoTrack, audio: TrackLayout | null, audioInfo?: Mp4AudioTrack) => {
+  const durations = [video, audio].filter((t): t is TrackLayout => !!t)
+    .map(t => Math.round((trackDuration(t) * MOVIE_TIMESCALE) / t.timescale));
+  return box('moov',
+    fullBox('mvhd', 0, 0,
+      u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(Math.max(...durations)),
+      u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(audio ? 3 : 2)),
+    trackBox(video, 'vide', avc1Entry(videoInfo), videoInfo),
+    ...(audio && audioInfo ? [trackBox(audio, 'soun', audioEntry(audioInfo), null)] : []),
+  );
+};
+
+/** Lays the tracks out as ftyp, moov, then one mdat with samples interleaved by time. */
+export const muxMp4 = (videoInfo: Mp4VideoTrack, audioInfo?: Mp4AudioTrack): Blob => {
+  const video = layoutTrack(1, VIDEO_TIMESCALE, videoInfo.samples);
+  const audio = audioInfo && audioInfo.samples.length > 0
+    ? layoutTrack(2, audioInfo.codec === 'opus' ? OPUS_RATE : audioInfo.sampleRate, audioInfo.samples)
+    : null;
+
+  const order = [
+    ...video.samples.map((s, i) => ({ track: video, index: i, timestamp: s.timestamp })),
+    ...(audio ? audio.samples.map((s, i) => ({ track: audio, index: i, timestamp: s.timestamp })) : []),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  const ftyp = box('ftyp', fourcc('isom'), u32(0x200), fourcc('isom'), fourcc('iso2'), fourcc('avc1'), fourcc('mp41'));
+  // The moov's size doesn't depend on the offsets it holds, so measure it once and lay out behind it
+  const moovSize = buildMoov(video, videoInfo, audio, audioInfo).length;
+  const mdatSize = 8 + order.reduce((n, o) => n + o.track.samples[o.index].data.length, 0);
+  if (ftyp.length + moovSize + mdatSize > 0xffffffff) throw new Error("Video too large for a 32-bit MP4");
+
+  let offset = ftyp.length + moovSize + 8;
+  order.forEach(o => {
+    o.track.offsets[o.index] = offset;
+    offset += o.track.samples[o.index].data.length;
+  });
+
+  const moov = buildMoov(video, videoInfo, audio, audioInfo);
+  return new Blob(
+    [ftyp, moov, new Uint8Array([...u32(mdatSize), ...fourcc('mdat')]), ...order.map(o => o.track.samples[o.index].data)] as BlobPart[],
+    { type: 'video/mp4' }
+  );
+};
@@ -0,0 +1,186 @@
+/** A piece of narration between two punctuation marks, with when it's spoken (seconds into the scene audio). */
+export interface TimedPhrase {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** What one subtitle screen shows: consecutive phrases that fit the character budget. */
+export interface SubtitlePage {
+  phrases: TimedPhrase[];
+  start: number;
+  end: number;
+}
+
+const SAMPLE_RATE = 24000;
+const FRAME_SEC = 0.02;
+// A dip in energy at least this long is treated as a pause between phrases
+const MIN_PAUSE_SEC = 0.12;
+// Energy below this fraction of the loudest frame counts as silence
+const SILENCE_RATIO = 0.06;
+
+const PHRASE_BREAK = /[，。！？；：、…,.!?;:]/;
+const CLOSING = /[”’」）)》]/;
+const PUNCTUATION = /[\s，。！？；：、…,.!?;:“”‘’"'（）()《》「」—\-]/;
+
+/** Splits narration after each punctuation mark, keeping the mark with the phrase before it. */
+export const splitPhrases = (text: string): string[] => {
+  const phrases: string[] = [];
+  let current = '';
+  let ended = false;
+  Array.from(text).forEach(char => {
+    // Runs like "！？" or a closing quote stay with the phrase they end
+    if (ended && !PHRASE_BREAK.test(char) && !CLOSING.test(char)) {
+      if (current.trim()) phrases.push(current.trim());
+      current = '';
+      ended = false;
+    }
+    current += char;
+    if (PHRASE_BREAK.test(char)) ended = true;
+  });
+  if (current.trim()) phrases.push(current.trim());
+  return phrases;
+};
+
+/** Characters that take time to read aloud; punctuation doesn't. */
+const spokenWeight = (text: string) =>
+  Math.max(1, Array.from(text).filter(char => !PUNCTUATION.test(char)).length);
+
+/** RMS energy of the 16-bit PCM in fixed-length frames. */
+const frameEnergies = (pcm: ArrayBuffer, sampleRate: number) => {
+  const samples = new Int16Array(pcm, 0, Math.floor(pcm.byteLength / 2));
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  const energies: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    const end = Math.min(offset + frameSize, samples.length);
+    let sum = 0;
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    energies.push(Math.sqrt(sum / (end - offset)) / 32768);
+  }
+  return energies;
+};
+
+/** Midpoints of the silent stretches inside the voiced part of the audio, plus where speech starts and ends. */
+const findPauses = (energies: number[]) => {
+  const threshold = Math.max(...energies, 0) * SILENCE_RATIO;
+  const voiced = energies.map(e => e > threshold);
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first === -1) return null;
+
+  const pauses: number[] = [];
+  let runStart = -1;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i]) {
+      if (runStart === -1) runStart = i;
+    } else if (runStart !== -1) {
+      if ((i - runStart) * FRAME_SEC >= MIN_PAUSE_SEC) pauses.push(((runStart + i) / 2) * FRAME_SEC);
+      runStart = -1;
+    }
+  }
+  return { speechStart: first * FRAME_SEC, speechEnd: (last + 1) * FRAME_SEC, pauses };
+};
+
+/**
+ * Estimates when each phrase of the narration is spoken. Time is shared out by character
+ * count, then each phrase boundary is moved to the nearest pause in the audio. Without
+ * audio the phrases are spread evenly over `fallbackDuration`.
+ */
+export const estimatePhraseTimings = (
+  text: string,
+  pcm?: ArrayBuffer,
+  fallbackDuration: number = 3,
+  sampleRate: number = SAMPLE_RATE
+): TimedPhrase[] => {
+  const texts = splitPhrases(text);
+  if (texts.length === 0) return [];
+
+  const detected = pcm && pcm.byteLength > 0 ? findPauses(frameEnergies(pcm, sampleRate)) : null;
+  const start = detected?.speechStart ?? 0;
+  const end = detected?.speechEnd ?? (pcm ? pcm.byteLength / 2 / sampleRate : fallbackDuration);
+  const span = Math.max(end - start, 0.1);
+
+  const weights = texts.map(spokenWeight);
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  // Boundary i sits between phrase i and i + 1
+  const boundaries: number[] = [];
+  let cumulative = 0;
+  let lastBoundary = start;
+  for (let i = 0; i < texts.length - 1; i++) {
+    cumulative += weights[i];
+    let boundary = start + span * (cumulative / total);
+    if (detected) {
+      // Only snap to a pause that's reasonably close, so one missed pause doesn't shift everything after it
+      const tolerance = Math.max(0.3, (span * weights[i]) / total / 2);
+      const nearest = detected.pauses
+        .filter(p => p > lastBoundary && Math.abs(p - boundary) <= tolerance)
+        .sort((a, b) => Math.abs(a - boundary) - Math.abs(b - boundary))[0];
+      if (nearest !== undefined) boundary = nearest;
+    }
+    boundary = Math.max(boundary, lastBoundary);
+    boundaries.push(boundary);
+    lastBoundary = boundary;
+  }
+
+  return texts.map((phrase, i) => ({
+    text: phrase,
+    start: i === 0 ? start : boundaries[i - 1],
+    end: i === texts.length - 1 ? end : boundaries[i],
+  }));
+};
+
+/** Cuts a phrase that's too long for one screen into pieces, sharing its time by length. */
+const splitLongPhrase = (phrase: TimedPhrase, maxChars: number): TimedPhrase[] => {
+  const chars = Array.from(phrase.text);
+  if (chars.length <= maxChars) return [phrase];
+  // Even pieces, so a stray "。" doesn't end up on a screen of its own
+  const size = Math.ceil(chars.length / Math.ceil(chars.length / maxChars));
+  const pieces: TimedPhrase[] = [];
+  const duration = phrase.end - phrase.start;
+  for (let offset = 0; offset < chars.length; offset += size) {
+    const pieceEnd = Math.min(offset + size, chars.length);
+    pieces.push({
+      text: chars.slice(offset, pieceEnd).join(''),
+      start: phrase.start + duration * (offset / chars.length),
+      end: phrase.start + duration * (pieceEnd / chars.length),
+    });
+  }
+  return pieces;
+};
+
+/** Groups phrases into subtitle screens of at most `maxChars` characters. */
+export const paginatePhrases = (phrases: TimedPhrase[], maxChars: number): SubtitlePage[] => {
+  const pages: SubtitlePage[] = [];
+  let current: TimedPhrase[] = [];
+  let length = 0;
+
+  phrases.flatMap(p => splitLongPhrase(p, maxChars)).forEach(phrase => {
+    const phraseLength = Array.from(phrase.text).length;
+    if (current.length > 0 && length + phraseLength > maxChars) {
+      pages.push({ phrases: current, start: current[0].start, end: current[current.length - 1].end });
+      current = [];
+      length = 0;
+    }
+    current.push(phrase);
+    length += phraseLength;
+  });
+  if (current.length > 0) {
+    pages.push({ phrases: current, start: current[0].start, end: current[current.length - 1].end });
+  }
+  return pages;
+};
+
+/** Index of the phrase (or page) being spoken at `time`; before the first it's 0, after the last it's the last. */
+export const indexAtTime = (items: { start: number; end: number }[], time: number) => {
+  const index = items.findIndex(item => time < item.end);
+  return index === -1 ? items.length - 1 : index;
+};
+
+/** How many characters of the phrase have been read out by `time`, for the karaoke fill. */
+export const spokenCharCount = (phrase: TimedPhrase, time: number) => {
+  const length = Array.from(phrase.text).length;
+  if (time <= phrase.start) return 0;
+  if (time >= phrase.end) return length;
+  return Math.floor(length * ((time - phrase.start) / (phrase.end - phrase.start)));
+};
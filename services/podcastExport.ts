@@ -0,0 +1,185 @@
+import { LoudnessPresetId, Story } from '../types';
+import { decodeAudioData, decodeBase64, encodeWav } from './audioUtils';
+import { createMixBus, sceneMusic } from './audioMixer';
+import { LOUDNESS_PRESETS, measureLoudness, normalizationGain } from './loudness';
+import { splitPhrases } from './narrationTiming';
+import {
+  AudioChapter, AudioMetadata, muxOgg, OggPacket, opusHead, opusTags, OPUS_GRANULE_RATE, OPUS_PRE_SKIP, wavMetadataChunks
+} from './audioContainers';
+
+export type PodcastFormat = 'wav' | 'opus';
+
+export const PODCAST_FORMATS: Record<PodcastFormat, { label: string; description: string; extension: string; mimeType: string }> = {
+  wav: { label: 'WAV 无损', description: '文件较大，兼容所有播放器', extension: 'wav', mimeType: 'audio/wav' },
+  opus: { label: 'Opus 压缩', description: '体积约为 WAV 的 1/6，适合手机', extension: 'opus', mimeType: 'audio/ogg' },
+};
+
+export interface PodcastOptions {
+  format: PodcastFormat;
+  /** Narration of `story.introduction`, played as the opening chapter. */
+  introAudio?: ArrayBuffer;
+  withMusic: boolean;
+  loudness: LoudnessPresetId;
+}
+
+// Same rate as the TTS output, so narration isn't resampled
+const SAMPLE_RATE = 24000;
+const LEAD_IN_SEC = 1.5;
+const GAP_SEC = 0.8;
+const TAIL_SEC = 3;
+const OPUS_BITRATE = 64000;
+const ARTIST = '历史小诸葛';
+
+/** "第3幕 诸葛亮草船借箭" — the scene number plus its first phrase. */
+const chapterTitle = (index: number, narration: string) => {
+  const first = (splitPhrases(narration)[0] || '').replace(/[，。！？；：、…,.!?;:“”"]/g, '');
+  return `第${index + 1}幕${first ? ` ${first.slice(0, 20)}` : ''}`;
+};
+
+interface Segment {
+  title: string;
+  pcm: ArrayBuffer;
+  /** Scene index, or -1 for the introduction. */
+  sceneIndex: number;
+}
+
+/**
+ * Mixes the introduction and every voiced scene, one after another, over the story's
+ * music into mono PCM, offline and faster than real time.
+ */
+const renderPodcast = async (story: Story, options: PodcastOptions) => {
+  const segments: Segment[] = [];
+  if (options.introAudio) segments.push({ title: '开场', pcm: options.introAudio, sceneIndex: -1 });
+  story.scenes.forEach((scene, i) => {
+    if (scene.audioData) segments.push({ title: chapterTitle(i, scene.narration), pcm: scene.audioData, sceneIndex: i });
+  });
+  if (segments.length === 0) throw new Error("No narration to export");
+
+  const leadIn = options.withMusic ? LEAD_IN_SEC : 0.3;
+  const spoken = segments.reduce((sum, s) => sum + s.pcm.byteLength / 2 / SAMPLE_RATE, 0);
+  const total = leadIn + spoken + GAP_SEC * (segments.length - 1) + TAIL_SEC;
+
+  const ctx = new OfflineAudioContext(1, Math.ceil(total * SAMPLE_RATE), SAMPLE_RATE);
+  const target = LOUDNESS_PRESETS[options.loudness].target;
+  const mix = createMixBus(ctx, ctx.destination, { mastering: target !== null });
+  const musicFor = (segment: Segment) =>
+    !options.withMusic ? 'none' : sceneMusic(story, story.scenes[Math.max(0, segment.sceneIndex)]);
+
+  mix.fadeTo(0, 0, 0);
+  mix.setMusic(musicFor(segments[0]), 0);
+  mix.fadeTo(1, leadIn, 0);
+
+  const chapters: AudioChapter[] = [];
+  let time = leadIn;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const buffer = await decodeAudioData(new Uint8Array(segment.pcm.slice(0)), ctx);
+    const gain = target === null ? 1 : normalizationGain(measureLoudness(buffer), target);
+
+    mix.setMusic(musicFor(segment), time);
+    mix.scheduleNarration(buffer, time, gain);
+    story.scenes[segment.sceneIndex]?.soundEffects?.forEach(cue => {
+      if (cue.at < buffer.duration) mix.playEffect(cue.effect, time + cue.at);
+    });
+
+    // Chapters meet halfway through the gaps, and the first one starts at zero
+    chapters.push({ title: segment.title, start: i === 0 ? 0 : time - GAP_SEC / 2, end: 0 });
+    time += buffer.duration + GAP_SEC;
+  }
+  const end = time - GAP_SEC + TAIL_SEC;
+  chapters.forEach((chapter, i) => { chapter.end = chapters[i + 1]?.start ?? end; });
+  mix.fadeTo(0, TAIL_SEC, end - TAIL_SEC);
+
+  const rendered = await ctx.startRendering();
+  return { samples: rendered.getChannelData(0), chapters };
+};
+
+const toPcm16 = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm.buffer;
+};
+
+const encodeOpus = async (samples: Float32Array, metadata: AudioMetadata): Promise<Uint8Array> => {
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: SAMPLE_RATE, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  if (typeof AudioEncoder === 'undefined' || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new Error("Opus encoding is not supported in this browser");
+  }
+
+  const packets: OggPacket[] = [
+    { data: opusHead(SAMPLE_RATE, 1), granule: 0, flush: true },
+    { data: opusTags(metadata), granule: 0, flush: true },
+  ];
+  let granule = OPUS_PRE_SKIP;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      granule += Math.round(((chunk.duration || 20000) * OPUS_GRANULE_RATE) / 1e6);
+      packets.push({ data, granule });
+    },
+    error: (e) => { failure = e; },
+  });
+  encoder.configure(config);
+
+  // One-second frames keep memory flat for long stories
+  for (let offset = 0; offset < samples.length; offset += SAMPLE_RATE) {
+    const frame = samples.slice(offset, Math.min(offset + SAMPLE_RATE, samples.length));
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: frame.length,
+      timestamp: Math.round((offset / SAMPLE_RATE) * 1e6),
+      data: frame,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  // The last granule marks where the real audio ends, so decoders drop the encoder's padding
+  const last = packets[packets.length - 1];
+  last.granule = OPUS_PRE_SKIP + Math.round((samples.length / SAMPLE_RATE) * OPUS_GRANULE_RATE);
+  return muxOgg(packets);
+};
+
+const coverMetadata = async (story: Story): Promise<Pick<AudioMetadata, 'cover' | 'coverSize'>> => {
+  if (!story.coverImage) return {};
+  const cover = decodeBase64(story.coverImage);
+  try {
+    const bitmap = await createImageBitmap(new Blob([cover as BlobPart], { type: 'image/jpeg' }));
+    const coverSize = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return { cover, coverSize };
+  } catch (e) {
+    return { cover };
+  }
+};
+
+/**
+ * Exports the story as one audio file with a chapter per scene and the cover as
+ * artwork: WAV with cue points and an ID3 tag, or Ogg Opus with Vorbis-comment chapters.
+ */
+export const exportPodcast = async (
+  story: Story,
+  options: PodcastOptions,
+  onProgress: (status: string) => void
+): Promise<Blob> => {
+  onProgress('正在混音...');
+  const { samples, chapters } = await renderPodcast(story, options);
+  const metadata: AudioMetadata = { title: story.title, artist: ARTIST, chapters, ...(await coverMetadata(story)) };
+
+  onProgress('正在编码...');
+  const bytes = options.format === 'wav'
+    ? encodeWav(toPcm16(samples), SAMPLE_RATE, 1, wavMetadataChunks(metadata, SAMPLE_RATE))
+    : await encodeOpus(samples, metadata);
+  return new Blob([bytes as BlobPart], { type: PODCAST_FORMATS[options.format].mimeType });
+};
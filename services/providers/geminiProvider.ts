@@ -0,0 +1,312 @@
+import { GoogleGenAI, Modality, VideoGenerationReferenceType } from "@google/genai";
+import { decodeBase64 } from "../audioUtils";
+import { AIProvider, ImageBatchRequest, SceneImageRequest, SpeechRequest, TextRequest, VideoRequest } from "./types";
+
+// Use a function to get the key to ensure it's picked up from env
+const getApiKey = () => process.env.API_KEY || '';
+const getClient = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = 'gemini-2.5-flash-image'; // Nano Banana
+const IMAGEN_MODEL = 'imagen-4.0-generate-001';
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const VEO_FAST_MODEL = 'veo-3.1-fast-generate-preview';
+const VEO_MODEL = 'veo-3.1-generate-preview';
+
+const stripDataUrl = (b64: string) => b64.replace(/^data:image\/\w+;base64,/, "");
+
+// Our images are PNG from flash-image or JPEG from Imagen; the base64 prefix tells them apart
+const imageMimeType = (b64: string) => b64.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+
+const ensureVideoAccess = async (): Promise<boolean> => {
+    const aistudio = (window as any).aistudio;
+    if (aistudio) {
+        try {
+            const hasKey = await aistudio.hasSelectedApiKey();
+            if (!hasKey) {
+                await aistudio.openSelectKey();
+                // Double check after dialog close (race condition mitigation handled by just proceeding usually,
+                // but here we just open it)
+                return true; // Assuming user interacts
+            }
+            return true;
+        } catch (e) {
+            console.error("Failed to check/open API key dialog", e);
+            return false;
+        }
+    }
+    return true; // If aistudio object missing, assumes running in env where key is injected or not controlled this way
+};
+
+const startVideoOperation = async (ai: GoogleGenAI, request: VideoRequest) => {
+    if (request.kind === 'scene') {
+        // Veo 3.1 Fast Preview
+        const base64Data = request.image ? stripDataUrl(request.image) : undefined;
+        // Veo resolution config
+        const res = '720p';
+
+        if (base64Data) {
+            return ai.models.generateVideos({
+                model: VEO_FAST_MODEL,
+                prompt: request.prompt,
+                image: {
+                    imageBytes: base64Data,
+                    mimeType: 'image/jpeg'
+                },
+                config: {
+                    numberOfVideos: 1,
+                    resolution: res,
+                    aspectRatio: request.aspectRatio
+                }
+            });
+        }
+        return ai.models.generateVideos({
+            model: VEO_FAST_MODEL,
+            prompt: request.prompt,
+            config: {
+                numberOfVideos: 1,
+                resolution: res,
+                aspectRatio: request.aspectRatio
+            }
+        });
+    }
+
+    // Clean all images
+    const cleanImages = request.images.map(stripDataUrl);
+
+    // Logic: Use Veo 3.1 (High Quality) if we have 3 images and 16:9 (as required by capabilities)
+    // Otherwise use Veo Fast with Image + LastFrame
+    if (cleanImages.length >= 3 && request.aspectRatio === '16:9') {
+        console.log("Using Veo 3.1 Preview (3 Images)");
+        const referenceImagesPayload = cleanImages.slice(0, 3).map(img => ({
+            image: {
+                imageBytes: img,
+                mimeType: 'image/jpeg'
+            },
+            referenceType: VideoGenerationReferenceType.ASSET
+        }));
+
+        return ai.models.generateVideos({
+            model: VEO_MODEL,
+            prompt: "A seamless cinematic story sequence connecting these scenes.",
+            config: {
+                numberOfVideos: 1,
+                referenceImages: referenceImagesPayload,
+                resolution: '720p',
+                aspectRatio: '16:9'
+            }
+        });
+    }
+
+    // Fallback to Fast model (2 images max)
+    console.log("Using Veo 3.1 Fast Preview (2 Images)");
+    const startBytes = cleanImages[0];
+    const endBytes = cleanImages[cleanImages.length - 1]; // Use last image as target
+
+    return ai.models.generateVideos({
+        model: VEO_FAST_MODEL,
+        prompt: "Smooth cinematic morphing transition between these two scenes",
+        image: {
+            imageBytes: startBytes,
+            mimeType: 'image/jpeg'
+        },
+        config: {
+            numberOfVideos: 1,
+            resolution: '720p',
+            aspectRatio: request.aspectRatio,
+            lastFrame: {
+                imageBytes: endBytes,
+                mimeType: 'image/jpeg'
+            }
+        }
+    });
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+
+  // Conservative free-tier quotas; Veo is limited to 2 requests per minute.
+  limits: {
+    text: { concurrency: 2, requestsPerMinute: 10 },
+    image: { concurrency: 3, requestsPerMinute: 10 },
+    speech: { concurrency: 3, requestsPerMinute: 10 },
+    video: { concurrency: 1, requestsPerMinute: 2 },
+  },
+
+  async generateJson({ prompt, schema }: TextRequest): Promise<string> {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("Text generation returned no data");
+    return text;
+  },
+
+  async generateImage({ prompt, referenceImages = [] }: SceneImageRequest): Promise<string> {
+    const ai = getClient();
+    // flash-image takes reference images as inline parts ahead of the prompt
+    const references = referenceImages.map(image => {
+      const data = stripDataUrl(image);
+      return { inlineData: { mimeType: imageMimeType(data), data } };
+    });
+    const response = await ai.models.generateContent({
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          ...references,
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+      }
+    });
+
+    // With reference images the model may answer with some text before the image
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    if (part && part.inlineData && part.inlineData.data) {
+      return part.inlineData.data;
+    }
+    throw new Error("Image generation returned no data");
+  },
+
+  async generateImages({ prompt, aspectRatio, count }: ImageBatchRequest): Promise<string[]> {
+    const ai = getClient();
+
+    try {
+        // Try Imagen 3 (via version 4.0 endpoint) for higher quality
+        const response = await ai.models.generateImages({
+          model: IMAGEN_MODEL,
+          prompt: prompt,
+          config: {
+              numberOfImages: count,
+              aspectRatio: aspectRatio,
+              outputMimeType: 'image/jpeg'
+          }
+        });
+
+        const images = response.generatedImages?.map(img => img.image?.imageBytes).filter(Boolean) as string[];
+        if (images && images.length > 0) return images;
+        throw new Error("No images generated from Imagen");
+
+    } catch (e) {
+        console.log("Imagen failed, falling back to flash-image", e);
+
+        // Fallback to flash-image (Nano Banana).
+        // Since it doesn't support numberOfImages, we make parallel requests or just one loop if count > 1.
+        const variations = [
+            "close-up shot",
+            "wide angle shot",
+            "side view",
+            "dynamic action shot"
+        ].slice(0, count);
+
+        // If count is 1, just use one prompt
+        const promptsToRun = count === 1 ? [`${prompt}, ${aspectRatio} aspect ratio`] : variations.map(v => `${prompt}, ${v}, ${aspectRatio} aspect ratio`);
+
+        try {
+            const promises = promptsToRun.map(p =>
+              ai.models.generateContent({
+                  model: IMAGE_MODEL,
+                  contents: { parts: [{ text: p }] },
+                  config: { responseModalities: [Modality.IMAGE] }
+              })
+            );
+
+            const responses = await Promise.all(promises);
+            const images = responses
+              .map(res => res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data)
+              .filter((data): data is string => !!data);
+
+            if (images.length > 0) return images;
+            throw e;
+
+        } catch (fallbackError) {
+            console.error("Fallback generation failed", fallbackError);
+            throw fallbackError;
+        }
+    }
+  },
+
+  async generateSpeech({ text, voice, speakers }: SpeechRequest): Promise<ArrayBuffer> {
+    const ai = getClient();
+    const speechConfig = speakers && speakers.length > 1
+      ? {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(s => ({
+              speaker: s.speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+            })),
+          },
+        }
+      : {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        };
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig,
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("Audio generation returned no data");
+
+    return decodeBase64(base64Audio).buffer;
+  },
+
+  async generateVideo(request: VideoRequest): Promise<Blob | null> {
+    const executeGeneration = async (): Promise<Blob | null> => {
+        // Always create a fresh client to ensure latest API key is used
+        const ai = getClient();
+        const key = getApiKey();
+
+        let operation = await startVideoOperation(ai, request);
+
+        // Poll for completion
+        while (!operation.done) {
+            await new Promise(resolve => setTimeout(resolve, 5000));
+            operation = await ai.operations.getVideosOperation({ operation: operation });
+        }
+
+        const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (uri) {
+            // Fetch the actual video bytes using the key
+            const vidResponse = await fetch(`${uri}&key=${key}`);
+            if (!vidResponse.ok) throw new Error("Failed to download video bytes");
+            return vidResponse.blob();
+        }
+        return null;
+    };
+
+    try {
+        return await executeGeneration();
+    } catch (e: any) {
+        // Handle specific Veo 404 error: "Requested entity was not found."
+        const errorMsg = e.message || JSON.stringify(e);
+        if (errorMsg.includes("Requested entity was not found") || errorMsg.includes("404")) {
+            const aistudio = (window as any).aistudio;
+            if (aistudio) {
+                console.log("Veo entity not found (key missing?), requesting key selection...");
+                await aistudio.openSelectKey();
+                // Retry once with the new key
+                return await executeGeneration();
+            }
+        }
+        throw e;
+    }
+  },
+
+  ensureVideoAccess
+};
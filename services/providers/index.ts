@@ -0,0 +1,45 @@
+import { AIProvider, ProviderName } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export type { AIProvider, ProviderName, ModelLane, LaneLimits } from "./types";
+
+const PROVIDER_STORAGE_KEY = 'history_magic_provider';
+
+const PROVIDERS: Record<ProviderName, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+
+/**
+ * Picks the backend at startup. Precedence: `?provider=mock` in the URL,
+ * then the value remembered in localStorage, then the AI_PROVIDER env var.
+ */
+const resolveProviderName = (): ProviderName => {
+  try {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderName(fromQuery)) {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, fromQuery);
+      return fromQuery;
+    }
+    const fromStorage = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderName(fromStorage)) return fromStorage;
+  } catch (e) {
+    // Storage can be unavailable (privacy mode); fall through to env
+  }
+  // Vite replaces this with a literal at build time; there is no `process` in the browser
+  const fromEnv = process.env.AI_PROVIDER;
+  return isProviderName(fromEnv) ? fromEnv : 'gemini';
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = PROVIDERS[resolveProviderName()];
+  }
+  return activeProvider;
+};
@@ -0,0 +1,168 @@
+import { ClaimKind, DialogueLine, QuizQuestion, StoryBible } from "../../types";
+
+// Canned responses for the offline mock provider.
+// Kept deliberately small: one fully written script plus a template for any other topic.
+
+export interface MockScene {
+  id: number;
+  narration: string;
+  visual_prompt: string;
+  characters: string[];
+  lines?: DialogueLine[];
+}
+
+export interface MockStoryScript {
+  title: string;
+  introduction: string;
+  bible: StoryBible;
+  scenes: MockScene[];
+}
+
+const STYLE = "children's book illustration, vibrant colors, cute characters, 3d style, detailed background";
+
+export const MOCK_TOPICS = ["草船借箭", "孔融让梨", "大闹天宫", "哪吒闹海", "司马光砸缸", "曹冲称象"];
+
+export const MOCK_SCRIPTS: Record<string, MockStoryScript> = {
+  "草船借箭": {
+    title: "草船借箭：诸葛亮的借箭大作战",
+    introduction: "大家好，我是本喵！今天要讲一个“借东西从来不还”的故事，主角就是传说中智商爆表的诸葛亮！",
+    bible: {
+      characters: [
+        { name: "诸葛亮", appearance: "slim calm man in his late twenties, long black beard, gentle smile", clothing: "white crane-feather robe, black scholar's cap, white feather fan", palette: "white, black, pale blue" },
+        { name: "周瑜", appearance: "handsome young general, sharp eyebrows, clean-shaven", clothing: "red and gold armour with a red cape", palette: "crimson, gold" },
+        { name: "鲁肃", appearance: "round-faced kind man with a short beard, worried eyebrows", clothing: "brown official robe, dark hat", palette: "brown, olive green" },
+        { name: "曹操", appearance: "stern middle-aged warlord, thick moustache", clothing: "black armour, dark purple cape", palette: "black, purple" }
+      ],
+      era: "Eastern Han dynasty, Three Kingdoms period (208 AD)",
+      setting: "the Yangtze River near Red Cliffs, wooden war boats, army camps with banners",
+      palette: "misty blues and greys on the river, warm lantern oranges"
+    },
+    scenes: [
+      { id: 1, narration: "话说三国时期，曹操带着八十万大军压过来，孙权和刘备一看，这不得联手吗？", visual_prompt: `huge army with banners on the riverbank, ancient China, ${STYLE}`, characters: [] },
+      { id: 2, narration: "周瑜是东吴的大都督，可他心里有点酸：诸葛亮怎么比我还聪明？破防了！", visual_prompt: `young general Zhou Yu frowning in a tent, ${STYLE}`, characters: ["周瑜"] },
+      { id: 3, narration: "周瑜出了道难题：十天之内造十万支箭！造不出来？军法处置！", visual_prompt: `Zhou Yu pointing at a scroll, strict expression, ${STYLE}`, characters: ["周瑜"], lines: [{ speaker: "旁白", text: "周瑜出了道难题：" }, { speaker: "周瑜", text: "十天之内造十万支箭！造不出来？军法处置！" }] },
+      { id: 4, narration: "诸葛亮摇着羽毛扇说：十天太久，三天就够！大家都惊呆了，这是什么操作？", visual_prompt: `Zhuge Liang with feather fan smiling calmly, surprised officers, ${STYLE}`, characters: ["诸葛亮"], lines: [{ speaker: "旁白", text: "诸葛亮摇着羽毛扇说：" }, { speaker: "诸葛亮", text: "十天太久，三天就够！" }, { speaker: "旁白", text: "大家都惊呆了，这是什么操作？" }] },
+      { id: 5, narration: "他找好朋友鲁肃借了二十条船，每条船上扎满草人，还用青布围起来。", visual_prompt: `boats covered with straw dummies and blue cloth, ${STYLE}`, characters: ["鲁肃"] },
+      { id: 6, narration: "前两天诸葛亮啥也不干，该吃吃该睡睡，鲁肃急得团团转。", visual_prompt: `Lu Su pacing nervously while Zhuge Liang relaxes, ${STYLE}`, characters: ["鲁肃", "诸葛亮"] },
+      { id: 7, narration: "第三天半夜，江上起了大雾，伸手不见五指，诸葛亮说：出发！", visual_prompt: `boats sailing into thick fog at night on a river, ${STYLE}`, characters: ["诸葛亮"] },
+      { id: 8, narration: "船队靠近曹营，士兵们敲锣打鼓大声喊叫，好像要进攻一样。", visual_prompt: `soldiers on boats beating drums in the fog, ${STYLE}`, characters: [] },
+      { id: 9, narration: "曹操怕有埋伏，不敢出兵，只好下令：放箭！放箭！", visual_prompt: `Cao Cao on a watchtower ordering archers, ${STYLE}`, characters: ["曹操"] },
+      { id: 10, narration: "箭像下雨一样飞来，全扎在草人身上，船都快变成刺猬了！", visual_prompt: `arrows raining onto straw boats like a hedgehog, ${STYLE}`, characters: [] },
+      { id: 11, narration: "天快亮了，诸葛亮让士兵齐喊：谢谢曹丞相的箭！然后开开心心地回去了。", visual_prompt: `boats full of arrows sailing away at dawn, cheering soldiers, ${STYLE}`, characters: ["诸葛亮"] },
+      { id: 12, narration: "一数，十万多支箭！周瑜服气地说：诸葛亮真是神机妙算，我不如他呀！", visual_prompt: `Zhou Yu bowing to Zhuge Liang beside piles of arrows, ${STYLE}`, characters: ["周瑜", "诸葛亮"], lines: [{ speaker: "旁白", text: "一数，十万多支箭！周瑜服气地说：" }, { speaker: "周瑜", text: "诸葛亮真是神机妙算，我不如他呀！" }] }
+    ]
+  }
+};
+
+/** Builds a deterministic script for topics without a hand-written fixture. */
+export const buildTemplateScript = (topic: string, sceneCount: number = 12): MockStoryScript => {
+  const beats = [
+    "故事的主角登场了，大家先认识一下",
+    "可是，一个大麻烦突然出现了",
+    "主角皱着眉头想啊想",
+    "朋友们纷纷出主意",
+    "第一次尝试，结果失败了，尴尬",
+    "主角没有放弃，又想到了新办法",
+    "关键时刻到了，大家屏住呼吸",
+    "哇，办法竟然成功了",
+    "大家都夸主角真厉害",
+    "坏事变成了好事",
+    "后来这件事传遍了天下",
+    "这个故事告诉我们一个道理"
+  ];
+
+  return {
+    title: `${topic}（离线演示）`,
+    introduction: `大家好，这是离线演示模式！今天我们来聊聊“${topic}”。`,
+    bible: {
+      characters: [
+        { name: "主角", appearance: "cheerful child with round face and bright eyes", clothing: "simple ancient Chinese robe with a sash", palette: "orange, cream" },
+        { name: "朋友", appearance: "tall friendly companion with a topknot", clothing: "blue robe", palette: "blue, white" }
+      ],
+      era: "ancient China",
+      setting: "a small town with tiled roofs and a stone bridge",
+      palette: "warm earth tones"
+    },
+    scenes: Array.from({ length: sceneCount }, (_, i) => ({
+      id: i + 1,
+      narration: `${beats[i % beats.length]}。这是“${topic}”的第${i + 1}幕。`,
+      visual_prompt: `${topic}, scene ${i + 1}, ${STYLE}`,
+      characters: i % 3 === 1 ? ["主角", "朋友"] : ["主角"]
+    }))
+  };
+};
+
+interface MockFactCheck {
+  summary: string;
+  claims: { sceneId: number; claim: string; kind: ClaimKind; explanation: string }[];
+  teacherNotes: string[];
+  references: { title: string; author?: string; note?: string }[];
+}
+
+const KIND_NOTES: Record<ClaimKind, string> = {
+  fact: "这是离线演示里标为史实的说法。",
+  legend: "这是离线演示里标为传说的说法。",
+  embellishment: "这是离线演示里标为夸张演绎的说法。",
+};
+
+/** Fact check for the written scripts and a rotating fact/legend/embellishment pattern for anything else. */
+export const buildFactCheck = (topic: string, sceneIds: number[]): MockFactCheck => {
+  const kinds: ClaimKind[] = ['fact', 'legend', 'embellishment'];
+  const claims = sceneIds.map((sceneId, i) => {
+    const kind = kinds[i % kinds.length];
+    return { sceneId, claim: `第${i + 1}幕的主要情节`, kind, explanation: KIND_NOTES[kind] };
+  });
+
+  if (topic === "草船借箭") {
+    return {
+      summary: "故事出自小说《三国演义》，赤壁之战是史实，但“草船借箭”是小说家的演绎。",
+      claims: claims.map(c => c.sceneId === 1
+        ? { ...c, kind: 'fact', claim: "曹操率大军南下，孙权与刘备联合抗曹", explanation: "公元208年的赤壁之战在《三国志》中有明确记载。" }
+        : c.sceneId === 4
+          ? { ...c, kind: 'legend', claim: "诸葛亮立下三天造十万支箭的军令状", explanation: "这是《三国演义》第四十六回的情节，正史没有记载。" }
+          : c),
+      teacherNotes: [
+        "可以和孩子聊聊“历史”和“历史小说”有什么不同。",
+        "正史里用船“受箭”的其实是孙权，发生在濡须口之战，见《三国志·吴主传》裴松之注引《魏略》。",
+        "故事里“八十万大军”是演义的说法，史学家估计曹军约二十多万。"
+      ],
+      references: [
+        { title: "三国演义", author: "罗贯中", note: "第四十六回 用奇谋孔明借箭" },
+        { title: "三国志", author: "陈寿", note: "卷四十七《吴主传》裴注" }
+      ]
+    };
+  }
+
+  return {
+    summary: `“${topic}”的离线演示核查：仅用于展示界面，并非真实核查结果。`,
+    claims,
+    teacherNotes: ["离线模式不会真正核查史实，请连接 Gemini 后重新核查。"],
+    references: [{ title: "中国历史故事集", note: "离线演示占位书目" }]
+  };
+};
+
+/** A true/false question per scene, alternating right and wrong statements. */
+export const buildQuiz = (topic: string, sceneIds: number[], count: number = 5): Omit<QuizQuestion, 'id'>[] => {
+  const picked = sceneIds.filter((_, i) => i % Math.max(1, Math.floor(sceneIds.length / count)) === 0).slice(0, count);
+
+  if (topic === "草船借箭") {
+    const written: Omit<QuizQuestion, 'id'>[] = [
+      { sceneId: 3, type: 'multipleChoice', question: "周瑜让诸葛亮在几天内造好十万支箭？", options: ["三天", "十天", "一个月"], answerIndex: 1, explanation: "周瑜要求十天，诸葛亮却说三天就够！" },
+      { sceneId: 5, type: 'multipleChoice', question: "诸葛亮向谁借了二十条船？", options: ["曹操", "周瑜", "鲁肃"], answerIndex: 2, explanation: "好朋友鲁肃帮诸葛亮准备了船和草人。" },
+      { sceneId: 7, type: 'trueFalse', question: "诸葛亮选在大晴天出发。", options: ["对", "错"], answerIndex: 1, explanation: "他等的是大雾天，曹军看不清才不敢出来。" },
+      { sceneId: 9, type: 'multipleChoice', question: "曹操看到船队后做了什么？", options: ["出兵追击", "下令放箭", "派人求和"], answerIndex: 1, explanation: "曹操怕有埋伏，只敢放箭。" },
+      { sceneId: 10, type: 'trueFalse', question: "箭都扎在了船上的草人身上。", options: ["对", "错"], answerIndex: 0, explanation: "草人像刺猬一样插满了箭。" },
+    ];
+    const known = written.filter(q => sceneIds.includes(q.sceneId));
+    if (known.length > 0) return known.slice(0, count);
+  }
+
+  return picked.map((sceneId, i) => ({
+    sceneId,
+    type: 'trueFalse',
+    question: `（离线演示）“${topic}”第${sceneIds.indexOf(sceneId) + 1}幕讲的是故事的一部分。`,
+    options: ["对", "错"],
+    answerIndex: i % 2,
+    explanation: "离线模式的题目只用于展示测验界面。"
+  }));
+};
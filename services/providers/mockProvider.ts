@@ -0,0 +1,165 @@
+import { VoiceName } from "../../types";
+import { AIProvider, ImageBatchRequest, ImageRequest, SceneImageRequest, SpeechRequest, TextRequest, VideoRequest } from "./types";
+import { MOCK_SCRIPTS, MOCK_TOPICS, buildFactCheck, buildQuiz, buildTemplateScript } from "./mockFixtures";
+
+// Small fixed delay so loading states are still visible offline.
+const MOCK_LATENCY_MS = 300;
+const PCM_SAMPLE_RATE = 24000;
+const SECONDS_PER_CHAR = 0.16;
+
+const VOICE_PITCH: Record<VoiceName, number> = {
+  [VoiceName.Puck]: 330,
+  [VoiceName.Aoede]: 392,
+  [VoiceName.Kore]: 349,
+  [VoiceName.Fenrir]: 196,
+  [VoiceName.Charon]: 247,
+};
+
+const MOCK_VIDEO_URL = new URL('../../assets/mock/placeholder.mp4', import.meta.url).href;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+// FNV-1a, good enough to turn a prompt into a stable colour.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Draws a placeholder PNG whose colours are derived from the prompt,
+ * so the same prompt always yields the same picture.
+ */
+const renderPlaceholderImage = (prompt: string, ratio: ImageRequest['aspectRatio'], label: string): string => {
+  const width = ratio === '9:16' ? 720 : 1280;
+  const height = ratio === '9:16' ? 1280 : 720;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const hash = hashString(prompt);
+  const hue = hash % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 65%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // A few deterministic "hills" so Ken Burns motion is visible
+  for (let i = 0; i < 5; i++) {
+    const seed = hashString(`${prompt}#${i}`);
+    ctx.fillStyle = `hsla(${(hue + i * 25) % 360}, 60%, ${40 + (seed % 30)}%, 0.5)`;
+    ctx.beginPath();
+    ctx.arc(seed % width, height * 0.6 + (seed % (height * 0.4)), 80 + (seed % 200), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(255,255,255,0.9)';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `900 ${Math.round(width / 14)}px "Zcool KuaiLe", "Nunito", sans-serif`;
+  ctx.fillText(label, width / 2, height * 0.4);
+  ctx.font = `400 ${Math.round(width / 40)}px "Nunito", sans-serif`;
+  ctx.fillText(prompt.slice(0, 60), width / 2, height * 0.4 + width / 12);
+
+  return canvas.toDataURL('image/png').replace(/^data:image\/\w+;base64,/, "");
+};
+
+/**
+ * Synthesises a soft tone in the same format the Gemini TTS model returns
+ * (24kHz mono 16-bit PCM), one "syllable" per character so length tracks the text.
+ */
+const renderTonePcm = (text: string, voice: VoiceName): ArrayBuffer => {
+  const chars = Math.max(text.length, 4);
+  const samplesPerChar = Math.round(PCM_SAMPLE_RATE * SECONDS_PER_CHAR);
+  const samples = new Int16Array(chars * samplesPerChar);
+  const base = VOICE_PITCH[voice] || 300;
+
+  for (let c = 0; c < chars; c++) {
+    const ch = text[c] || '';
+    const freq = base * (1 + ((ch.charCodeAt(0) || 0) % 5) * 0.06);
+    // Punctuation becomes a pause
+    const silent = /[，。！？、,.!?\s]/.test(ch);
+    for (let i = 0; i < samplesPerChar; i++) {
+      const envelope = silent ? 0 : Math.sin(Math.PI * i / samplesPerChar);
+      const t = (c * samplesPerChar + i) / PCM_SAMPLE_RATE;
+      samples[c * samplesPerChar + i] = Math.round(Math.sin(2 * Math.PI * freq * t) * envelope * 6000);
+    }
+  }
+  return samples.buffer;
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+
+  limits: {
+    text: { concurrency: 4, requestsPerMinute: 600 },
+    image: { concurrency: 4, requestsPerMinute: 600 },
+    speech: { concurrency: 4, requestsPerMinute: 600 },
+    video: { concurrency: 2, requestsPerMinute: 600 },
+  },
+
+  async generateJson({ task, topic, sceneCount = 12, sceneIds = [] }: TextRequest): Promise<string> {
+    await delay();
+    if (task === 'recommendedTopics') {
+      return JSON.stringify(MOCK_TOPICS.slice(0, 4));
+    }
+    if (task === 'factCheck') {
+      return JSON.stringify(buildFactCheck(topic || '历史故事', sceneIds));
+    }
+    if (task === 'quiz') {
+      return JSON.stringify(buildQuiz(topic || '历史故事', sceneIds));
+    }
+    const written = topic ? MOCK_SCRIPTS[topic] : undefined;
+    // Hand-written scripts can be shortened; longer requests fall back to the template
+    const script = written && written.scenes.length >= sceneCount
+      ? { ...written, scenes: written.scenes.slice(0, sceneCount) }
+      : buildTemplateScript(topic || '历史故事', sceneCount);
+    return JSON.stringify(script);
+  },
+
+  async generateImage({ prompt, aspectRatio, referenceImages }: SceneImageRequest): Promise<string> {
+    await delay();
+    const label = referenceImages?.length ? `离线示意图 · 参考${referenceImages.length}张` : '离线示意图';
+    return renderPlaceholderImage(prompt, aspectRatio, label);
+  },
+
+  async generateImages({ prompt, aspectRatio, count }: ImageBatchRequest): Promise<string[]> {
+    await delay();
+    return Array.from({ length: count }, (_, i) => renderPlaceholderImage(`${prompt}#${i}`, aspectRatio, `封面 ${i + 1}`));
+  },
+
+  async generateSpeech({ text, voice, speakers }: SpeechRequest): Promise<ArrayBuffer> {
+    await delay();
+    if (!speakers || speakers.length < 2) return renderTonePcm(text, voice);
+
+    // One tone run per transcript row, pitched by that speaker's voice
+    const voices = new Map(speakers.map(s => [s.speaker, s.voice]));
+    const parts = text.split('\n').flatMap(row => {
+      const match = row.match(/^(\w+):\s*(.*)$/);
+      return match && voices.has(match[1]) ? [renderTonePcm(match[2], voices.get(match[1])!)] : [];
+    });
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+    let offset = 0;
+    parts.forEach(p => {
+      out.set(new Uint8Array(p), offset);
+      offset += p.byteLength;
+    });
+    return out.buffer;
+  },
+
+  async generateVideo(_request: VideoRequest): Promise<Blob | null> {
+    await delay();
+    const response = await fetch(MOCK_VIDEO_URL);
+    if (!response.ok) throw new Error("Failed to load bundled mock video");
+    return response.blob();
+  },
+
+  async ensureVideoAccess(): Promise<boolean> {
+    return true;
+  }
+};
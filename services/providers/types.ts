@@ -0,0 +1,77 @@
+import { Schema } from "@google/genai";
+import { AspectRatio, VoiceName } from "../../types";
+
+export type ProviderName = 'gemini' | 'mock';
+
+/** Request queues the generation scheduler keeps apart, one per kind of model. */
+export type ModelLane = 'text' | 'image' | 'speech' | 'video';
+
+export interface LaneLimits {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+/**
+ * Identifies what a structured text request is for, so providers that don't
+ * call a real model (the offline mock) know which canned response to return.
+ */
+export type TextTask = 'storyStructure' | 'recommendedTopics' | 'factCheck' | 'quiz';
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  schema: Schema;
+  /** Story topic the request is about; lets the mock pick a canned script. */
+  topic?: string;
+  /** Number of scenes a story script should have. */
+  sceneCount?: number;
+  /** Scenes a per-scene response (e.g. a fact check) has to refer to. */
+  sceneIds?: number[];
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+export interface SceneImageRequest extends ImageRequest {
+  /** Earlier images (base64) whose characters should look the same in this one. */
+  referenceImages?: string[];
+}
+
+export interface ImageBatchRequest extends ImageRequest {
+  count: number;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: VoiceName;
+  /**
+   * Two-speaker dialogue: `text` is a transcript of "Speaker: line" rows and each
+   * speaker gets its own voice. `voice` is ignored when this is set.
+   */
+  speakers?: { speaker: string; voice: VoiceName }[];
+}
+
+export type VideoRequest =
+  | { kind: 'scene'; prompt: string; aspectRatio: AspectRatio; image?: string }
+  | { kind: 'sequence'; aspectRatio: AspectRatio; images: string[] };
+
+/**
+ * Backend used by geminiService for every model call.
+ * Images are returned as base64 without a data URL prefix, speech as raw 24kHz mono 16-bit PCM.
+ */
+export interface AIProvider {
+  readonly name: ProviderName;
+  /** Quota of each model family, enforced by the generation scheduler. */
+  readonly limits: Record<ModelLane, LaneLimits>;
+  /** Returns the raw JSON text matching `schema`. */
+  generateJson(request: TextRequest): Promise<string>;
+  generateImage(request: SceneImageRequest): Promise<string>;
+  generateImages(request: ImageBatchRequest): Promise<string[]>;
+  generateSpeech(request: SpeechRequest): Promise<ArrayBuffer>;
+  /** Resolves to null when the backend finished without producing a clip. */
+  generateVideo(request: VideoRequest): Promise<Blob | null>;
+  /** Makes sure video generation is authorised (e.g. a paid key is selected). */
+  ensureVideoAccess(): Promise<boolean>;
+}
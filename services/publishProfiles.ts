@@ -0,0 +1,180 @@
+import { AspectRatio, ExportProfile, ExportResolution, PublishPlatformId, SafeArea, Story } from '../types';
+import { EXPORT_RESOLUTIONS } from './exportProfiles';
+
+/**
+ * What each platform accepts and where its UI sits over the video, plus the text and
+ * thumbnail that go with an upload. Figures follow each platform's creator guidelines.
+ */
+
+export interface PublishPlatform {
+  label: string;
+  /** Emoji badge used in menus. */
+  badge: string;
+  badgeClass: string;
+  /** Creator upload page. */
+  uploadUrl: string;
+  /** Accepted aspect ratios, the preferred one first. */
+  aspectRatios: AspectRatio[];
+  maxDurationSec: number;
+  recommendedResolution: ExportResolution;
+  safeAreas: Record<AspectRatio, SafeArea>;
+  /** Cover size the platform shows in feeds and on the profile page. */
+  thumbnail: Record<AspectRatio, { width: number; height: number }>;
+  /** Title or caption length the upload form accepts. */
+  captionMaxChars: number;
+  maxHashtags: number;
+  hashtags: string[];
+}
+
+export const NO_SAFE_AREA: SafeArea = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const PUBLISH_PLATFORMS: Record<PublishPlatformId, PublishPlatform> = {
+  douyin: {
+    label: '抖音',
+    badge: '🎵',
+    badgeClass: 'bg-black text-white',
+    uploadUrl: 'https://creator.douyin.com/creator-micro/content/upload',
+    aspectRatios: ['9:16', '16:9'],
+    maxDurationSec: 15 * 60,
+    recommendedResolution: '1080p',
+    // Tabs at the top, like/comment/share column on the right, caption and music at the bottom
+    safeAreas: {
+      '9:16': { top: 0.08, right: 0.15, bottom: 0.2, left: 0.04 },
+      '16:9': { top: 0.05, right: 0.05, bottom: 0.1, left: 0.05 },
+    },
+    thumbnail: { '9:16': { width: 1080, height: 1920 }, '16:9': { width: 1920, height: 1080 } },
+    captionMaxChars: 55,
+    maxHashtags: 5,
+    hashtags: ['历史', '历史故事', '涨知识'],
+  },
+  xiaohongshu: {
+    label: '小红书',
+    badge: '📕',
+    badgeClass: 'bg-red-500 text-white',
+    uploadUrl: 'https://creator.xiaohongshu.com/publish/publish',
+    aspectRatios: ['9:16', '16:9'],
+    maxDurationSec: 15 * 60,
+    recommendedResolution: '1080p',
+    safeAreas: {
+      '9:16': { top: 0.1, right: 0.12, bottom: 0.18, left: 0.04 },
+      '16:9': { top: 0.05, right: 0.05, bottom: 0.1, left: 0.05 },
+    },
+    // Notes show covers at 3:4 in the feed
+    thumbnail: { '9:16': { width: 1080, height: 1440 }, '16:9': { width: 1440, height: 1080 } },
+    captionMaxChars: 20,
+    maxHashtags: 10,
+    hashtags: ['历史', '亲子阅读', '儿童故事', '启蒙'],
+  },
+  bilibili: {
+    label: 'B站',
+    badge: '📺',
+    badgeClass: 'bg-sky-400 text-white',
+    uploadUrl: 'https://member.bilibili.com/platform/upload/video/frame',
+    aspectRatios: ['16:9', '9:16'],
+    maxDurationSec: 10 * 60 * 60,
+    recommendedResolution: '1080p',
+    // The progress bar and danmaku settings sit along the bottom of landscape video
+    safeAreas: {
+      '9:16': { top: 0.08, right: 0.15, bottom: 0.18, left: 0.04 },
+      '16:9': { top: 0.04, right: 0.03, bottom: 0.12, left: 0.03 },
+    },
+    thumbnail: { '9:16': { width: 1146, height: 717 }, '16:9': { width: 1146, height: 717 } },
+    captionMaxChars: 80,
+    maxHashtags: 10,
+    hashtags: ['历史', '知识分享', '动画', '人文历史'],
+  },
+};
+
+export const platformSafeArea = (platform: PublishPlatformId | undefined, aspectRatio: AspectRatio) =>
+  platform ? PUBLISH_PLATFORMS[platform].safeAreas[aspectRatio] : NO_SAFE_AREA;
+
+const formatMinutes = (sec: number) => sec >= 3600 ? `${Math.round(sec / 3600)} 小时` : `${Math.round(sec / 60)} 分钟`;
+
+/** Reasons the export won't suit the platform; empty when it fits. */
+export const checkPlatformConstraints = (
+  platformId: PublishPlatformId,
+  story: Story,
+  profile: ExportProfile,
+  durationSec: number
+): string[] => {
+  const platform = PUBLISH_PLATFORMS[platformId];
+  const warnings: string[] = [];
+  const orientation = (ratio: AspectRatio) => ratio === '9:16' ? '竖屏 9:16' : '横屏 16:9';
+
+  if (!platform.aspectRatios.includes(story.aspectRatio)) {
+    warnings.push(`${platform.label}不支持${orientation(story.aspectRatio)}视频`);
+  } else if (platform.aspectRatios[0] !== story.aspectRatio) {
+    warnings.push(`${platform.label}以${orientation(platform.aspectRatios[0])}为主，${orientation(story.aspectRatio)}视频会带黑边显示`);
+  }
+  if (durationSec > platform.maxDurationSec) {
+    warnings.push(`视频约 ${formatMinutes(durationSec)}，超过${platform.label}上限 ${formatMinutes(platform.maxDurationSec)}`);
+  }
+  if (EXPORT_RESOLUTIONS[profile.resolution].shortSide < EXPORT_RESOLUTIONS[platform.recommendedResolution].shortSide) {
+    warnings.push(`${platform.label}推荐 ${platform.recommendedResolution}，当前 ${profile.resolution} 会被平台压得更糊`);
+  }
+  if (story.title.length > platform.captionMaxChars) {
+    warnings.push(`标题超过${platform.label} ${platform.captionMaxChars} 字的限制，发布文案中已截短`);
+  }
+  if (story.scenes.some(s => !s.audioData)) {
+    warnings.push('有场景没有配音，视频里这段会没有声音');
+  }
+  return warnings;
+};
+
+export interface PublishKit {
+  caption: string;
+  hashtags: string[];
+  /** JPEG base64 of the cover at the platform's thumbnail size. */
+  thumbnail?: string;
+}
+
+const truncate = (text: string, max: number) => Array.from(text).length > max ? Array.from(text).slice(0, max - 1).join('') + '…' : text;
+
+/** Tags from the story itself (title and main characters) ahead of the platform's usual ones. */
+const storyHashtags = (story: Story, platform: PublishPlatform) => {
+  const clean = (tag: string) => tag.replace(/[\s#，。！？、《》“”"'：:]/g, '');
+  const tags = [story.title, ...(story.bible?.characters.map(c => c.name) || []), ...platform.hashtags]
+    .map(clean)
+    .filter(tag => tag.length > 0 && tag.length <= 12);
+  return Array.from(new Set(tags)).slice(0, platform.maxHashtags);
+};
+
+/** Cover-fits the cover into the platform's thumbnail size. */
+const resizeCover = (coverB64: string, width: number, height: number) => new Promise<string>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const scale = Math.max(width / img.width, height / img.height);
+    const drawW = img.width * scale;
+    const drawH = img.height * scale;
+    ctx.drawImage(img, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+    resolve(canvas.toDataURL('image/jpeg', 0.92).replace(/^data:image\/\w+;base64,/, ''));
+  };
+  img.onerror = reject;
+  img.src = `data:image/jpeg;base64,${coverB64}`;
+});
+
+export const buildPublishKit = async (platformId: PublishPlatformId, story: Story, coverB64?: string): Promise<PublishKit> => {
+  const platform = PUBLISH_PLATFORMS[platformId];
+  const hashtags = storyHashtags(story, platform);
+
+  // Short-caption platforms get just the title; the rest get the introduction too
+  const title = truncate(story.title, platform.captionMaxChars);
+  const caption = platform.captionMaxChars <= 20 || !story.introduction
+    ? title
+    : truncate(`${story.title}｜${story.introduction}`, platform.captionMaxChars);
+
+  let thumbnail: string | undefined;
+  if (coverB64) {
+    const { width, height } = platform.thumbnail[story.aspectRatio];
+    try {
+      thumbnail = await resizeCover(coverB64, width, height);
+    } catch (e) {
+      console.warn("Thumbnail resize failed", e);
+    }
+  }
+  return { caption, hashtags, thumbnail };
+};
@@ -0,0 +1,57 @@
+import { Scene, Story } from '../types';
+
+/**
+ * Immutable edits on a story's scene list. Veo clips are tied to the images they
+ * were made from, so any edit that changes an image or a scene's neighbours drops
+ * the clips that no longer match.
+ */
+
+const nextSceneId = (scenes: Scene[]) => scenes.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
+// The transition stored on scene i leads into scene i + 1.
+const dropTransitions = (scenes: Scene[], ...indices: number[]): Scene[] =>
+  scenes.map((s, i) => indices.includes(i) && s.transitionVideoUrl ? { ...s, transitionVideoUrl: undefined } : s);
+
+const withScenes = (story: Story, scenes: Scene[]): Story => ({ ...story, scenes });
+
+export const updateScene = (story: Story, sceneId: number, patch: Partial<Scene>): Story => {
+  const index = story.scenes.findIndex(s => s.id === sceneId);
+  if (index === -1) return story;
+  let scenes = story.scenes.map(s => s.id === sceneId ? { ...s, ...patch } : s);
+  if ('imageData' in patch) {
+    scenes[index] = { ...scenes[index], videoUrl: undefined };
+    scenes = dropTransitions(scenes, index - 1, index);
+  }
+  return withScenes(story, scenes);
+};
+
+/** Inserts a blank scene after `index` (use -1 for the very beginning). */
+export const insertScene = (story: Story, index: number): Story => {
+  const scenes = [...story.scenes];
+  scenes.splice(index + 1, 0, { id: nextSceneId(scenes), narration: '', visual_prompt: '' });
+  return withScenes(story, dropTransitions(scenes, index));
+};
+
+/** The copy goes right after the original and takes over its transition to the next scene. */
+export const duplicateScene = (story: Story, index: number): Story => {
+  const source = story.scenes[index];
+  if (!source) return story;
+  const scenes = [...story.scenes];
+  scenes.splice(index + 1, 0, { ...source, id: nextSceneId(scenes) });
+  return withScenes(story, dropTransitions(scenes, index));
+};
+
+export const deleteScene = (story: Story, index: number): Story => {
+  if (story.scenes.length <= 1 || !story.scenes[index]) return story;
+  const scenes = story.scenes.filter((_, i) => i !== index);
+  // The scene before the gap now leads somewhere else
+  return withScenes(story, dropTransitions(scenes, index - 1));
+};
+
+export const moveScene = (story: Story, from: number, to: number): Story => {
+  if (from === to || !story.scenes[from] || !story.scenes[to]) return story;
+  const scenes = dropTransitions(story.scenes, from - 1, from);
+  const [moved] = scenes.splice(from, 1);
+  scenes.splice(to, 0, moved);
+  return withScenes(story, dropTransitions(scenes, to - 1));
+};
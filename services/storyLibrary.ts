@@ -0,0 +1,239 @@
+import { LibrarySettings, Scene, StorageUsage, Story, StorySummary } from '../types';
+import { STORY_INDEX_STORE, STORY_STORE, withStore, withTransaction } from './db';
+import { DEFAULT_STORY_STYLE } from './storyStyle';
+
+/** Bump together with a new entry in STORY_MIGRATIONS whenever the stored shape changes. */
+export const STORY_SCHEMA_VERSION = 3;
+
+const LEGACY_STORAGE_KEY = 'history_magic_stories';
+const SETTINGS_STORAGE_KEY = 'history_magic_library_settings';
+
+export const DEFAULT_LIBRARY_SETTINGS: LibrarySettings = {
+  eviction: 'manual',
+  maxStories: 20,
+};
+
+// Blob URLs die with the page, so clips are stored as the Blobs themselves.
+type StoredScene = Omit<Scene, 'videoUrl' | 'transitionVideoUrl'> & {
+  videoBlob?: Blob;
+  transitionVideoBlob?: Blob;
+};
+
+interface StoredStory extends Omit<Story, 'scenes'> {
+  schemaVersion: number;
+  updatedAt: number;
+  scenes: StoredScene[];
+}
+
+// Step N upgrades a record at schema version N to N + 1.
+const STORY_MIGRATIONS: Record<number, (record: any) => any> = {
+  // v0 -> v1: stories saved before the aspect ratio option default to landscape
+  0: record => ({ ...record, aspectRatio: record.aspectRatio || '16:9' }),
+  // v1 -> v2: moved out of localStorage; expired blob URLs are dropped
+  1: record => ({
+    ...record,
+    updatedAt: record.updatedAt || record.createdAt,
+    scenes: (record.scenes || []).map(({ videoUrl, transitionVideoUrl, ...scene }: any) => scene),
+  }),
+  // v2 -> v3: script style recorded; earlier stories all used the default prompt
+  2: record => ({ ...record, style: record.style || DEFAULT_STORY_STYLE }),
+};
+
+/** Brings a stored (or imported) story record up to the current schema version. */
+export const migrateStoryRecord = (record: any): StoredStory => {
+  let current = record;
+  for (let version = record.schemaVersion || 0; version < STORY_SCHEMA_VERSION; version++) {
+    current = { ...STORY_MIGRATIONS[version](current), schemaVersion: version + 1 };
+  }
+  return current;
+};
+
+const base64Bytes = (b64?: string) => b64 ? Math.floor(b64.length * 0.75) : 0;
+
+const measureStory = (record: StoredStory) =>
+  base64Bytes(record.coverImage) +
+  record.scenes.reduce((total, scene) =>
+    total +
+    base64Bytes(scene.imageData) +
+    (scene.audioData?.byteLength || 0) +
+    (scene.videoBlob?.size || 0) +
+    (scene.transitionVideoBlob?.size || 0), 0);
+
+const toSummary = (record: StoredStory): StorySummary => ({
+  id: record.id,
+  title: record.title,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  aspectRatio: record.aspectRatio,
+  sceneCount: record.scenes.length,
+  sizeBytes: measureStory(record),
+});
+
+// Clip object URLs handed out by this module (and clips already read back), mapped to
+// their Blob so saving an edit doesn't fetch every unchanged clip again
+const clipBlobs = new Map<string, Blob>();
+
+const clipUrl = (blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  clipBlobs.set(url, blob);
+  return url;
+};
+
+const fetchBlob = async (url?: string): Promise<Blob | undefined> => {
+  if (!url) return undefined;
+  const known = clipBlobs.get(url);
+  if (known) return known;
+  try {
+    const blob = await (await fetch(url)).blob();
+    if (url.startsWith('blob:')) clipBlobs.set(url, blob);
+    return blob;
+  } catch (e) {
+    console.warn("Failed to read clip for storage", e);
+    return undefined;
+  }
+};
+
+const serializeStory = async (story: Story): Promise<StoredStory> => {
+  const scenes = await Promise.all(story.scenes.map(async ({ videoUrl, transitionVideoUrl, ...scene }) => ({
+    ...scene,
+    videoBlob: await fetchBlob(videoUrl),
+    transitionVideoBlob: await fetchBlob(transitionVideoUrl),
+  })));
+  return { ...story, scenes, schemaVersion: STORY_SCHEMA_VERSION, updatedAt: Date.now() };
+};
+
+const hydrateStory = (record: StoredStory): Story => {
+  const { schemaVersion, updatedAt, ...story } = record;
+  return {
+    ...story,
+    scenes: record.scenes.map(({ videoBlob, transitionVideoBlob, ...scene }) => ({
+      ...scene,
+      videoUrl: videoBlob ? clipUrl(videoBlob) : undefined,
+      transitionVideoUrl: transitionVideoBlob ? clipUrl(transitionVideoBlob) : undefined,
+    })),
+  };
+};
+
+const storyClipUrls = (story: Story | null | undefined) =>
+  (story?.scenes || []).flatMap(scene => [scene.videoUrl, scene.transitionVideoUrl])
+    .filter((url): url is string => !!url?.startsWith('blob:'));
+
+/**
+ * Revokes the clip object URLs of a story that is no longer shown, except those `next`
+ * still uses (an edited copy of the same story keeps most of its clips).
+ */
+export const releaseStoryClips = (story: Story | null | undefined, next?: Story | null) => {
+  const kept = new Set(storyClipUrls(next));
+  storyClipUrls(story).filter(url => !kept.has(url)).forEach(url => {
+    URL.revokeObjectURL(url);
+    clipBlobs.delete(url);
+  });
+};
+
+const putRecord = (record: StoredStory) =>
+  withTransaction([STORY_STORE, STORY_INDEX_STORE], 'readwrite', tx => {
+    tx.objectStore(STORY_STORE).put(record);
+    return tx.objectStore(STORY_INDEX_STORE).put(toSummary(record));
+  });
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const listStories = async (): Promise<StorySummary[]> => {
+  const summaries = await withStore<StorySummary[]>(STORY_INDEX_STORE, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadStory = async (id: string): Promise<Story | null> => {
+  const record = await withStore(STORY_STORE, 'readonly', store => store.get(id));
+  return record ? hydrateStory(migrateStoryRecord(record)) : null;
+};
+
+export const deleteStory = (id: string) =>
+  withTransaction([STORY_STORE, STORY_INDEX_STORE], 'readwrite', tx => {
+    tx.objectStore(STORY_STORE).delete(id);
+    return tx.objectStore(STORY_INDEX_STORE).delete(id);
+  });
+
+/**
+ * Deletes the oldest stories beyond `maxStories` when the policy allows it.
+ * Returns the ids that were removed.
+ */
+export const applyEvictionPolicy = async (settings: LibrarySettings, keepId?: string): Promise<string[]> => {
+  if (settings.eviction !== 'oldest') return [];
+  const summaries = await listStories();
+  const evicted = summaries
+    .filter(s => s.id !== keepId)
+    .slice(Math.max(settings.maxStories - (keepId ? 1 : 0), 0));
+  for (const summary of evicted) {
+    await deleteStory(summary.id);
+  }
+  return evicted.map(s => s.id);
+};
+
+/**
+ * Saves (or replaces) a story with all of its assets. When storage is full and the
+ * policy is 'oldest', older stories are evicted one at a time until it fits.
+ */
+export const saveStory = async (story: Story, settings: LibrarySettings): Promise<StorySummary> => {
+  const record = await serializeStory(story);
+
+  while (true) {
+    try {
+      await putRecord(record);
+      break;
+    } catch (e) {
+      if (!isQuotaError(e) || settings.eviction !== 'oldest') throw e;
+      const oldest = (await listStories()).filter(s => s.id !== story.id).pop();
+      if (!oldest) throw e;
+      console.warn(`Storage full, evicting "${oldest.title}"`);
+      await deleteStory(oldest.id);
+    }
+  }
+
+  await applyEvictionPolicy(settings, story.id);
+  return toSummary(record);
+};
+
+/** One-off move of stories saved by older versions in localStorage. */
+export const migrateLegacyStories = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+  const parsed: any[] = JSON.parse(saved);
+  for (const legacy of parsed) {
+    await putRecord(migrateStoryRecord(legacy));
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return parsed.length;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usedBytes: usage, quotaBytes: quota };
+};
+
+/** Asks the browser not to clear our data under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persisted().then(already => already || navigator.storage.persist());
+};
+
+export const loadLibrarySettings = (): LibrarySettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_LIBRARY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_LIBRARY_SETTINGS;
+  } catch (e) {
+    return DEFAULT_LIBRARY_SETTINGS;
+  }
+};
+
+export const saveLibrarySettings = (settings: LibrarySettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
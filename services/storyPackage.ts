@@ -0,0 +1,208 @@
+import { unzip, zip, Zippable } from 'fflate';
+import { Scene, Story } from '../types';
+import { decodeBase64, decodeWav, encodeWav } from './audioUtils';
+import { STORY_SCHEMA_VERSION, migrateStoryRecord } from './storyLibrary';
+
+/**
+ * `.story` package: a zip holding `manifest.json` plus the story's assets.
+ *
+ *   manifest.json
+ *   cover.jpg
+ *   scenes/01/image.png | narration.wav | scene.mp4 | transition.mp4
+ *
+ * The manifest records every file's size and SHA-256 so damaged packages are rejected.
+ */
+
+export const STORY_PACKAGE_EXTENSION = '.story';
+
+const PACKAGE_FORMAT = 'history-magic-story';
+const PACKAGE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface PackageScene {
+  id: number;
+  narration: string;
+  visual_prompt: string;
+  image?: string;
+  audio?: string;
+  video?: string;
+  transition?: string;
+  [field: string]: unknown;
+}
+
+interface PackageManifest {
+  format: string;
+  version: number;
+  /** STORY_SCHEMA_VERSION of the app that wrote the package. */
+  schemaVersion: number;
+  exportedAt: number;
+  story: Omit<Story, 'scenes' | 'coverImage'> & { cover?: string; scenes: PackageScene[] };
+  files: Record<string, { size: number; sha256: string }>;
+}
+
+const sha256 = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const imageExtension = (bytes: Uint8Array) => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49) return 'webp';
+  return 'img';
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunk)));
+  }
+  return btoa(binary);
+};
+
+const fetchClip = async (url: string): Promise<{ bytes: Uint8Array; ext: string } | null> => {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), ext: blob.type.includes('webm') ? 'webm' : 'mp4' };
+  } catch (e) {
+    console.warn("Skipping unreadable clip", e);
+    return null;
+  }
+};
+
+const zipAsync = (files: Zippable) =>
+  new Promise<Uint8Array>((resolve, reject) => zip(files, (err, data) => err ? reject(err) : resolve(data)));
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Record<string, Uint8Array>>((resolve, reject) => unzip(data, (err, files) => err ? reject(err) : resolve(files)));
+
+export const exportStoryPackage = async (story: Story): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  const add = (path: string, data: Uint8Array) => {
+    files[path] = data;
+    return path;
+  };
+
+  const { scenes, coverImage, ...storyFields } = story;
+  let cover: string | undefined;
+  if (coverImage) {
+    const bytes = decodeBase64(coverImage);
+    cover = add(`cover.${imageExtension(bytes)}`, bytes);
+  }
+
+  const packageScenes: PackageScene[] = [];
+  for (let i = 0; i < scenes.length; i++) {
+    const { imageData, audioData, videoUrl, transitionVideoUrl, ...sceneFields } = scenes[i];
+    const dir = `scenes/${String(i + 1).padStart(2, '0')}`;
+    const entry: PackageScene = { ...sceneFields };
+
+    if (imageData) {
+      const bytes = decodeBase64(imageData);
+      entry.image = add(`${dir}/image.${imageExtension(bytes)}`, bytes);
+    }
+    if (audioData) {
+      entry.audio = add(`${dir}/narration.wav`, encodeWav(audioData));
+    }
+    const clip = videoUrl ? await fetchClip(videoUrl) : null;
+    if (clip) entry.video = add(`${dir}/scene.${clip.ext}`, clip.bytes);
+    const transition = transitionVideoUrl ? await fetchClip(transitionVideoUrl) : null;
+    if (transition) entry.transition = add(`${dir}/transition.${transition.ext}`, transition.bytes);
+    packageScenes.push(entry);
+  }
+
+  const fileInfo: PackageManifest['files'] = {};
+  for (const [path, data] of Object.entries(files)) {
+    fileInfo[path] = { size: data.byteLength, sha256: await sha256(data) };
+  }
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    schemaVersion: STORY_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    story: { ...storyFields, cover, scenes: packageScenes },
+    files: fileInfo,
+  };
+
+  // Images and clips are already compressed; only deflate the manifest and WAVs
+  const zippable: Zippable = { [MANIFEST_PATH]: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+  for (const [path, data] of Object.entries(files)) {
+    zippable[path] = path.endsWith('.wav') ? data : [data, { level: 0 }];
+  }
+
+  return new Blob([await zipAsync(zippable) as BlobPart], { type: 'application/zip' });
+};
+
+export const importStoryPackage = async (file: Blob): Promise<Story> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    throw new Error("文件不是有效的故事包");
+  }
+
+  const manifestBytes = entries[MANIFEST_PATH];
+  if (!manifestBytes) throw new Error("故事包缺少 manifest.json");
+
+  let manifest: PackageManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (e) {
+    throw new Error("故事包清单已损坏");
+  }
+
+  if (manifest.format !== PACKAGE_FORMAT) throw new Error("不是历史时光机的故事包");
+  if (manifest.version > PACKAGE_VERSION) {
+    throw new Error("这个故事包来自更新版本的应用，请先升级");
+  }
+
+  // Integrity: every listed file must be present with the recorded size and hash
+  for (const [path, info] of Object.entries(manifest.files || {})) {
+    const data = entries[path];
+    if (!data) throw new Error(`故事包缺少文件: ${path}`);
+    if (data.byteLength !== info.size || await sha256(data) !== info.sha256) {
+      throw new Error(`故事包文件已损坏: ${path}`);
+    }
+  }
+
+  const read = (path?: string) => {
+    if (!path) return undefined;
+    const data = entries[path];
+    if (!data) throw new Error(`故事包缺少文件: ${path}`);
+    return data;
+  };
+  const toVideoUrl = (path?: string) => {
+    const data = read(path);
+    if (!data) return undefined;
+    const type = path!.endsWith('.webm') ? 'video/webm' : 'video/mp4';
+    return URL.createObjectURL(new Blob([data as BlobPart], { type }));
+  };
+
+  const { cover, scenes: packageScenes, ...storyFields } = manifest.story;
+  const scenes: Scene[] = packageScenes.map(({ image, audio, video, transition, ...sceneFields }) => {
+    const imageBytes = read(image);
+    const wav = read(audio);
+    return {
+      ...sceneFields,
+      imageData: imageBytes ? bytesToBase64(imageBytes) : undefined,
+      audioData: wav ? decodeWav(wav).pcm : undefined,
+      videoUrl: toVideoUrl(video),
+      transitionVideoUrl: toVideoUrl(transition),
+    } as Scene;
+  });
+  const coverBytes = read(cover);
+
+  // Story fields written by older app versions go through the library's migrations
+  const { schemaVersion, updatedAt, ...migrated } = migrateStoryRecord({
+    ...storyFields,
+    schemaVersion: manifest.schemaVersion,
+    scenes: [],
+  });
+
+  return {
+    ...migrated,
+    scenes,
+    coverImage: coverBytes ? bytesToBase64(coverBytes) : undefined,
+  };
+};
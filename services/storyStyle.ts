@@ -0,0 +1,93 @@
+import { AudienceAge, NarrationLength, NarratorPersona, StoryStyle, TonePreset } from '../types';
+
+/** The style every story used before it was configurable. */
+export const DEFAULT_STORY_STYLE: StoryStyle = {
+  audience: '5-8',
+  tone: 'talkShow',
+  persona: 'cat',
+  sceneCount: 12,
+  narrationLength: 'medium',
+};
+
+export const MIN_SCENE_COUNT = 3;
+export const MAX_SCENE_COUNT = 20;
+
+// Roughly how fast the TTS voices read Chinese, used to turn a duration into a character budget
+const CHARS_PER_SECOND = 4;
+
+export const AUDIENCE_META: Record<AudienceAge, { label: string; prompt: string; quizSize: number }> = {
+  '3-5': { label: '3-5 岁', prompt: '3-5岁的幼儿，用最简单的词和短句，避免复杂的人名地名', quizSize: 3 },
+  '5-8': { label: '5-8 岁', prompt: '5-8岁的儿童', quizSize: 5 },
+  '9-12': { label: '9-12 岁', prompt: '9-12岁的小学高年级学生，可以介绍时代背景、人物动机和因果关系', quizSize: 8 },
+};
+
+export const TONE_META: Record<TonePreset, { label: string; prompt: string; schemaHint: string }> = {
+  talkShow: {
+    label: '脱口秀',
+    schemaHint: 'Humorous talk-show style',
+    prompt: `**脱口秀/单口相声风格**：
+    1. 不要用刻板的“很久很久以前”，要用第一人称讲述。
+    2. **幽默风趣**：加入一些**无伤大雅的现代梗**、网络流行语（如“破防了”、“真香”、“yyds”等适合孩子理解的词），让历史人物变得接地气。
+    3. **互动感**：像是在对着观众演讲，多用反问句和感叹句。
+    4. **情节生动**：虽然是搞笑风格，但核心历史事实要准确。`,
+  },
+  bedtime: {
+    label: '睡前故事',
+    schemaHint: 'Calm, soothing bedtime-story style',
+    prompt: `**睡前故事风格**：
+    1. 语气轻柔、舒缓，节奏慢，多用温暖的画面描写。
+    2. 不要网络流行语，不要大喊大叫和惊吓的情节，冲突一笔带过。
+    3. 结尾安静温馨，适合孩子听完入睡。
+    4. 核心历史事实要准确。`,
+  },
+  classroom: {
+    label: '课堂讲解',
+    schemaHint: 'Clear classroom-lesson style',
+    prompt: `**课堂讲解风格**：
+    1. 像一堂生动的历史课，条理清楚，先交代时间、地点、人物。
+    2. 自然地解释关键词和成语的含义，可以提出思考问题。
+    3. 不用网络流行语，语言规范但不枯燥。
+    4. 历史事实必须准确，传说部分要说明是传说。`,
+  },
+  adventure: {
+    label: '冒险故事',
+    schemaHint: 'Exciting adventure-story style',
+    prompt: `**冒险故事风格**：
+    1. 节奏紧凑，有悬念和转折，每一幕结尾留一点“接下来会怎样”。
+    2. 多写动作和场面，让孩子身临其境。
+    3. 适度紧张但不吓人。
+    4. 核心历史事实要准确。`,
+  },
+};
+
+export const PERSONA_META: Record<NarratorPersona, { label: string; prompt: string }> = {
+  cat: { label: '本喵', prompt: '一只爱讲历史的小猫，自称“本喵”' },
+  grandpa: { label: '讲古爷爷', prompt: '一位慈祥的老爷爷，像在院子里给孙辈讲古' },
+  teacher: { label: '历史老师', prompt: '一位亲切的历史老师' },
+  explorer: { label: '时空小探险家', prompt: '一个穿越时空的小探险家，亲眼看到了故事发生' },
+};
+
+export const NARRATION_LENGTH_META: Record<NarrationLength, { label: string; maxChars: number }> = {
+  short: { label: '短 (50字内)', maxChars: 50 },
+  medium: { label: '中 (100字内)', maxChars: 100 },
+  long: { label: '长 (150字内)', maxChars: 150 },
+};
+
+/** Ready-made combinations for the formats the team makes most. */
+export const STYLE_PRESETS: { id: string; label: string; style: StoryStyle }[] = [
+  { id: 'default', label: '爆笑脱口秀', style: DEFAULT_STORY_STYLE },
+  { id: 'bedtime', label: '睡前故事', style: { audience: '3-5', tone: 'bedtime', persona: 'grandpa', sceneCount: 8, narrationLength: 'medium' } },
+  { id: 'classroom', label: '课堂版 (9-12岁)', style: { audience: '9-12', tone: 'classroom', persona: 'teacher', sceneCount: 12, narrationLength: 'long' } },
+  { id: 'short', label: '短视频 6 幕', style: { audience: '5-8', tone: 'talkShow', persona: 'cat', sceneCount: 6, narrationLength: 'short', targetDurationSec: 60 } },
+];
+
+/** Character budget per scene: the length preset, tightened by the target duration if one is set. */
+export const narrationCharLimit = (style: StoryStyle) => {
+  const presetLimit = NARRATION_LENGTH_META[style.narrationLength].maxChars;
+  if (!style.targetDurationSec) return presetLimit;
+  const perScene = Math.floor((style.targetDurationSec * CHARS_PER_SECOND) / style.sceneCount);
+  return Math.max(20, Math.min(presetLimit, perScene));
+};
+
+export const clampSceneCount = (count: number) =>
+  Math.min(MAX_SCENE_COUNT, Math.max(MIN_SCENE_COUNT, Math.round(count) || DEFAULT_STORY_STYLE.sceneCount));
@@ -0,0 +1,121 @@
+import { AspectRatio, BrandKit, ExportResolution, SafeArea, Scene, Story, SubtitleStyle } from '../types';
+import { EXPORT_RESOLUTIONS } from './exportProfiles';
+import { estimatePhraseTimings, paginatePhrases, SubtitlePage } from './narrationTiming';
+import { subtitlePageChars } from './subtitleRenderer';
+import { sceneTransition } from './transitions';
+
+/**
+ * When everything happens in an exported video. The recorder plays to these numbers
+ * and subtitle files are timed from them, so the two line up.
+ */
+
+export const INTRO_SEC = 3.0;
+// Black frame between the cover and the first scene
+export const INTRO_GAP_SEC = 0.3;
+// The brand kit's intro sting, before or after the cover
+export const STING_SEC = 2.5;
+// Used when a Veo transition clip doesn't report its length
+export const VEO_TRANSITION_FALLBACK_SEC = 2.0;
+export const OUTRO_FADE_SEC = 1.5;
+export const OUTRO_HOLD_SEC = 0.5;
+
+const PCM_SAMPLE_RATE = 24000;
+const SILENT_SCENE_SEC = 3.0;
+const MIN_SCENE_SEC = 2.0;
+
+/** Frame size for an export; the short side is the resolution's, the long side follows the 16:9 shape. */
+export const videoSize = (aspectRatio: AspectRatio, resolution: ExportResolution = '720p') => {
+  const short = EXPORT_RESOLUTIONS[resolution].shortSide;
+  const long = Math.round((short * 16) / 9);
+  return aspectRatio === '9:16' ? { width: short, height: long } : { width: long, height: short };
+};
+
+/** How long a scene stays on screen: its narration, but never a blink. */
+export const sceneDuration = (narrationSec: number | null) => Math.max(narrationSec ?? SILENT_SCENE_SEC, MIN_SCENE_SEC);
+
+/** Narration length straight from the PCM byte count, without decoding it. */
+export const narrationSeconds = (scene: Scene) =>
+  scene.audioData ? scene.audioData.byteLength / 2 / PCM_SAMPLE_RATE : null;
+
+/** Subtitle screens for a scene, timed from the start of its narration. */
+export const sceneSubtitlePages = (
+  scene: Scene,
+  duration: number,
+  width: number,
+  height: number,
+  safeArea?: SafeArea,
+  style?: SubtitleStyle
+): SubtitlePage[] =>
+  paginatePhrases(estimatePhraseTimings(scene.narration, scene.audioData, duration), subtitlePageChars(width, height, safeArea, style));
+
+export interface TimelineScene {
+  start: number;
+  duration: number;
+  /** Length of the transition into the next scene; 0 for the last one. */
+  transition: number;
+}
+
+export interface StoryTimeline {
+  /** Cover, brand sting and the gap after them; 0 with neither. */
+  intro: number;
+  /** When the cover starts; null without a cover. */
+  cover: number | null;
+  /** When the brand sting starts; null without one. */
+  sting: number | null;
+  scenes: TimelineScene[];
+  /** When the last scene starts fading out. */
+  outro: number;
+  /** The brand end card, once the last scene has faded; null without one. */
+  endCard: { start: number; duration: number } | null;
+  total: number;
+}
+
+/**
+ * Lays the story out end to end. `transitionSec[i]` is the Veo clip length for the
+ * transition after scene i, or null where the scene's canvas transition is used.
+ * `brand` adds its sting around the cover and its end card after the last scene.
+ */
+export const buildTimeline = (story: Story, hasCover: boolean, transitionSec: (number | null)[], brand?: BrandKit | null): StoryTimeline => {
+  let time = 0;
+  const place = (present: boolean, length: number) => {
+    if (!present) return null;
+    const start = time;
+    time += length;
+    return start;
+  };
+  const stingFirst = brand?.sting === 'beforeCover';
+  const stingBefore = place(stingFirst, STING_SEC);
+  const cover = place(hasCover, INTRO_SEC);
+  const sting = stingBefore ?? place(brand?.sting === 'afterCover', STING_SEC);
+  const intro = time > 0 ? time + INTRO_GAP_SEC : 0;
+
+  time = intro;
+  const scenes = story.scenes.map((scene, i) => {
+    const duration = sceneDuration(narrationSeconds(scene));
+    const isLast = i === story.scenes.length - 1;
+    const transition = isLast ? 0 : transitionSec[i] ?? sceneTransition(story, i).duration;
+    const entry = { start: time, duration, transition };
+    time += duration + transition;
+    return entry;
+  });
+
+  const outro = time;
+  const endCard = brand?.endCard.enabled ? { start: outro + OUTRO_FADE_SEC, duration: brand.endCard.duration } : null;
+  const end = endCard ? endCard.start + endCard.duration : outro + OUTRO_FADE_SEC;
+  return { intro, cover, sting, scenes, outro, endCard, total: end + OUTRO_HOLD_SEC };
+};
+
+const loadClipDuration = (url: string) => new Promise<number | null>(resolve => {
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.muted = true;
+  video.onloadedmetadata = () => resolve(isFinite(video.duration) && video.duration > 0 ? video.duration : VEO_TRANSITION_FALLBACK_SEC);
+  video.onerror = () => resolve(null);
+  // Same cut-off as the recorder, which falls back to the canvas transition
+  setTimeout(() => resolve(null), 5000);
+  video.src = url;
+});
+
+/** Lengths of the story's Veo transition clips, for buildTimeline. */
+export const loadTransitionDurations = (story: Story): Promise<(number | null)[]> =>
+  Promise.all(story.scenes.map(scene => scene.transitionVideoUrl ? loadClipDuration(scene.transitionVideoUrl) : Promise.resolve(null)));
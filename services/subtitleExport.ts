@@ -0,0 +1,129 @@
+import { BrandKit, SafeArea, Story, SubtitlePosition } from '../types';
+import { TimedPhrase } from './narrationTiming';
+import { buildTimeline, loadTransitionDurations, sceneSubtitlePages, StoryTimeline, videoSize } from './storyTimeline';
+import { DEFAULT_SUBTITLE_STYLE, SUBTITLE_THEMES, subtitleLayout } from './subtitleRenderer';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { label: string; description: string; mimeType: string }> = {
+  srt: { label: 'SRT', description: '剪映、Premiere 等剪辑软件通用', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', description: '网页播放器、YouTube', mimeType: 'text/vtt' },
+  ass: { label: 'ASS', description: '带字体样式和卡拉OK高亮，B站、Aegisub', mimeType: 'text/x-ssa' },
+};
+
+/** One subtitle screen, in seconds from the start of the video. */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  phrases: TimedPhrase[];
+}
+
+const cueText = (cue: SubtitleCue) => cue.phrases.map(p => p.text).join('');
+
+/**
+ * The same screens the recorder burns in, placed on the video timeline. Each screen
+ * stays up until the next one replaces it, and the last until the scene ends.
+ */
+export const subtitleCues = (story: Story, timeline: StoryTimeline, safeArea?: SafeArea): SubtitleCue[] => {
+  const { width, height } = videoSize(story.aspectRatio);
+  return story.scenes.flatMap((scene, i) => {
+    const { start, duration } = timeline.scenes[i];
+    const pages = sceneSubtitlePages(scene, duration, width, height, safeArea, story.subtitleStyle);
+    return pages.map((page, n) => ({
+      start: start + (n === 0 ? 0 : pages[n - 1].end),
+      end: start + (n === pages.length - 1 ? duration : page.end),
+      phrases: page.phrases.map(p => ({ ...p, start: start + p.start, end: start + p.end })),
+    }));
+  });
+};
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+/** HH:MM:SS plus a fraction with `digits` places, joined by `separator`. */
+const clockTime = (seconds: number, separator: string, digits: number) => {
+  const scale = Math.pow(10, digits);
+  const total = Math.round(Math.max(0, seconds) * scale);
+  const fraction = total % scale;
+  const whole = Math.floor(total / scale);
+  const hours = Math.floor(whole / 3600);
+  return `${pad(hours, digits === 2 ? 1 : 2)}:${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}${separator}${pad(fraction, digits)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]) =>
+  cues.map((cue, i) => `${i + 1}\n${clockTime(cue.start, ',', 3)} --> ${clockTime(cue.end, ',', 3)}\n${cueText(cue)}\n`).join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toVtt = (cues: SubtitleCue[]) =>
+  'WEBVTT\n\n' + cues.map(cue => `${clockTime(cue.start, '.', 3)} --> ${clockTime(cue.end, '.', 3)}\n${escapeVtt(cueText(cue))}\n`).join('\n');
+
+// ASS colours are &HAABBGGRR
+const assColour = (hex: string) => `&H00${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toUpperCase();
+const ASS_SHADOW = '&H80000000';
+// Numpad-style alignment, horizontally centred
+const ASS_ALIGNMENT: Record<SubtitlePosition, number> = { bottom: 2, middle: 5, top: 8 };
+// Stands in for the band behind classic subtitles, which ASS can't draw
+const ASS_FALLBACK_OUTLINE = 3;
+
+// Braces and backslashes are override syntax in ASS
+const escapeAss = (text: string) => text.replace(/\\/g, '＼').replace(/{/g, '｛').replace(/}/g, '｝').replace(/\n/g, ' ');
+
+/** Karaoke tags: each phrase fills from white to the highlight colour while it's spoken. */
+const assKaraoke = (cue: SubtitleCue) => {
+  let cursor = cue.start;
+  return cue.phrases.map(phrase => {
+    const wait = Math.round((phrase.start - cursor) * 100);
+    const fill = Math.max(1, Math.round((phrase.end - Math.max(phrase.start, cursor)) * 100));
+    cursor = Math.max(cursor, phrase.end);
+    return `${wait > 0 ? `{\\k${wait}}` : ''}{\\kf${fill}}${escapeAss(phrase.text)}`;
+  }).join('');
+};
+
+export const toAss = (story: Story, cues: SubtitleCue[], safeArea?: SafeArea) => {
+  const { width, height } = videoSize(story.aspectRatio);
+  const style = story.subtitleStyle || DEFAULT_SUBTITLE_STYLE;
+  const theme = SUBTITLE_THEMES[style.theme];
+  const { scale, fontSize, padding, position, bottomMargin, topMargin, marginLeft, marginRight } = subtitleLayout(width, height, safeArea, style);
+  // Themes with a background of their own become an opaque box (BorderStyle 3), whose colour is the outline colour
+  const border = theme.box
+    ? { style: 3, colour: assColour(theme.box), width: Math.round(padding / 2), shadow: 0 }
+    : { style: 1, colour: assColour(theme.outlineColor), width: style.outline > 0 ? Math.round(style.outline * scale) : ASS_FALLBACK_OUTLINE, shadow: 2 };
+  const marginV = position === 'top' ? topMargin + padding : position === 'bottom' ? bottomMargin + padding : 0;
+  return [
+    '[Script Info]',
+    `Title: ${escapeAss(story.title)}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${theme.assFont},${fontSize},${assColour(theme.highlight)},${assColour(theme.text)},${border.colour},${ASS_SHADOW},${theme.weight >= 700 ? -1 : 0},0,0,0,100,100,0,0,${border.style},${border.width},${border.shadow},${ASS_ALIGNMENT[position]},${marginLeft + padding * 2},${marginRight + padding * 2},${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...cues.map(cue => `Dialogue: 0,${clockTime(cue.start, '.', 2)},${clockTime(cue.end, '.', 2)},Default,,0,0,0,,${assKaraoke(cue)}`),
+    '',
+  ].join('\n');
+};
+
+/**
+ * Builds a subtitle file for the video `generateStoryVideo` would record. `hasCover`,
+ * `safeArea` and `brandKit` must match the export, since the cover and sting shift
+ * everything after them and the safe area changes how much text fits on a screen.
+ */
+export const buildSubtitleFile = async (
+  story: Story,
+  format: SubtitleFormat,
+  hasCover: boolean,
+  safeArea?: SafeArea,
+  brandKit?: BrandKit | null
+): Promise<Blob> => {
+  const timeline = buildTimeline(story, hasCover, await loadTransitionDurations(story), brandKit);
+  const cues = subtitleCues(story, timeline, safeArea);
+  const text = format === 'srt' ? toSrt(cues) : format === 'vtt' ? toVtt(cues) : toAss(story, cues, safeArea);
+  // The BOM keeps older Windows editors from misreading the Chinese text
+  return new Blob([format === 'vtt' ? text : '\uFEFF' + text], { type: `${SUBTITLE_FORMATS[format].mimeType};charset=utf-8` });
+};
@@ -0,0 +1,264 @@
+import { SafeArea, SubtitlePosition, SubtitleSize, SubtitleStyle, SubtitleThemeId } from '../types';
+import { SubtitlePage, spokenCharCount } from './narrationTiming';
+import { NO_SAFE_AREA } from './publishProfiles';
+import { breakLines } from './lineBreaking';
+import { roundedRect } from './frameDrawing';
+
+/** Burned-in subtitles for the exported video. */
+
+export interface SubtitleTheme {
+  label: string;
+  /** CSS font stack; the first font is loaded before a video is rendered. */
+  font: string;
+  /** Font name written into ASS subtitle files. */
+  assFont: string;
+  weight: number;
+  text: string;
+  /** Characters already spoken. */
+  highlight: string;
+  outlineColor: string;
+  /** Outline width a new style starts with, at 720p. */
+  outline: number;
+  background: 'band' | 'bubble' | 'scroll' | 'box';
+  /** Plain box behind the text, for players that can't draw the theme's own background (ASS). */
+  box?: string;
+}
+
+const ROUNDED_FONT = '"Zcool KuaiLe", "Nunito", sans-serif';
+
+export const SUBTITLE_THEMES: Record<SubtitleThemeId, SubtitleTheme> = {
+  classic: {
+    label: '经典', font: ROUNDED_FONT, assFont: 'ZCOOL KuaiLe', weight: 900,
+    text: '#ffffff', highlight: '#fcd34d', outlineColor: '#000000', outline: 0, background: 'band',
+  },
+  comic: {
+    label: '漫画气泡', font: ROUNDED_FONT, assFont: 'ZCOOL KuaiLe', weight: 900,
+    text: '#1e293b', highlight: '#e11d48', outlineColor: '#ffffff', outline: 0, background: 'bubble', box: '#ffffff',
+  },
+  scroll: {
+    label: '古风卷轴', font: '"Ma Shan Zheng", "STKaiti", "KaiTi", serif', assFont: 'Ma Shan Zheng', weight: 400,
+    text: '#3f2a14', highlight: '#b91c1c', outlineColor: '#f3e5c0', outline: 0, background: 'scroll', box: '#f3e5c0',
+  },
+  highContrast: {
+    label: '高对比', font: '"Noto Sans SC", "PingFang SC", "Microsoft YaHei", sans-serif', assFont: 'Noto Sans SC', weight: 900,
+    text: '#ffffff', highlight: '#facc15', outlineColor: '#000000', outline: 3, background: 'box', box: '#000000',
+  },
+};
+
+export const SUBTITLE_POSITIONS: Record<SubtitlePosition, { label: string }> = {
+  bottom: { label: '底部' },
+  middle: { label: '居中' },
+  top: { label: '顶部' },
+};
+
+export const SUBTITLE_SIZES: Record<SubtitleSize, { label: string; scale: number }> = {
+  small: { label: '小', scale: 0.85 },
+  medium: { label: '中', scale: 1 },
+  large: { label: '大', scale: 1.2 },
+};
+
+export const SUBTITLE_MAX_LINES = [1, 2, 3];
+export const MAX_SUBTITLE_OUTLINE = 6;
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = { theme: 'classic', position: 'bottom', size: 'medium', outline: 0, maxLines: 2 };
+
+export const subtitleFont = (theme: SubtitleTheme, fontSize: number) => `${theme.weight} ${fontSize}px ${theme.font}`;
+
+/**
+ * Fetches the theme's web font for the characters in `text`; canvas text silently falls
+ * back to a system font if it isn't loaded when drawing starts.
+ */
+export const loadSubtitleFont = async (style: SubtitleStyle, text: string) => {
+  try {
+    await document.fonts.load(subtitleFont(SUBTITLE_THEMES[style.theme], 40), text);
+  } catch (e) {
+    console.warn("Subtitle font failed to load", e);
+  }
+};
+
+/**
+ * Sizes are designed at 720p and scale with the frame, so every resolution looks the same.
+ * Text stays inside `safeArea`, clear of the publishing platform's buttons and captions.
+ */
+export function subtitleLayout(w: number, h: number, safeArea: SafeArea = NO_SAFE_AREA, style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE) {
+  const isVertical = h > w;
+  const scale = Math.min(w, h) / 720;
+  const fontSize = Math.round((isVertical ? 40 : 36) * SUBTITLE_SIZES[style.size].scale * scale);
+  const padding = Math.round(24 * scale);
+  const left = safeArea.left * w;
+  const right = safeArea.right * w;
+  const edgeMargin = (isVertical ? 150 : 60) * scale;
+  return {
+    scale,
+    fontSize,
+    padding,
+    lineHeight: fontSize * 1.4,
+    position: style.position,
+    maxLines: style.maxLines,
+    bottomMargin: Math.round(Math.max(edgeMargin, safeArea.bottom * h)),
+    topMargin: Math.round(Math.max(edgeMargin, safeArea.top * h)),
+    // Middle of the part of the frame the platform leaves clear
+    middleY: (safeArea.top * h + (h - safeArea.bottom * h)) / 2,
+    maxWidth: w - left - right - (padding * 4),
+    centerX: left + (w - left - right) / 2,
+    marginLeft: Math.round(left),
+    marginRight: Math.round(right),
+  };
+}
+
+/** Roughly how many (CJK) characters fit on one subtitle screen. */
+export function subtitlePageChars(w: number, h: number, safeArea?: SafeArea, style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE) {
+  const { fontSize, maxWidth, maxLines } = subtitleLayout(w, h, safeArea, style);
+  return Math.max(1, Math.floor(maxWidth / fontSize)) * maxLines;
+}
+
+interface TextBlock {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type BackgroundDrawer = (ctx: CanvasRenderingContext2D, block: TextBlock, w: number, scale: number, position: SubtitlePosition) => void;
+
+const BACKGROUNDS: Record<SubtitleTheme['background'], BackgroundDrawer> = {
+  // Dark band across the whole frame, darkest at the edge the text sits against
+  band: (ctx, block, w, scale, position) => {
+    const top = block.top - 20 * scale;
+    const bottom = block.top + block.height + 20 * scale;
+    const gradient = ctx.createLinearGradient(0, top, 0, bottom);
+    const [near, far] = position === 'top' ? ['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.4)'] : ['rgba(0,0,0,0.4)', 'rgba(0,0,0,0.8)'];
+    gradient.addColorStop(0, near);
+    gradient.addColorStop(1, far);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, top, w, bottom - top);
+  },
+  // Speech bubble with a tail towards the edge of the frame
+  bubble: (ctx, block, _w, scale, position) => {
+    const tail = 18 * scale;
+    const tailX = block.left + block.width * 0.25;
+    const pointsUp = position === 'top';
+    const edgeY = pointsUp ? block.top : block.top + block.height;
+    ctx.save();
+    ctx.lineWidth = 3 * scale;
+    ctx.strokeStyle = '#111827';
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0,0,0,0.3)';
+    ctx.shadowBlur = 8 * scale;
+    ctx.shadowOffsetY = 3 * scale;
+    roundedRect(ctx, block.left, block.top, block.width, block.height, 24 * scale);
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(tailX - tail * 0.6, edgeY);
+    ctx.lineTo(tailX - tail * 1.2, edgeY + (pointsUp ? -tail : tail));
+    ctx.lineTo(tailX + tail * 0.6, edgeY);
+    ctx.fill();
+    ctx.stroke();
+    // Cover the bubble's outline where the tail joins it
+    ctx.fillRect(tailX - tail * 0.6 + ctx.lineWidth, edgeY - ctx.lineWidth, tail * 1.2 - ctx.lineWidth * 2, ctx.lineWidth * 2);
+    ctx.restore();
+  },
+  // Unrolled paper between two wooden rods
+  scroll: (ctx, block, _w, scale) => {
+    const rod = 12 * scale;
+    const paper = ctx.createLinearGradient(0, block.top, 0, block.top + block.height);
+    paper.addColorStop(0, '#f6ead0');
+    paper.addColorStop(1, '#e8d5a6');
+    ctx.save();
+    ctx.shadowColor = 'rgba(0,0,0,0.35)';
+    ctx.shadowBlur = 10 * scale;
+    ctx.shadowOffsetY = 4 * scale;
+    ctx.fillStyle = paper;
+    ctx.fillRect(block.left, block.top, block.width, block.height);
+    ctx.shadowColor = 'transparent';
+    ctx.strokeStyle = 'rgba(120,72,30,0.35)';
+    ctx.lineWidth = 2 * scale;
+    ctx.strokeRect(block.left + 6 * scale, block.top + 6 * scale, block.width - 12 * scale, block.height - 12 * scale);
+    ctx.fillStyle = '#6b3f1d';
+    [block.left - rod, block.left + block.width].forEach(x => {
+      roundedRect(ctx, x, block.top - rod * 0.75, rod, block.height + rod * 1.5, rod / 2);
+      ctx.fill();
+    });
+    ctx.restore();
+  },
+  box: (ctx, block, _w, scale) => {
+    ctx.fillStyle = 'rgba(0,0,0,0.9)';
+    roundedRect(ctx, block.left, block.top, block.width, block.height, 8 * scale);
+    ctx.fill();
+  },
+};
+
+/** Draws one subtitle screen, karaoke-style: characters already spoken are highlighted. */
+export function drawSubtitles(
+  ctx: CanvasRenderingContext2D,
+  page: SubtitlePage,
+  time: number,
+  w: number,
+  h: number,
+  opacity: number,
+  safeArea?: SafeArea,
+  style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE
+) {
+  const layout = subtitleLayout(w, h, safeArea, style);
+  const { scale, fontSize, padding, lineHeight, maxWidth, centerX } = layout;
+  const theme = SUBTITLE_THEMES[style.theme];
+
+  ctx.font = subtitleFont(theme, fontSize);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+
+  const chars = page.phrases.flatMap(phrase => {
+    const spoken = spokenCharCount(phrase, time);
+    return Array.from(phrase.text).map((char, i) => ({ char, spoken: i < spoken, width: ctx.measureText(char).width }));
+  });
+  const lines = breakLines(chars, item => item.char, item => item.width, maxWidth);
+  const lineWidths = lines.map(line => line.reduce((sum, item) => sum + item.width, 0));
+
+  // The text plus its padding; the band theme spans the frame but is placed the same way
+  const height = lines.length * lineHeight + padding * 2;
+  const width = Math.max(...lineWidths) + padding * 2;
+  const top = layout.position === 'top'
+    ? layout.topMargin
+    : layout.position === 'middle'
+      ? layout.middleY - height / 2
+      : h - layout.bottomMargin - height;
+  const block = { left: centerX - width / 2, top, width, height };
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  BACKGROUNDS[theme.background](ctx, block, w, scale, layout.position);
+
+  if (theme.background === 'band') {
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = 4 * scale;
+    ctx.shadowOffsetX = 2 * scale;
+    ctx.shadowOffsetY = 2 * scale;
+  }
+  const outline = style.outline * scale;
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = outline * 2;
+  ctx.strokeStyle = theme.outlineColor;
+
+  lines.forEach((line, index) => {
+    const y = top + padding + (index + 1) * lineHeight;
+    const startX = centerX - lineWidths[index] / 2;
+    // Outlines first, so one character's outline never covers its neighbour
+    if (outline > 0) {
+      let x = startX;
+      line.forEach(item => {
+        ctx.strokeText(item.char, x, y);
+        x += item.width;
+      });
+    }
+    let x = startX;
+    line.forEach(item => {
+      ctx.fillStyle = item.spoken ? theme.highlight : theme.text;
+      ctx.fillText(item.char, x, y);
+      x += item.width;
+    });
+  });
+
+  ctx.restore();
+}
@@ -0,0 +1,222 @@
+import { CameraFraming, SceneTransition, Story, TransitionEasing, TransitionEffect } from '../types';
+import { drawFramed, VisualAsset } from './frameDrawing';
+import { centredFraming, zoomFraming } from './cameraMotion';
+
+/**
+ * Canvas transitions between scenes, used where a scene has no Veo transition clip.
+ * The exported video and the player's preview both draw them with `drawTransition`.
+ */
+
+export const TRANSITION_META: Record<TransitionEffect, { label: string }> = {
+  slide: { label: '推拉' },
+  crossfade: { label: '叠化' },
+  dipToBlack: { label: '黑场过渡' },
+  zoomThrough: { label: '穿梭推镜' },
+  inkWash: { label: '水墨晕染' },
+  pageTurn: { label: '翻书' },
+  iris: { label: '圆形开合' },
+};
+
+export const TRANSITION_EASINGS: Record<TransitionEasing, { label: string; ease: (p: number) => number }> = {
+  linear: { label: '匀速', ease: p => p },
+  easeIn: { label: '渐快', ease: p => p * p * p },
+  easeOut: { label: '渐慢', ease: p => 1 - Math.pow(1 - p, 3) },
+  easeInOut: { label: '缓入缓出', ease: p => p < 0.5 ? 4 * p * p * p : 1 - Math.pow(-2 * p + 2, 3) / 2 },
+};
+
+export const MIN_TRANSITION_SEC = 0.3;
+export const MAX_TRANSITION_SEC = 3.0;
+
+// The push-slide every story used before transitions were selectable
+export const DEFAULT_TRANSITION: SceneTransition = { effect: 'slide', duration: 1.0, easing: 'easeInOut' };
+
+/** The transition after scene `index`: its own, else the story's, else the default. */
+export const sceneTransition = (story: Story, index: number): SceneTransition =>
+  story.scenes[index]?.transitionStyle || story.transitionStyle || DEFAULT_TRANSITION;
+
+/** Eased progress `elapsed` seconds into `transition`. */
+export const transitionProgress = (transition: SceneTransition, elapsed: number) =>
+  TRANSITION_EASINGS[transition.easing].ease(Math.min(1, Math.max(0, elapsed / transition.duration)));
+
+const FULL_FRAME = centredFraming(1);
+
+/**
+ * Draws the frame `progress` (already eased, 0 to 1) of the way from `assetA` to
+ * `assetB`. `framingA` and `framingB` are where the camera is on either side, so the
+ * pictures don't jump when the transition starts or ends.
+ */
+export const drawTransition = (
+  ctx: CanvasRenderingContext2D,
+  effect: TransitionEffect,
+  assetA: VisualAsset,
+  assetB: VisualAsset,
+  w: number,
+  h: number,
+  progress: number,
+  framingA: CameraFraming = FULL_FRAME,
+  framingB: CameraFraming = FULL_FRAME
+) => {
+  ctx.save();
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, w, h);
+  DRAWERS[effect](ctx, assetA, assetB, w, h, progress, framingA, framingB);
+  ctx.restore();
+};
+
+type TransitionDrawer = (
+  ctx: CanvasRenderingContext2D,
+  assetA: VisualAsset,
+  assetB: VisualAsset,
+  w: number,
+  h: number,
+  progress: number,
+  framingA: CameraFraming,
+  framingB: CameraFraming
+) => void;
+
+// Shadow and edge sizes are designed at 720p
+const unit = (w: number, h: number) => Math.min(w, h) / 720;
+
+const drawSlide: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  const offsetX = w * progress;
+
+  ctx.save();
+  ctx.translate(-offsetX, 0);
+  drawFramed(ctx, assetA, w, h, framingA);
+  ctx.fillStyle = `rgba(0,0,0,${progress * 0.5})`;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+
+  ctx.save();
+  ctx.translate(w - offsetX, 0);
+  drawFramed(ctx, assetB, w, h, framingB);
+  const s = unit(w, h);
+  ctx.shadowColor = "black";
+  ctx.shadowBlur = 50 * s;
+  ctx.shadowOffsetX = -20 * s;
+  ctx.fillRect(-5 * s, 0, 5 * s, h);
+  ctx.restore();
+};
+
+const drawCrossfade: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  drawFramed(ctx, assetA, w, h, framingA);
+  ctx.globalAlpha = progress;
+  drawFramed(ctx, assetB, w, h, framingB);
+  ctx.globalAlpha = 1;
+};
+
+const drawDipToBlack: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  const outgoing = progress < 0.5;
+  drawFramed(ctx, outgoing ? assetA : assetB, w, h, outgoing ? framingA : framingB);
+  ctx.fillStyle = `rgba(0,0,0,${outgoing ? progress * 2 : (1 - progress) * 2})`;
+  ctx.fillRect(0, 0, w, h);
+};
+
+// The outgoing picture rushes towards the camera and fades as the next one settles in
+const drawZoomThrough: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  drawFramed(ctx, assetB, w, h, zoomFraming(framingB, 1 + 0.3 * (1 - progress)));
+  ctx.globalAlpha = 1 - progress;
+  drawFramed(ctx, assetA, w, h, zoomFraming(framingA, 1 + progress * 1.5));
+  ctx.globalAlpha = 1;
+};
+
+// Ink drops as [x, y, size, delay]: one in the middle, the rest spreading in after it
+const INK_DROPS: [number, number, number, number][] = [
+  [0.5, 0.5, 1.0, 0], [0.2, 0.3, 0.55, 0.1], [0.8, 0.25, 0.5, 0.18],
+  [0.25, 0.8, 0.5, 0.25], [0.78, 0.75, 0.6, 0.15], [0.5, 0.1, 0.4, 0.3], [0.1, 0.55, 0.4, 0.35],
+];
+const INK_EDGE_POINTS = 48;
+
+const inkPath = (w: number, h: number, progress: number) => {
+  const path = new Path2D();
+  const reach = Math.hypot(w, h) * 0.75;
+  INK_DROPS.forEach(([x, y, size, delay], k) => {
+    const grown = Math.max(0, (progress - delay) / (1 - delay));
+    if (grown === 0) return;
+    const radius = grown * reach * size;
+    for (let i = 0; i <= INK_EDGE_POINTS; i++) {
+      const angle = (i / INK_EDGE_POINTS) * Math.PI * 2;
+      // Uneven edges, like ink soaking into rice paper
+      const r = radius * (1 + 0.1 * Math.sin(5 * angle + k) + 0.05 * Math.sin(11 * angle + 2 * k));
+      const px = x * w + Math.cos(angle) * r;
+      const py = y * h + Math.sin(angle) * r;
+      if (i === 0) path.moveTo(px, py); else path.lineTo(px, py);
+    }
+    path.closePath();
+  });
+  return path;
+};
+
+const drawInkWash: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  drawFramed(ctx, assetA, w, h, framingA);
+  if (progress <= 0) return;
+  const path = inkPath(w, h, progress);
+  ctx.save();
+  ctx.clip(path);
+  drawFramed(ctx, assetB, w, h, framingB);
+  ctx.restore();
+  // A dark bleed along the spreading edge, fading out as the wash completes
+  ctx.strokeStyle = `rgba(20,20,30,${0.35 * (1 - progress)})`;
+  ctx.lineWidth = 8 * unit(w, h);
+  ctx.filter = `blur(${4 * unit(w, h)}px)`;
+  ctx.stroke(path);
+  ctx.filter = 'none';
+};
+
+// The outgoing page lifts from the right edge and folds back over itself
+const drawPageTurn: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  const s = unit(w, h);
+  const fold = w * (1 - progress);
+  drawFramed(ctx, assetB, w, h, framingB);
+
+  // Shadow the turning page casts on the next one
+  const cast = ctx.createLinearGradient(fold, 0, fold + 60 * s, 0);
+  cast.addColorStop(0, `rgba(0,0,0,${0.45 * (1 - progress)})`);
+  cast.addColorStop(1, 'rgba(0,0,0,0)');
+  ctx.fillStyle = cast;
+  ctx.fillRect(fold, 0, 60 * s, h);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, fold, h);
+  ctx.clip();
+  drawFramed(ctx, assetA, w, h, framingA);
+  ctx.restore();
+
+  // The back of the page, foreshortened as it curls
+  const curl = Math.min(fold, (w - fold) * 0.5);
+  if (curl <= 0) return;
+  const back = ctx.createLinearGradient(fold - curl, 0, fold, 0);
+  back.addColorStop(0, '#f8f4ea');
+  back.addColorStop(1, '#d6ccba');
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.4)';
+  ctx.shadowBlur = 30 * s;
+  ctx.shadowOffsetX = -10 * s;
+  ctx.fillStyle = back;
+  ctx.fillRect(fold - curl, 0, curl, h);
+  ctx.restore();
+};
+
+// Closes on the outgoing picture, then opens on the next, like the end of an old cartoon
+const drawIris: TransitionDrawer = (ctx, assetA, assetB, w, h, progress, framingA, framingB) => {
+  const closing = progress < 0.5;
+  const radius = (Math.hypot(w, h) / 2) * (closing ? 1 - progress * 2 : progress * 2 - 1);
+  if (radius <= 0) return;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(w / 2, h / 2, radius, 0, Math.PI * 2);
+  ctx.clip();
+  drawFramed(ctx, closing ? assetA : assetB, w, h, closing ? framingA : framingB);
+  ctx.restore();
+};
+
+const DRAWERS: Record<TransitionEffect, TransitionDrawer> = {
+  slide: drawSlide,
+  crossfade: drawCrossfade,
+  dipToBlack: drawDipToBlack,
+  zoomThrough: drawZoomThrough,
+  inkWash: drawInkWash,
+  pageTurn: drawPageTurn,
+  iris: drawIris,
+};
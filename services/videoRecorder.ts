@@ -1,328 +1,433 @@
-import { Story, Scene } from '../types';
+import { Story, LoudnessPresetId, ExportProfile, SafeArea, BrandKit } from '../types';
 import { decodeAudioData } from './audioUtils';
+import { createMixBus, sceneMusic } from './audioMixer';
+import { DEFAULT_LOUDNESS_PRESET, LOUDNESS_PRESETS, measureLoudness, normalizationGain } from './loudness';
+import { indexAtTime, SubtitlePage } from './narrationTiming';
+import { DEFAULT_SUBTITLE_STYLE, drawSubtitles, loadSubtitleFont } from './subtitleRenderer';
+import { canEncodeMp4, encodeMp4, Mp4EncodeSettings } from './mp4Encoder';
+import { DEFAULT_EXPORT_PROFILE, EXPORT_AUDIO_BITRATE } from './exportProfiles';
+import {
+  INTRO_SEC, OUTRO_FADE_SEC, STING_SEC, VEO_TRANSITION_FALLBACK_SEC,
+  buildTimeline, sceneSubtitlePages, StoryTimeline, videoSize
+} from './storyTimeline';
+import { drawAsset, drawFramed, VisualAsset } from './frameDrawing';
+import { cameraPath, framingAt, zoomFraming } from './cameraMotion';
+import { drawTransition, sceneTransition, transitionProgress } from './transitions';
+import { BrandAssets, drawEndCard, drawSting, drawWatermark, loadBrandAssets } from './branding';
+
+export interface VideoExportOptions {
+  /** Narration is normalised to this preset's target and the mix is compressed and limited; 'off' leaves it raw. */
+  loudness?: LoudnessPresetId;
+  /** Draw subtitles into the picture (default); off when they're shipped as a separate file. */
+  burnSubtitles?: boolean;
+  /** Resolution, frame rate and bitrate; the standard 720p30 profile by default. */
+  profile?: ExportProfile;
+  /** Where the target platform's UI covers the video; burned-in subtitles stay out of it. */
+  safeArea?: SafeArea;
+  /** Channel watermark, intro sting and end card; none when left out. */
+  brandKit?: BrandKit | null;
+}
 
-type VisualAsset = HTMLImageElement | HTMLVideoElement;
+const MIX_SAMPLE_RATE = 48000;
+const MIX_CHANNELS = 2;
+// A seek that never reports back shouldn't hang the export
+const SEEK_TIMEOUT_MS = 2000;
+
+interface StoryAssets {
+  cover: HTMLImageElement | null;
+  visuals: VisualAsset[];
+  /** Veo clip for the transition after each scene, where one loaded. */
+  transitions: (HTMLVideoElement | null)[];
+  brand: BrandAssets | null;
+}
 
+/**
+ * Renders the story to video. Frames are drawn from the computed timeline rather than
+ * the clock: with WebCodecs they're encoded offline, faster than real time, into MP4;
+ * browsers without it record the same frames in real time with MediaRecorder.
+ */
 export const generateStoryVideo = async (
   story: Story,
   onProgress: (progress: number, status: string) => void,
-  customCover?: string
+  customCover?: string,
+  options: VideoExportOptions = {}
 ): Promise<Blob> => {
-  
-  const isVertical = story.aspectRatio === '9:16';
-  const width = isVertical ? 720 : 1280;
-  const height = isVertical ? 1280 : 720;
-  const FPS = 30; 
-  const FRAME_INTERVAL = 1000 / FPS;
-  
+  const profile = options.profile || DEFAULT_EXPORT_PROFILE;
+  const { width, height } = videoSize(story.aspectRatio, profile.resolution);
+  const fps = profile.fps;
+  const burnSubtitles = options.burnSubtitles ?? true;
+  const loudnessTarget = LOUDNESS_PRESETS[options.loudness || DEFAULT_LOUDNESS_PRESET].target;
+
   const canvas = document.createElement('canvas');
   canvas.width = width;
   canvas.height = height;
   const ctx = canvas.getContext('2d', { alpha: false })!;
-
-  // Fill black initially
   ctx.fillStyle = '#000';
   ctx.fillRect(0, 0, width, height);
 
-  const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const dest = audioCtx.createMediaStreamDestination();
-  
-  // Setup Stream & Recorder
-  const stream = canvas.captureStream(FPS); 
-  const audioTrack = dest.stream.getAudioTracks()[0];
-  if (audioTrack) {
-    stream.addTrack(audioTrack);
-  }
-  
-  const chunks: Blob[] = [];
-  
-  // Try strict MP4 first, then WebM
-  let mimeType = 'video/webm';
-  if (MediaRecorder.isTypeSupported('video/mp4; codecs=avc1,mp4a.40.2')) {
-    mimeType = 'video/mp4; codecs=avc1,mp4a.40.2';
-  } else if (MediaRecorder.isTypeSupported('video/mp4')) {
-    mimeType = 'video/mp4';
-  } else if (MediaRecorder.isTypeSupported('video/webm; codecs=vp9')) {
-    mimeType = 'video/webm; codecs=vp9';
-  }
+  const assets = await loadAssets(story, width, height, customCover || story.coverImage, options.brandKit || null, onProgress);
+  const transitionSec = assets.transitions.map(video =>
+      video ? (isFinite(video.duration) && video.duration > 0 ? video.duration : VEO_TRANSITION_FALLBACK_SEC) : null);
+  const timeline = buildTimeline(story, !!assets.cover, transitionSec, options.brandKit);
 
-  console.log(`Exporting video using mimeType: ${mimeType}`);
+  onProgress(20, "正在混音...");
+  const audio = await renderMix(story, timeline, loudnessTarget);
 
-  const recorder = new MediaRecorder(stream, { 
-      mimeType, 
-      videoBitsPerSecond: 8000000 // 8 Mbps
-  }); 
-  
-  recorder.ondataavailable = (e) => {
-    if (e.data.size > 0) chunks.push(e.data);
-  };
+  const subtitleStyle = story.subtitleStyle || DEFAULT_SUBTITLE_STYLE;
+  if (burnSubtitles) await loadSubtitleFont(subtitleStyle, story.scenes.map(s => s.narration).join(''));
+  const subtitles = story.scenes.map((scene, i) =>
+      burnSubtitles ? sceneSubtitlePages(scene, timeline.scenes[i].duration, width, height, options.safeArea, subtitleStyle) : []);
+  const frames = createFrameRenderer(ctx, story, assets, timeline, subtitles, width, height, options.safeArea);
 
-  recorder.start();
+  const reportFrame = (fraction: number) => {
+      if (fraction >= 1) return onProgress(95, "正在封装 MP4...");
+      const scene = frames.sceneIndexAt(fraction * timeline.total);
+      onProgress(25 + fraction * 70, scene < 0 ? "正在渲染片头..." : `正在渲染场景 ${scene + 1}/${story.scenes.length}...`);
+  };
 
+  const settings: Mp4EncodeSettings = { width, height, fps, videoBitrate: profile.videoBitrate, audioBitrate: EXPORT_AUDIO_BITRATE };
   try {
-    // 0. Pre-load Cover Image (Use custom if provided, else story default)
-    let coverAsset: HTMLImageElement | null = null;
-    const coverB64 = customCover || story.coverImage;
-
-    if (coverB64) {
-        onProgress(0, "正在加载封面...");
-        coverAsset = new Image();
-        await new Promise<void>(resolve => {
-            if (!coverAsset) return resolve();
-            coverAsset.onload = () => resolve();
-            coverAsset.onerror = () => resolve();
-            coverAsset.src = `data:image/jpeg;base64,${coverB64}`;
-        });
+    if (await canEncodeMp4(settings, { sampleRate: MIX_SAMPLE_RATE, channels: MIX_CHANNELS })) {
+        const blob = await encodeMp4(canvas, Math.ceil(timeline.total * fps), async (index) => {
+            const t = index / fps;
+            await seekVideos(frames.videoTimesAt(t));
+            frames.draw(t);
+        }, audio, settings, reportFrame);
+        onProgress(100, "视频已生成");
+        return blob;
     }
 
-    // 1. Pre-load all assets (Images and Videos and Transition Videos)
-    const visualAssets: VisualAsset[] = [];
-    const transitionAssets: (HTMLVideoElement | null)[] = [];
-    
-    for (let i = 0; i < story.scenes.length; i++) {
-       onProgress((i / story.scenes.length) * 20, `正在加载资源 ${i + 1}...`);
-       const scene = story.scenes[i];
-
-       // Load Scene Video/Image
-       if (scene.videoUrl) {
-           const vid = await loadVideo(scene.videoUrl);
-           if (vid) visualAssets.push(vid);
-           else {
-               const img = await loadImage(scene.imageData!);
-               visualAssets.push(img);
-           }
-       } else {
-           const img = await loadImage(scene.imageData!);
-           visualAssets.push(img);
-       }
-
-       // Load Transition Video if exists
-       if (scene.transitionVideoUrl) {
-           const tVid = await loadVideo(scene.transitionVideoUrl);
-           transitionAssets.push(tVid); // Could be null
-       } else {
-           transitionAssets.push(null);
-       }
-    }
+    console.log("WebCodecs unavailable, recording the video in real time");
+    return await recordRealtime(canvas, frames, timeline, audio, settings, reportFrame);
+  } catch (err) {
+    console.error("Video generation error", err);
+    throw err;
+  } finally {
+    [...assets.visuals, ...assets.transitions].forEach(asset => {
+        if (asset instanceof HTMLVideoElement) asset.pause();
+    });
+  }
+};
 
-    if (audioCtx.state === 'suspended') {
-        await audioCtx.resume();
-    }
+const loadAssets = async (
+  story: Story,
+  width: number,
+  height: number,
+  coverB64: string | undefined,
+  brandKit: BrandKit | null,
+  onProgress: (progress: number, status: string) => void
+): Promise<StoryAssets> => {
+  let cover: HTMLImageElement | null = null;
+  if (coverB64) {
+      onProgress(0, "正在加载封面...");
+      cover = new Image();
+      await new Promise<void>(resolve => {
+          cover!.onload = () => resolve();
+          cover!.onerror = () => resolve();
+          cover!.src = `data:image/jpeg;base64,${coverB64}`;
+      });
+  }
 
-    // --- INTRO SEQUENCE (Cover) ---
-    if (coverAsset) {
-        const introDuration = 3.0;
-        const introStartTime = audioCtx.currentTime;
-        
-        while (true) {
-            const now = audioCtx.currentTime;
-            const elapsed = now - introStartTime;
-            
-            if (elapsed >= introDuration) break;
-
-            const progress = elapsed / introDuration;
-            
-            ctx.clearRect(0, 0, width, height);
-            
-            // Gentle Zoom on Cover
-            const scale = 1.0 + (progress * 0.05);
-            drawAsset(ctx, coverAsset, width, height, scale);
-            
-            // Fade In (start) and Fade Out (end)
-            let opacity = 1;
-            if (elapsed < 0.5) opacity = elapsed / 0.5;
-            if (elapsed > introDuration - 0.5) opacity = (introDuration - elapsed) / 0.5;
-            
-            if (opacity < 1) {
-                ctx.fillStyle = `rgba(0,0,0,${1 - opacity})`;
-                ctx.fillRect(0, 0, width, height);
-            }
+  const visuals: VisualAsset[] = [];
+  const transitions: (HTMLVideoElement | null)[] = [];
+  for (let i = 0; i < story.scenes.length; i++) {
+      onProgress((i / story.scenes.length) * 20, `正在加载资源 ${i + 1}...`);
+      const scene = story.scenes[i];
 
-            await new Promise(r => setTimeout(r, FRAME_INTERVAL));
-        }
-        // Short black pause
-        ctx.fillStyle = '#000';
-        ctx.fillRect(0, 0, width, height);
-        await new Promise(r => setTimeout(r, 300));
-    }
+      // Scene video or image, falling back to a placeholder card for scenes whose image failed
+      const vid = scene.videoUrl ? await loadVideo(scene.videoUrl) : null;
+      if (vid) {
+          visuals.push(vid);
+      } else if (scene.imageData) {
+          visuals.push(await loadImage(scene.imageData));
+      } else {
+          visuals.push(createPlaceholderAsset(width, height, i + 1));
+      }
 
-    // --- MAIN STORY LOOP ---
-    for (let i = 0; i < story.scenes.length; i++) {
-      const scene = story.scenes[i];
-      const currentAsset = visualAssets[i];
-      const nextAsset = visualAssets[i + 1]; 
-      const transitionVideo = transitionAssets[i];
+      // The last scene has nothing to transition into
+      const isLast = i === story.scenes.length - 1;
+      transitions.push(scene.transitionVideoUrl && !isLast ? await loadVideo(scene.transitionVideoUrl) : null);
+  }
+  return { cover, visuals, transitions, brand: brandKit ? await loadBrandAssets(brandKit) : null };
+};
 
-      onProgress(20 + (i / story.scenes.length) * 70, `正在录制场景 ${i + 1}...`);
+/**
+ * Mixes the whole soundtrack offline against the timeline: narration levelled per scene,
+ * music and effects under it, faded in with the intro and out with the outro or end card.
+ */
+const renderMix = async (story: Story, timeline: StoryTimeline, loudnessTarget: number | null) => {
+  const audioCtx = new OfflineAudioContext(MIX_CHANNELS, Math.ceil(timeline.total * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+  const mix = createMixBus(audioCtx, audioCtx.destination, { mastering: loudnessTarget !== null });
+
+  // Music fades in under the cover and sting, or under the first scene when there are neither
+  mix.fadeTo(0, 0, 0);
+  mix.setMusic(sceneMusic(story, story.scenes[0]), 0);
+  mix.fadeTo(1, timeline.intro > 0 ? INTRO_SEC : 1.0, 0);
+
+  for (let i = 0; i < story.scenes.length; i++) {
+      const scene = story.scenes[i];
+      const { start, duration } = timeline.scenes[i];
+      mix.setMusic(sceneMusic(story, scene), start);
 
-      // Prepare Audio
-      let audioBuffer: AudioBuffer | null = null;
       if (scene.audioData) {
-        try {
-          audioBuffer = await decodeAudioData(new Uint8Array(scene.audioData.slice(0)), audioCtx);
-        } catch (e) {
-          console.error("Audio decode failed", e);
-        }
+          try {
+              const buffer = await decodeAudioData(new Uint8Array(scene.audioData.slice(0)), audioCtx);
+              const gain = loudnessTarget !== null ? normalizationGain(measureLoudness(buffer), loudnessTarget) : 1;
+              mix.scheduleNarration(buffer, start, gain);
+          } catch (e) {
+              console.error("Audio decode failed", e);
+          }
       }
+      scene.soundEffects?.forEach(cue => {
+          if (cue.at < duration) mix.playEffect(cue.effect, start + cue.at);
+      });
+  }
 
-      // Calculate duration
-      const duration = Math.max(audioBuffer ? audioBuffer.duration : 3.0, 2.0); 
-      
-      // Play TTS Audio
-      let source: AudioBufferSourceNode | null = null;
-      if (audioBuffer) {
-          source = audioCtx.createBufferSource();
-          source.buffer = audioBuffer;
-          source.connect(dest);
-          source.start();
-      }
+  // The last scene's music plays on under the end card
+  const { endCard } = timeline;
+  mix.fadeTo(0, OUTRO_FADE_SEC, endCard ? endCard.start + endCard.duration - OUTRO_FADE_SEC : timeline.outro);
+  return audioCtx.startRendering();
+};
 
-      // Start Video Playback if applicable
-      if (currentAsset instanceof HTMLVideoElement) {
-          currentAsset.currentTime = 0;
-          await currentAsset.play();
+type Segment =
+  | { kind: 'cover'; elapsed: number }
+  | { kind: 'sting'; elapsed: number }
+  | { kind: 'scene'; index: number; elapsed: number }
+  | { kind: 'transition'; index: number; elapsed: number }
+  | { kind: 'outro'; elapsed: number }
+  | { kind: 'endCard'; elapsed: number }
+  | { kind: 'black' };
+
+/** Draws the frame at any point of the timeline, and says where its video clips need to be. */
+const createFrameRenderer = (
+  ctx: CanvasRenderingContext2D,
+  story: Story,
+  assets: StoryAssets,
+  timeline: StoryTimeline,
+  subtitles: SubtitlePage[][],
+  width: number,
+  height: number,
+  safeArea?: SafeArea
+) => {
+  const { scenes } = timeline;
+  const last = scenes[scenes.length - 1];
+  const transitions = story.scenes.map((_, i) => sceneTransition(story, i));
+  const subtitleStyle = story.subtitleStyle || DEFAULT_SUBTITLE_STYLE;
+  const cameras = story.scenes.map((scene, i) => cameraPath(scene, i, assets.visuals[i] instanceof HTMLVideoElement));
+  const { brand } = assets;
+  const { cover, sting, endCard, outro: outroStart } = timeline;
+
+  const segmentAt = (t: number): Segment => {
+    if (t < timeline.intro) {
+        if (cover !== null && t >= cover && t < cover + INTRO_SEC) return { kind: 'cover', elapsed: t - cover };
+        if (sting !== null && t >= sting && t < sting + STING_SEC) return { kind: 'sting', elapsed: t - sting };
+        return { kind: 'black' };
+    }
+    for (let i = 0; i < scenes.length; i++) {
+        const { start, duration, transition } = scenes[i];
+        if (t < start + duration) return { kind: 'scene', index: i, elapsed: t - start };
+        if (t < start + duration + transition) return { kind: 'transition', index: i, elapsed: t - start - duration };
+    }
+    if (t < outroStart + OUTRO_FADE_SEC) return { kind: 'outro', elapsed: t - outroStart };
+    if (endCard && t >= endCard.start && t < endCard.start + endCard.duration) return { kind: 'endCard', elapsed: t - endCard.start };
+    return { kind: 'black' };
+  };
+
+  const videoAt = (asset: VisualAsset | null | undefined, time: number): [HTMLVideoElement, number][] =>
+    asset instanceof HTMLVideoElement ? [[asset, time]] : [];
+
+  /** Clip positions for the frame at `t`; scene clips play from their start and hold the last frame. */
+  const videoTimesAt = (t: number): [HTMLVideoElement, number][] => {
+    const segment = segmentAt(t);
+    switch (segment.kind) {
+      case 'scene':
+        return videoAt(assets.visuals[segment.index], segment.elapsed);
+      case 'transition': {
+        const { index, elapsed } = segment;
+        const clip = assets.transitions[index];
+        if (clip) return [[clip, elapsed]];
+        // The outgoing clip keeps running while the next one starts underneath
+        return [...videoAt(assets.visuals[index], scenes[index].duration + elapsed), ...videoAt(assets.visuals[index + 1], elapsed)];
       }
+      case 'outro':
+        return videoAt(assets.visuals[scenes.length - 1], last.duration + segment.elapsed);
+      default:
+        return [];
+    }
+  };
 
-      const sceneStartTime = audioCtx.currentTime;
-      
-      // --- RENDER LOOP ---
-      while (true) {
-        const now = audioCtx.currentTime;
-        const elapsed = now - sceneStartTime;
-        
-        if (elapsed >= duration) break;
-
-        const progress = elapsed / duration;
-        
-        // Clear
-        ctx.clearRect(0, 0, width, height);
-
-        // Draw Visual
-        if (currentAsset instanceof HTMLVideoElement) {
-            drawAsset(ctx, currentAsset, width, height, 1.0);
+  const draw = (t: number) => {
+    const segment = segmentAt(t);
+    ctx.clearRect(0, 0, width, height);
+
+    if (segment.kind === 'cover') {
+        // Gentle zoom on the cover, fading in and out
+        const { elapsed } = segment;
+        drawAsset(ctx, assets.cover!, width, height, 1.0 + (elapsed / INTRO_SEC) * 0.05);
+        let opacity = 1;
+        if (elapsed < 0.5) opacity = elapsed / 0.5;
+        if (elapsed > INTRO_SEC - 0.5) opacity = (INTRO_SEC - elapsed) / 0.5;
+        if (opacity < 1) {
+            ctx.fillStyle = `rgba(0,0,0,${1 - opacity})`;
+            ctx.fillRect(0, 0, width, height);
+        }
+    } else if (segment.kind === 'scene') {
+        const { index, elapsed } = segment;
+        const asset = assets.visuals[index];
+        drawFramed(ctx, asset, width, height, framingAt(cameras[index], elapsed / scenes[index].duration));
+        if (brand) drawWatermark(ctx, brand, width, height, safeArea);
+
+        const pages = subtitles[index];
+        if (pages.length > 0) {
+            drawSubtitles(ctx, pages[indexAtTime(pages, elapsed)], elapsed, width, height, Math.min(elapsed * 2, 1), safeArea, subtitleStyle);
+        }
+    } else if (segment.kind === 'transition') {
+        const { index, elapsed } = segment;
+        const clip = assets.transitions[index];
+        if (clip) {
+            drawAsset(ctx, clip, width, height, 1.0);
         } else {
-            // Draw Image with Ken Burns
-            const zoomDirection = i % 2 === 0 ? 1 : -1;
-            const scaleBase = 1.1;
-            const scaleVar = 0.15;
-            const currentScale = zoomDirection === 1 
-                ? scaleBase + (scaleVar * progress) 
-                : (scaleBase + scaleVar) - (scaleVar * progress);
-            
-            const breathing = Math.sin(elapsed * 2) * 0.005; 
-            drawAsset(ctx, currentAsset, width, height, currentScale + breathing);
+            // Picks up each picture where its camera move leaves off and starts the next
+            const from = assets.visuals[index];
+            const to = assets.visuals[index + 1];
+            drawTransition(
+                ctx, transitions[index].effect, from, to, width, height,
+                transitionProgress(transitions[index], elapsed),
+                cameras[index].end,
+                cameras[index + 1].start
+            );
         }
-        
-        // Draw Subtitles
-        const textOpacity = Math.min(elapsed * 2, 1);
-        drawSubtitles(ctx, scene.narration, width, height, textOpacity);
+        if (brand) drawWatermark(ctx, brand, width, height, safeArea);
+    } else if (segment.kind === 'outro') {
+        const progress = segment.elapsed / OUTRO_FADE_SEC;
+        const lastAsset = assets.visuals[scenes.length - 1];
+        // Stills keep drifting in as the picture fades out
+        const drift = lastAsset instanceof HTMLVideoElement ? 1 : 1 + progress * 0.05;
+        drawFramed(ctx, lastAsset, width, height, zoomFraming(cameras[scenes.length - 1].end, drift));
+        if (brand) drawWatermark(ctx, brand, width, height, safeArea);
+        ctx.fillStyle = `rgba(0,0,0,${progress})`;
+        ctx.fillRect(0, 0, width, height);
+    } else if (segment.kind === 'sting') {
+        drawSting(ctx, brand!, width, height, segment.elapsed);
+    } else if (segment.kind === 'endCard') {
+        drawEndCard(ctx, brand!, width, height, segment.elapsed);
+    } else {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+    }
+  };
 
-        await new Promise(r => setTimeout(r, FRAME_INTERVAL));
-      }
-      
-      // Stop Current Scene Audio
-      if (source) {
-        try { source.stop(); } catch(e) {}
-      }
+  /** The scene on screen (or leaving it) at `t`; -1 during the cover and sting. */
+  const sceneIndexAt = (t: number) => {
+    const segment = segmentAt(t);
+    if (segment.kind === 'scene' || segment.kind === 'transition') return segment.index;
+    return t < timeline.intro ? -1 : scenes.length - 1;
+  };
 
-      // --- TRANSITION ---
-      if (nextAsset) {
-         if (transitionVideo) {
-             // Use generated Veo transition video
-             const tDuration = transitionVideo.duration || 2.0;
-             const tStartTime = audioCtx.currentTime;
-             
-             transitionVideo.currentTime = 0;
-             await transitionVideo.play();
-
-             while (true) {
-                 const now = audioCtx.currentTime;
-                 const tElapsed = now - tStartTime;
-                 if (tElapsed >= tDuration) break;
-
-                 drawAsset(ctx, transitionVideo, width, height, 1.0);
-                 await new Promise(r => setTimeout(r, FRAME_INTERVAL));
-             }
-         } else {
-             // Fallback: Standard Canvas Transition
-             const transitionDuration = 1.0;
-             const transStartTime = audioCtx.currentTime;
-             
-             // Start next video early if needed
-             if (nextAsset instanceof HTMLVideoElement) {
-                 nextAsset.currentTime = 0;
-                 nextAsset.play();
-             }
-
-             while (true) {
-                const now = audioCtx.currentTime;
-                const tElapsed = now - transStartTime;
-                const tProgress = tElapsed / transitionDuration;
-                
-                if (tProgress >= 1) break;
-
-                // Ease In Out Cubic
-                const ease = tProgress < 0.5 
-                    ? 4 * tProgress * tProgress * tProgress 
-                    : 1 - Math.pow(-2 * tProgress + 2, 3) / 2;
-
-                drawCinematicTransition(ctx, currentAsset, nextAsset, width, height, ease);
-                
-                await new Promise(r => setTimeout(r, FRAME_INTERVAL));
-             }
-         }
-         
-         // Pause previous video to save resources
-         if (currentAsset instanceof HTMLVideoElement) {
-             currentAsset.pause();
-         }
-      }
-    }
+  return { draw, videoTimesAt, sceneIndexAt };
+};
 
-    // --- OUTRO ---
-    onProgress(99, "正在完成视频...");
-    const lastAsset = visualAssets[visualAssets.length - 1];
-    const fadeDuration = 1.5;
-    const fadeStartTime = audioCtx.currentTime;
+type FrameRenderer = ReturnType<typeof createFrameRenderer>;
 
-    while (true) {
-        const now = audioCtx.currentTime;
-        const tElapsed = now - fadeStartTime;
-        const progress = tElapsed / fadeDuration;
+const clampToClip = (video: HTMLVideoElement, time: number) =>
+  isFinite(video.duration) ? Math.min(time, Math.max(0, video.duration - 0.05)) : time;
 
-        if (progress >= 1) break;
+/** Puts each clip on the exact frame needed, waiting for the decoder to get there. */
+const seekVideos = (positions: [HTMLVideoElement, number][]) =>
+  Promise.all(positions.map(([video, time]) => {
+    const target = clampToClip(video, time);
+    if (Math.abs(video.currentTime - target) < 0.001) return Promise.resolve();
+    return new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, SEEK_TIMEOUT_MS);
+        video.addEventListener('seeked', () => { clearTimeout(timer); resolve(); }, { once: true });
+        video.currentTime = target;
+    });
+  }));
+
+/**
+ * Fallback for browsers without WebCodecs: plays the mix and records the canvas with
+ * MediaRecorder. Still drawn from the timeline, with clips nudged back when they drift.
+ */
+const recordRealtime = async (
+  canvas: HTMLCanvasElement,
+  frames: FrameRenderer,
+  timeline: StoryTimeline,
+  audio: AudioBuffer,
+  settings: Mp4EncodeSettings,
+  onProgress: (fraction: number) => void
+): Promise<Blob> => {
+  const FRAME_INTERVAL = 1000 / settings.fps;
+  const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const dest = audioCtx.createMediaStreamDestination();
+  const source = audioCtx.createBufferSource();
+  source.buffer = audio;
+  source.connect(dest);
 
-        if (lastAsset instanceof HTMLVideoElement) {
-             drawAsset(ctx, lastAsset, width, height, 1.0);
-        } else {
-             drawAsset(ctx, lastAsset as HTMLImageElement, width, height, 1.25 + (progress * 0.05));
-        }
+  const stream = canvas.captureStream(settings.fps);
+  const audioTrack = dest.stream.getAudioTracks()[0];
+  if (audioTrack) {
+    stream.addTrack(audioTrack);
+  }
 
-        ctx.fillStyle = `rgba(0,0,0,${progress})`;
-        ctx.fillRect(0, 0, width, height);
+  // Try strict MP4 first, then WebM
+  let mimeType = 'video/webm';
+  if (MediaRecorder.isTypeSupported('video/mp4; codecs=avc1,mp4a.40.2')) {
+    mimeType = 'video/mp4; codecs=avc1,mp4a.40.2';
+  } else if (MediaRecorder.isTypeSupported('video/mp4')) {
+    mimeType = 'video/mp4';
+  } else if (MediaRecorder.isTypeSupported('video/webm; codecs=vp9')) {
+    mimeType = 'video/webm; codecs=vp9';
+  }
+  console.log(`Exporting video using mimeType: ${mimeType}`);
 
-        await new Promise(r => setTimeout(r, FRAME_INTERVAL));
-    }
+  const chunks: Blob[] = [];
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: settings.videoBitrate, audioBitsPerSecond: settings.audioBitrate });
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+  });
 
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, width, height);
-    await new Promise(r => setTimeout(r, 500));
+  if (audioCtx.state === 'suspended') {
+      await audioCtx.resume();
+  }
+  recorder.start();
+  const startTime = audioCtx.currentTime + 0.1;
+  source.start(startTime);
 
-  } catch (err) {
-    console.error("Video generation error", err);
-    throw err;
+  const playing = new Set<HTMLVideoElement>();
+  try {
+    while (true) {
+        const t = Math.max(0, audioCtx.currentTime - startTime);
+        if (t >= timeline.total) break;
+
+        const wanted = frames.videoTimesAt(t);
+        playing.forEach(video => {
+            if (!wanted.some(([v]) => v === video)) { video.pause(); playing.delete(video); }
+        });
+        wanted.forEach(([video, time]) => {
+            const target = clampToClip(video, time);
+            if (!playing.has(video)) {
+                video.currentTime = target;
+                video.play().catch(() => {});
+                playing.add(video);
+            } else if (Math.abs(video.currentTime - target) > 0.3) {
+                video.currentTime = target;
+            }
+        });
+
+        frames.draw(t);
+        onProgress(t / timeline.total);
+        await new Promise(r => setTimeout(r, FRAME_INTERVAL));
+    }
   } finally {
     recorder.stop();
+    try { source.stop(); } catch (e) {}
+    playing.forEach(video => video.pause());
     audioCtx.close();
   }
-  
-  return new Promise<Blob>(resolve => {
-    recorder.onstop = () => {
-        // Trust the recorder's data
-        const blob = new Blob(chunks, { type: mimeType.split(';')[0] });
-        resolve(blob);
-    };
-  });
+  return stopped;
 };
 
 // Helpers
@@ -351,132 +456,20 @@ async function loadImage(b64: string): Promise<HTMLImageElement> {
     });
 }
 
-function drawAsset(
-    ctx: CanvasRenderingContext2D, 
-    asset: VisualAsset, 
-    w: number, 
-    h: number, 
-    scale: number
-) {
-    const isVideo = asset instanceof HTMLVideoElement;
-    const assetW = isVideo ? (asset as HTMLVideoElement).videoWidth : (asset as HTMLImageElement).width;
-    const assetH = isVideo ? (asset as HTMLVideoElement).videoHeight : (asset as HTMLImageElement).height;
-    
-    if (assetW === 0 || assetH === 0) return;
-
-    const assetRatio = assetW / assetH;
-    const canvasRatio = w / h;
-    
-    let renderW, renderH;
-    
-    // Cover fit
-    if (assetRatio > canvasRatio) {
-        renderH = h;
-        renderW = h * assetRatio;
-    } else {
-        renderW = w;
-        renderH = w / assetRatio;
-    }
-
-    renderW *= scale;
-    renderH *= scale;
-
-    const x = (w - renderW) / 2;
-    const y = (h - renderH) / 2;
-
-    ctx.drawImage(asset, x, y, renderW, renderH);
-}
-
-
-function drawCinematicTransition(
-    ctx: CanvasRenderingContext2D, 
-    assetA: VisualAsset, 
-    assetB: VisualAsset, 
-    w: number, 
-    h: number, 
-    progress: number
-) {
-    ctx.clearRect(0, 0, w, h);
-    
-    const offsetX = w * progress; 
-    
-    // Draw A
-    ctx.save();
-    ctx.translate(-offsetX, 0);
-    const scaleA = assetA instanceof HTMLVideoElement ? 1.0 : 1.25;
-    drawAsset(ctx, assetA, w, h, scaleA);
-    
-    ctx.fillStyle = `rgba(0,0,0,${progress * 0.5})`;
+function createPlaceholderAsset(w: number, h: number, sceneNumber: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, w, h);
+    gradient.addColorStop(0, '#1e293b');
+    gradient.addColorStop(1, '#0f172a');
+    ctx.fillStyle = gradient;
     ctx.fillRect(0, 0, w, h);
-    ctx.restore();
-
-    // Draw B
-    ctx.save();
-    ctx.translate(w - offsetX, 0);
-    const scaleB = assetB instanceof HTMLVideoElement ? 1.0 : 1.1;
-    drawAsset(ctx, assetB, w, h, scaleB);
-    
-    ctx.shadowColor = "black";
-    ctx.shadowBlur = 50;
-    ctx.shadowOffsetX = -20;
-    ctx.fillRect(-5, 0, 5, h);
-    
-    ctx.restore();
+    ctx.fillStyle = 'rgba(255,255,255,0.5)';
+    ctx.font = `900 ${Math.round(Math.min(w, h) / 12)}px "Zcool KuaiLe", "Nunito", sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`场景 ${sceneNumber} 画面缺失`, w / 2, h / 2);
+    return canvas;
 }
-
-
-function drawSubtitles(ctx: CanvasRenderingContext2D, text: string, w: number, h: number, opacity: number) {
-  const isVertical = h > w;
-  const fontSize = isVertical ? 40 : 36;
-  const padding = 24;
-  const bottomMargin = isVertical ? 150 : 60;
-  
-  ctx.font = `900 ${fontSize}px "Zcool KuaiLe", "Nunito", sans-serif`;
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'bottom';
-
-  const maxWidth = w - (padding * 4);
-  const words = text.split('');
-  const lines = [];
-  let currentLine = words[0];
-
-  for (let i = 1; i < words.length; i++) {
-    const word = words[i];
-    const width = ctx.measureText(currentLine + word).width;
-    if (width < maxWidth) {
-      currentLine += word;
-    } else {
-      lines.push(currentLine);
-      currentLine = word;
-    }
-  }
-  lines.push(currentLine);
-
-  const lineHeight = fontSize * 1.4;
-  const totalTextHeight = lines.length * lineHeight;
-  const bgHeight = totalTextHeight + (padding * 2);
-  
-  ctx.save();
-  ctx.globalAlpha = opacity;
-
-  const bgY = h - bgHeight - bottomMargin;
-  const gradient = ctx.createLinearGradient(0, bgY, 0, h - bottomMargin);
-  gradient.addColorStop(0, 'rgba(0,0,0,0.4)');
-  gradient.addColorStop(1, 'rgba(0,0,0,0.8)');
-
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, h - bgHeight - bottomMargin - 20, w, bgHeight + 40);
-
-  ctx.fillStyle = '#fff';
-  ctx.shadowColor = 'rgba(0,0,0,0.8)';
-  ctx.shadowBlur = 4;
-  ctx.shadowOffsetX = 2;
-  ctx.shadowOffsetY = 2;
-
-  lines.forEach((line, index) => {
-    const y = h - bottomMargin - padding - ((lines.length - 1 - index) * lineHeight);
-    ctx.fillText(line, w / 2, y);
-  });
-  
-  ctx.restore();
-}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { DialogueLine, NARRATOR_SPEAKER, Scene, VoiceCast, VoiceName } from '../types';
+
+/** True when a scene has lines spoken by someone other than the narrator. */
+export const hasDialogue = (scene: Scene) =>
+  !!scene.lines?.some(line => line.speaker !== NARRATOR_SPEAKER);
+
+/** Characters with at least one line, in order of first appearance. */
+export const speakingCharacters = (scenes: Scene[]): string[] => {
+  const names: string[] = [];
+  scenes.forEach(scene => scene.lines?.forEach(line => {
+    if (line.speaker !== NARRATOR_SPEAKER && !names.includes(line.speaker)) names.push(line.speaker);
+  }));
+  return names;
+};
+
+/**
+ * Gives every speaking character a voice, keeping existing choices and avoiding the
+ * narrator's voice while others are free.
+ */
+export const autoCast = (characters: string[], narratorVoice: VoiceName, existing: VoiceCast = {}): VoiceCast => {
+  const pool = Object.values(VoiceName).filter(v => v !== narratorVoice);
+  const cast: VoiceCast = {};
+  characters.forEach((name, i) => {
+    cast[name] = existing[name] || pool[i % pool.length];
+  });
+  return cast;
+};
+
+export const voiceForSpeaker = (speaker: string, narratorVoice: VoiceName, cast: VoiceCast = {}) =>
+  speaker === NARRATOR_SPEAKER ? narratorVoice : cast[speaker] || narratorVoice;
+
+export const joinLines = (lines: DialogueLine[]) => lines.map(line => line.text).join('');
+
+/**
+ * Splits consecutive lines into runs with at most `maxVoices` distinct voices,
+ * since multi-speaker TTS only takes a couple of speakers per request.
+ */
+export const chunkByVoice = (
+  lines: DialogueLine[],
+  narratorVoice: VoiceName,
+  cast: VoiceCast = {},
+  maxVoices: number = 2
+): { voice: VoiceName; text: string }[][] => {
+  const chunks: { voice: VoiceName; text: string }[][] = [];
+  let current: { voice: VoiceName; text: string }[] = [];
+  let voices = new Set<VoiceName>();
+
+  lines.forEach(line => {
+    if (!line.text.trim()) return;
+    const voice = voiceForSpeaker(line.speaker, narratorVoice, cast);
+    if (!voices.has(voice) && voices.size >= maxVoices) {
+      chunks.push(current);
+      current = [];
+      voices = new Set();
+    }
+    voices.add(voice);
+    current.push({ voice, text: line.text });
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
@@ -6,10 +6,260 @@ export interface Scene {
   audioData?: ArrayBuffer; // Raw PCM
   videoUrl?: string; // Blob URL for Veo video (Scene content)
   transitionVideoUrl?: string; // Blob URL for Veo video (Transition to next scene)
+  characters?: string[]; // Names from the story's character bible who appear in this scene
+  lines?: DialogueLine[]; // Narration split by speaker; when present, `narration` is these lines joined
+  music?: MusicTrackId; // Overrides the story's music bed for this scene
+  soundEffects?: SoundCue[]; // Effects played over this scene
+  transitionStyle?: SceneTransition; // Canvas transition into the next scene; overrides the story's
+  camera?: CameraMotion; // How the picture is framed and moves while the scene plays; see CAMERA_MOVES
+}
+
+/** Speaker name used for the narrator's own lines. */
+export const NARRATOR_SPEAKER = '旁白';
+
+export interface DialogueLine {
+  /** NARRATOR_SPEAKER or a character name from the story's bible. */
+  speaker: string;
+  text: string;
+}
+
+/** Bundled music beds; 'none' means silence. */
+export type MusicTrackId = 'none' | 'guqin' | 'playful' | 'lullaby' | 'battle';
+
+export type SoundEffectId = 'drum' | 'gong' | 'bell' | 'whoosh' | 'wind' | 'water';
+
+export interface SoundCue {
+  effect: SoundEffectId;
+  /** Seconds after the scene's narration starts. */
+  at: number;
+}
+
+/** Canvas transition effects between scenes; see TRANSITION_META. */
+export type TransitionEffect = 'slide' | 'crossfade' | 'dipToBlack' | 'zoomThrough' | 'inkWash' | 'pageTurn' | 'iris';
+
+export type TransitionEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+/** How one scene hands over to the next when there's no Veo clip for it. */
+export interface SceneTransition {
+  effect: TransitionEffect;
+  /** Seconds. */
+  duration: number;
+  easing: TransitionEasing;
+}
+
+/**
+ * Part of the scene picture shown in the frame: a rectangle with the frame's own shape,
+ * as fractions of the full picture. `size` 1 is the whole picture, 0.5 is a 2x zoom.
+ */
+export interface CameraFraming {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/** 'auto' keeps the alternating zoom in/out; 'custom' uses the stored start and end framings. */
+export type CameraMove = 'auto' | 'still' | 'zoomIn' | 'zoomOut' | 'panLeft' | 'panRight' | 'panUp' | 'panDown' | 'focus' | 'custom';
+
+export interface CameraMotion {
+  move: CameraMove;
+  /** For 'custom'. */
+  start?: CameraFraming;
+  end?: CameraFraming;
+  /** For 'focus': the point the camera pushes in on, as fractions of the picture. */
+  focus?: { x: number; y: number };
+}
+
+/** Look of burned-in subtitles; see SUBTITLE_THEMES. */
+export type SubtitleThemeId = 'classic' | 'comic' | 'scroll' | 'highContrast';
+
+export type SubtitlePosition = 'bottom' | 'middle' | 'top';
+
+export type SubtitleSize = 'small' | 'medium' | 'large';
+
+export interface SubtitleStyle {
+  theme: SubtitleThemeId;
+  position: SubtitlePosition;
+  size: SubtitleSize;
+  /** Text outline width in pixels at 720p; 0 for none. */
+  outline: number;
+  /** Lines per subtitle screen. */
+  maxLines: number;
+}
+
+/** How the title is laid over a cover; see COVER_LAYOUTS. */
+export type CoverLayout = 'classic' | 'banner' | 'side' | 'stamp';
+
+export type CoverFont = 'rounded' | 'brush' | 'heavy' | 'serif';
+
+export type CoverColorScheme = 'gold' | 'white' | 'vermilion' | 'ink' | 'jade';
+
+export type CoverAlign = 'left' | 'center' | 'right';
+
+/** Cover title styling, reusable across covers; the title text itself is chosen per cover. */
+export interface CoverTemplate {
+  layout: CoverLayout;
+  font: CoverFont;
+  colors: CoverColorScheme;
+  /** Where the title block sits. */
+  vertical: 'top' | 'middle' | 'bottom';
+  align: CoverAlign;
+  /** Size of each title line (the title split at its line breaks); 1 is the standard size. */
+  lineSizes: number[];
+  /** Smaller line under the title, such as an episode number; empty for none. */
+  subtitle: string;
+  subtitleSize: number;
+  /** Series name shown as a badge in a corner; empty for none. */
+  badge: string;
+}
+
+/** Loudness target for exported audio; see LOUDNESS_PRESETS. */
+export type LoudnessPresetId = 'platform' | 'podcast' | 'broadcast' | 'off';
+
+/** Height of a landscape export (width of a portrait one); see EXPORT_RESOLUTIONS. */
+export type ExportResolution = '720p' | '1080p' | '1440p';
+
+export type ExportFrameRate = 24 | 30 | 60;
+
+export type PublishPlatformId = 'douyin' | 'xiaohongshu' | 'bilibili';
+
+/**
+ * Edges of the frame that a platform's own UI covers (buttons, captions, progress bar),
+ * as fractions of the frame size. Subtitles and titles are kept inside the rest.
+ */
+export interface SafeArea {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Video export settings. The built-in ones live in exportProfiles.ts; users can save their own. */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  resolution: ExportResolution;
+  fps: ExportFrameRate;
+  /** Video bits per second; audio is added on top. */
+  videoBitrate: number;
+}
+
+export type WatermarkCorner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+
+/** Where the channel's intro sting plays, relative to the cover. */
+export type StingPlacement = 'off' | 'beforeCover' | 'afterCover';
+
+/** A channel's logo, intro sting and end card, saved once and applied to every export. */
+export interface BrandKit {
+  id: string;
+  name: string;
+  channelName: string;
+  /** Base64 PNG, kept small enough for localStorage. */
+  logo?: string;
+  /** Background of the sting and the end card. */
+  color: string;
+  watermark: {
+    corner: WatermarkCorner;
+    opacity: number;
+    /** Longest side of the logo as a fraction of the frame's short side. */
+    size: number;
+  };
+  sting: StingPlacement;
+  endCard: {
+    enabled: boolean;
+    followPrompt: string;
+    /** Seconds. */
+    duration: number;
+  };
+}
+
+/** Character name -> voice. The narrator keeps the story's own voice. */
+export type VoiceCast = Record<string, VoiceName>;
+
+export interface CharacterProfile {
+  name: string;
+  appearance: string;
+  clothing: string;
+  palette: string;
+}
+
+/** Character and setting sheet shared by every scene image so people and places stay consistent. */
+export interface StoryBible {
+  characters: CharacterProfile[];
+  era: string;
+  setting: string;
+  palette: string;
 }
 
 export type AspectRatio = '16:9' | '9:16';
 
+export type AudienceAge = '3-5' | '5-8' | '9-12';
+
+export type TonePreset = 'talkShow' | 'bedtime' | 'classroom' | 'adventure';
+
+export type NarratorPersona = 'cat' | 'grandpa' | 'teacher' | 'explorer';
+
+export type NarrationLength = 'short' | 'medium' | 'long';
+
+/** How a story script is written: who it's for, how it sounds and how long it runs. */
+export interface StoryStyle {
+  audience: AudienceAge;
+  tone: TonePreset;
+  persona: NarratorPersona;
+  sceneCount: number;
+  narrationLength: NarrationLength;
+  /** Seconds for the whole story; when set it caps narration length per scene. */
+  targetDurationSec?: number;
+}
+
+export type ClaimKind = 'fact' | 'legend' | 'embellishment';
+
+export interface SceneClaim {
+  sceneId: number;
+  claim: string;
+  kind: ClaimKind;
+  /** Why it was classified this way, in a sentence a parent can read aloud. */
+  explanation: string;
+}
+
+export interface FactReference {
+  title: string;
+  author?: string;
+  /** Which part of the story the source supports, e.g. a chapter. */
+  note?: string;
+}
+
+/** Result of the optional verification pass over a story's script. */
+export interface FactCheck {
+  /** One-line verdict on the story as a whole: recorded history, legend, or a mix. */
+  summary: string;
+  claims: SceneClaim[];
+  teacherNotes: string[];
+  references: FactReference[];
+  checkedAt: number;
+}
+
+export type QuizQuestionType = 'multipleChoice' | 'trueFalse';
+
+export interface QuizQuestion {
+  id: number;
+  /** Scene the answer can be found in. */
+  sceneId: number;
+  type: QuizQuestionType;
+  question: string;
+  /** Two options ('对' / '错') for true/false questions. */
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+}
+
+export interface QuizAttempt {
+  /** Option index chosen for each question, in question order. */
+  answers: number[];
+  score: number;
+  total: number;
+  completedAt: number;
+}
+
 export interface Story {
   id: string;
   title: string;
@@ -18,6 +268,40 @@ export interface Story {
   createdAt: number;
   aspectRatio: AspectRatio;
   coverImage?: string; // Base64 image with title composition
+  voice?: VoiceName; // Narrator voice, reused when a scene's audio is regenerated
+  style?: StoryStyle; // Script style the story was generated with
+  bible?: StoryBible; // Character/setting sheet injected into scene image prompts
+  factCheck?: FactCheck; // Shown as 史实小贴士 in the player
+  cast?: VoiceCast; // Voices for characters with dialogue lines
+  quiz?: QuizQuestion[]; // Comprehension questions played after the last scene
+  quizResults?: QuizAttempt[]; // Every finished quiz, oldest first
+  music?: MusicTrackId; // Music bed under the whole story; scenes can override it
+  transitionStyle?: SceneTransition; // Default transition between scenes; scenes can override it
+  subtitleStyle?: SubtitleStyle; // Burned-in subtitle look; the classic theme when unset
+}
+
+/** Lightweight listing entry for the story library; the full story is loaded on open. */
+export interface StorySummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  aspectRatio: AspectRatio;
+  sceneCount: number;
+  sizeBytes: number;
+}
+
+export type EvictionPolicy = 'manual' | 'oldest';
+
+export interface LibrarySettings {
+  eviction: EvictionPolicy;
+  /** Only used with the 'oldest' policy. */
+  maxStories: number;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
 }
 
 export enum VoiceName {
@@ -28,12 +312,50 @@ export enum VoiceName {
   Aoede = 'Aoede' 
 }
 
+export type AssetStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface SceneGenerationProgress {
+  image: AssetStatus;
+  audio: AssetStatus;
+}
+
+export type GenerationJobStatus = 'running' | 'incomplete';
+
+/**
+ * Persisted record of a story whose assets are still being generated.
+ * Finished assets live on `scenes`; `sceneStatus` says which ones still need work.
+ */
+export interface GenerationJob {
+  id: string;
+  topic: string;
+  voice: VoiceName;
+  cast?: VoiceCast;
+  style: StoryStyle;
+  aspectRatio: AspectRatio;
+  title: string;
+  introduction: string;
+  bible?: StoryBible;
+  factCheck?: FactCheck;
+  quiz?: QuizQuestion[];
+  scenes: Scene[];
+  sceneStatus: SceneGenerationProgress[];
+  coverImage?: string;
+  coverStatus: AssetStatus;
+  status: GenerationJobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface AppState {
   currentStory: Story | null;
-  savedStories: Story[];
+  savedStories: StorySummary[];
   isLoading: boolean;
   loadingStep: string;
+  generationProgress: SceneGenerationProgress[];
+  pendingJobs: GenerationJob[];
   selectedVoice: VoiceName;
+  selectedStyle: StoryStyle;
+  factCheckEnabled: boolean;
   selectedAspectRatio: AspectRatio;
   isImmersive: boolean;
 }
\ No newline at end of file